@@ -0,0 +1,758 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import "./pipeline-mocks";
+import { storage } from "../storage";
+import type { MemStorage } from "../storage-memory";
+import { emailRoutingService } from "../services/email-routing";
+import { ThreadContextService } from "../services/thread-context";
+import { llmProviderService, StubLLMProvider } from "../services/llm-provider";
+import { sentimentAnalysisService, type SentimentResult } from "../services/sentiment-analysis";
+import { autoResponderService, type IncomingEmail } from "../services/auto-responder";
+import { emailJobQueue } from "../services/email-job-queue";
+import { MemoryJobStore } from "../services/email-job-store";
+import { CircuitOpenError, RESILIENCE_POLICIES, providerResilience } from "../services/provider-resilience";
+import { emailDedupService, STALLED_AFTER_MS } from "../services/email-dedup";
+import { MemoryDedupStore } from "../services/email-dedup-store";
+import { confidenceCalibrationService } from "../services/confidence-calibration";
+
+const memStorage = storage as unknown as MemStorage;
+const dedupStore = new MemoryDedupStore();
+const sendEmail = vi.mocked(emailRoutingService.sendEmail);
+const USER_ID = "user-e2e";
+
+const DRAFT_BODY = "Thanks for reaching out about your order. I can check the latest shipping status for you right away.";
+
+const EMAIL: IncomingEmail = {
+  fromEmail: "jordan@customer-mail.com",
+  toEmail: "support@shop.com",
+  subject: "Where is my order?",
+  body: "Hi, I ordered last week and have not received a shipping update. Can you check on it?",
+  messageId: "msg-e2e-1"
+};
+
+const NEUTRAL: SentimentResult = {
+  sentiment: "NEUTRAL",
+  confidence: 90,
+  scores: { positive: 5, negative: 5, neutral: 90, mixed: 0 },
+  reasoning: "Neutral"
+};
+
+const FURIOUS: SentimentResult = {
+  sentiment: "NEGATIVE",
+  confidence: 95,
+  scores: { positive: 0, negative: 96, neutral: 4, mixed: 0 },
+  reasoning: "Very negative"
+};
+
+/**
+ * Stub LLM answering the grounded classifier and the empathetic draft prompt
+ */
+function useLLM(classification: string, confidence: number, draftBody = DRAFT_BODY) {
+  llmProviderService.setOverride(new StubLLMProvider({
+    completions: [
+      {
+        contains: "EMAIL TO CLASSIFY",
+        response: JSON.stringify({
+          classification,
+          confidence,
+          reasoning: `Customer is asking about ${classification}`,
+          priority: "medium",
+          priorityReasoning: "Standard request",
+          intents: [{ intent: classification, confidence, entities: {} }]
+        })
+      },
+      {
+        contains: "Examples of CORRECT draft language",
+        response: JSON.stringify({
+          subject: "Re: Where is my order?",
+          body: draftBody,
+          tone: "empathetic",
+          confidenceScore: 90,
+          emotionalAcknowledgment: "Acknowledged the wait"
+        })
+      }
+    ]
+  }));
+}
+
+async function seed(options: { approvalRequired: boolean }) {
+  await memStorage.updateSystemSettings(USER_ID, { automationApprovalRequired: options.approvalRequired });
+  return memStorage.createAutoResponderRule({
+    userId: USER_ID,
+    name: "Order status",
+    classification: "order_status",
+    template: "Thanks for contacting us about your order.",
+    isActive: true
+  });
+}
+
+/**
+ * Make the mail provider hang past a short send timeout, so sends end with an unknown outcome
+ */
+async function withHangingSend<T>(run: () => Promise<T>): Promise<T> {
+  const policy = RESILIENCE_POLICIES.email;
+  const timeoutMs = policy.timeoutMs;
+  policy.timeoutMs = 20;
+  sendEmail.mockImplementation(() => new Promise(() => {}));
+  try {
+    return await run();
+  } finally {
+    policy.timeoutMs = timeoutMs;
+    providerResilience.reset();
+  }
+}
+
+describe("processIncomingEmail end to end", () => {
+  beforeEach(() => {
+    memStorage.reset();
+    dedupStore.reset();
+    emailDedupService.setStore(dedupStore);
+    sendEmail.mockReset();
+    sendEmail.mockResolvedValue(true);
+    sentimentAnalysisService.setOverride(async () => NEUTRAL);
+    confidenceCalibrationService.invalidate();
+  });
+
+  afterAll(() => {
+    emailDedupService.setStore(null);
+    llmProviderService.setOverride(null);
+    sentimentAnalysisService.setOverride(null);
+  });
+
+  describe("escalate path", () => {
+    it("escalates low-confidence classifications without drafting or sending", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 40);
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(result.escalated).toBe(true);
+      expect(result.autoResponseSent).toBe(false);
+      expect(sendEmail).not.toHaveBeenCalled();
+
+      const [escalation] = await memStorage.getEscalationQueue(USER_ID);
+      expect(escalation).toMatchObject({ emailId: result.id, status: "pending" });
+      expect((await memStorage.getEmail(result.id)).status).toBe("escalated");
+    });
+
+    it("escalates very negative sentiment as urgent even when a rule matches", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 92);
+      sentimentAnalysisService.setOverride(async () => FURIOUS);
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(result.escalated).toBe(true);
+      const [escalation] = await memStorage.getEscalationQueue(USER_ID);
+      expect(escalation.priority).toBe("urgent");
+      expect(escalation.reason).toContain("Negative sentiment detected");
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it("escalates when no rule matches the classification", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("product", 90);
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(result.escalated).toBe(true);
+      const [escalation] = await memStorage.getEscalationQueue(USER_ID);
+      expect(escalation.reason).toContain("No matching auto-responder rule");
+    });
+  });
+
+  describe("approval-queue path", () => {
+    it("queues the drafted reply for review instead of sending it", async () => {
+      const rule = await seed({ approvalRequired: true });
+      useLLM("order_status", 90);
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(result).toMatchObject({ awaitingApproval: true, autoResponseSent: false, escalated: false, ruleUsed: "Order status" });
+      expect(sendEmail).not.toHaveBeenCalled();
+
+      const [item] = await memStorage.getAutomationApprovalQueue(USER_ID);
+      expect(item).toMatchObject({ emailId: result.id, ruleId: rule.id, classification: "order_status", status: "pending" });
+      expect(item.proposedResponse).toContain(DRAFT_BODY);
+      expect(item.metadata.factCheck.verdict).toBe("pass");
+    });
+
+    it("rewrites completed-action claims before the draft reaches reviewers", async () => {
+      await seed({ approvalRequired: true });
+      useLLM("order_status", 90, "I have updated your order so it ships with priority handling.");
+
+      await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      const [item] = await memStorage.getAutomationApprovalQueue(USER_ID);
+      expect(item.proposedResponse).toContain("I can update your order");
+      expect(item.proposedResponse).not.toContain("I have updated");
+    });
+
+    it("sends the reviewer's edited text and records how the draft was changed", async () => {
+      await seed({ approvalRequired: true });
+      useLLM("order_status", 90, "Thanks for reaching out about your order. Orders ship within 2 business days.");
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+      const [item] = await memStorage.getAutomationApprovalQueue(USER_ID);
+      const edited = item.proposedResponse.replace("within 2 business days", "within 4 business days");
+
+      const approval = await autoResponderService.approveApprovalItem(USER_ID, item.id, { finalResponse: edited, approvedBy: "agent@shop.com" });
+
+      expect(approval).toMatchObject({ sent: true, edit: { editClass: "factual_fix" } });
+      const [, message] = sendEmail.mock.calls[0] as any[];
+      expect(message.html).toContain("within 4 business days");
+
+      const sentItem = await memStorage.getAutomationApprovalItem(item.id);
+      expect(sentItem.status).toBe("sent");
+      expect(sentItem.metadata.finalResponse).toBe(edited);
+      expect(sentItem.metadata.edit.factualChanges).toEqual([
+        { removed: "Orders ship within 2 business days.", added: "Orders ship within 4 business days." }
+      ]);
+      expect(await memStorage.getEmail(result.id)).toMatchObject({ status: "resolved", isResponded: true });
+    });
+
+    it("sends an approved draft once when it is approved twice", async () => {
+      await seed({ approvalRequired: true });
+      useLLM("order_status", 90);
+
+      await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+      const [item] = await memStorage.getAutomationApprovalQueue(USER_ID);
+      const approvals = await Promise.allSettled([
+        autoResponderService.approveApprovalItem(USER_ID, item.id),
+        autoResponderService.approveApprovalItem(USER_ID, item.id)
+      ]);
+
+      expect(approvals.map(a => a.status).sort()).toEqual(["fulfilled", "rejected"]);
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect((await memStorage.getAutomationApprovalItem(item.id)).status).toBe("sent");
+    });
+
+    it("leaves an item another instance claimed between its read and its claim", async () => {
+      await seed({ approvalRequired: true });
+      useLLM("order_status", 90);
+
+      await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+      const [item] = await memStorage.getAutomationApprovalQueue(USER_ID);
+      const staleRead = { ...item };
+      await memStorage.claimAutomationApprovalItem(item.id, "sending");
+      const read = vi.spyOn(memStorage, "getAutomationApprovalItem").mockResolvedValue(staleRead);
+
+      try {
+        await expect(autoResponderService.approveApprovalItem(USER_ID, item.id)).rejects.toThrow("already being handled");
+        await expect(autoResponderService.rejectApprovalItem(USER_ID, item.id)).rejects.toThrow("already being handled");
+      } finally {
+        read.mockRestore();
+      }
+      expect(sendEmail).not.toHaveBeenCalled();
+      expect(await memStorage.getEscalationQueue(USER_ID)).toHaveLength(0);
+      expect((await memStorage.getAutomationApprovalItem(item.id)).status).toBe("sending");
+    });
+
+    it("puts the item back in the queue when the approved send fails", async () => {
+      await seed({ approvalRequired: true });
+      useLLM("order_status", 90);
+      sendEmail.mockResolvedValue(false);
+
+      await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+      const [item] = await memStorage.getAutomationApprovalQueue(USER_ID);
+
+      expect(await autoResponderService.approveApprovalItem(USER_ID, item.id)).toEqual({ sent: false });
+      expect((await memStorage.getAutomationApprovalItem(item.id)).status).toBe("pending");
+    });
+
+    it("keeps an approved draft out of the queue when its send timed out", async () => {
+      await seed({ approvalRequired: true });
+      useLLM("order_status", 90);
+
+      await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+      const [item] = await memStorage.getAutomationApprovalQueue(USER_ID);
+
+      const result = await withHangingSend(() => autoResponderService.approveApprovalItem(USER_ID, item.id));
+
+      expect(result).toEqual({ sent: false, sendUnknown: true });
+      expect((await memStorage.getAutomationApprovalItem(item.id)).status).toBe("send_unknown");
+      await expect(autoResponderService.approveApprovalItem(USER_ID, item.id)).rejects.toThrow("already send_unknown");
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it("hands a rejected draft's email to a human without learning from a tone rejection", async () => {
+      await seed({ approvalRequired: true });
+      useLLM("order_status", 90);
+      const { classificationFeedbackService } = await import("../services/classification-feedback");
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+      const [item] = await memStorage.getAutomationApprovalQueue(USER_ID);
+      await autoResponderService.rejectApprovalItem(USER_ID, item.id, { reason: "Too formal", rejectedBy: "agent@shop.com" });
+
+      expect((await memStorage.getEmail(result.id)).status).toBe("escalated");
+      const [escalation] = await memStorage.getEscalationQueue(USER_ID);
+      expect(escalation).toMatchObject({ emailId: result.id, reason: "Draft rejected by reviewer: Too formal" });
+      expect(await classificationFeedbackService.getExamples(USER_ID, true)).toHaveLength(0);
+      await expect(autoResponderService.rejectApprovalItem(USER_ID, item.id)).rejects.toThrow("already rejected");
+      expect(await memStorage.getEscalationQueue(USER_ID)).toHaveLength(1);
+    });
+  });
+
+  describe("confidence calibration", () => {
+    async function seedReviews(count: number, rejection: Record<string, string>) {
+      for (let i = 0; i < count; i++) {
+        await memStorage.createAutomationApprovalItem({
+          userId: USER_ID,
+          emailId: `reviewed-${i}`,
+          classification: "order_status",
+          proposedResponse: DRAFT_BODY,
+          status: "rejected",
+          metadata: { rawConfidence: 90, rejection }
+        });
+      }
+    }
+
+    it("only counts rejections that flag the intent as wrong", async () => {
+      await seedReviews(3, { reason: "Too formal" });
+      await seedReviews(2, { correctIntent: "product" });
+
+      const samples = await confidenceCalibrationService.collectSamples(USER_ID);
+
+      expect(samples).toHaveLength(2);
+      expect(samples.every(sample => sample.correctness === 0)).toBe(true);
+    });
+
+    it("sends holdout emails the curve would escalate to review so the intent keeps getting labels", async () => {
+      await seed({ approvalRequired: false });
+      await seedReviews(25, { correctIntent: "product" });
+      useLLM("order_status", 90);
+      confidenceCalibrationService.setHoldoutRate(1);
+
+      try {
+        const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+        expect(result.confidence).toBeLessThan(60);
+        expect(result).toMatchObject({ awaitingApproval: true, escalated: false, autoResponseSent: false });
+        expect(sendEmail).not.toHaveBeenCalled();
+        const item = (await memStorage.getAutomationApprovalQueue(USER_ID)).find(i => i.emailId === result.id);
+        expect(item.metadata).toMatchObject({ rawConfidence: 90, calibrationHoldout: true });
+      } finally {
+        confidenceCalibrationService.setHoldoutRate(null);
+      }
+    });
+  });
+
+  describe("immediate-send path", () => {
+    it("sends the draft, resolves the email and logs the automated reply", async () => {
+      const rule = await seed({ approvalRequired: false });
+      useLLM("order_status", 90);
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(result).toMatchObject({ autoResponseSent: true, escalated: false, ruleUsed: "Order status" });
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      const [, message] = sendEmail.mock.calls[0] as any[];
+      expect(message.to).toBe(EMAIL.fromEmail);
+      expect(message.subject).toBe("Re: Where is my order?");
+      expect(message.html).toContain(DRAFT_BODY);
+
+      const email = await memStorage.getEmail(result.id);
+      expect(email).toMatchObject({ status: "resolved", isResponded: true });
+      expect((await memStorage.getAutoResponderRules(USER_ID)).find(r => r.id === rule.id).triggerCount).toBe(1);
+
+      const logs = await memStorage.getActivityLogs(USER_ID);
+      expect(logs.some(log => log.action === "Sent automated reply")).toBe(true);
+      expect(await memStorage.getEscalationQueue(USER_ID)).toHaveLength(0);
+    });
+
+    it("sends drafts whose only unsourced duration is the reply-time promise", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 90, "I'm checking with our warehouse and will get back to you within 24 hours.");
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(result).toMatchObject({ autoResponseSent: true, escalated: false });
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it("escalates drafts that promise a policy the knowledge base doesn't state", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 90, "If it doesn't arrive, we offer free return shipping and a full refund.");
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(result.escalated).toBe(true);
+      expect(sendEmail).not.toHaveBeenCalled();
+      const [escalation] = await memStorage.getEscalationQueue(USER_ID);
+      expect(escalation.reason).toContain('policy "free return shipping"');
+    });
+
+    it("analyzes sentiment once per email across routing and drafting", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 90);
+      const analyze = vi.fn(async () => NEUTRAL);
+      sentimentAnalysisService.setOverride(analyze);
+
+      await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(analyze).toHaveBeenCalledTimes(1);
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("multi-intent emails", () => {
+    const TWO_REQUESTS: IncomingEmail = {
+      ...EMAIL,
+      subject: "Order and sizing question",
+      body: "Where is my order? Also, does the jacket run large?"
+    };
+
+    async function seedTwoRules(approvalRequired: boolean) {
+      await seed({ approvalRequired });
+      await memStorage.createAutoResponderRule({ userId: USER_ID, name: "Product questions", classification: "product", template: "Thanks for asking.", isActive: true });
+      llmProviderService.setOverride(new StubLLMProvider({
+        completions: [
+          {
+            contains: "EMAIL TO CLASSIFY",
+            response: JSON.stringify({
+              classification: "order_status",
+              confidence: 90,
+              reasoning: "Two requests",
+              priority: "medium",
+              priorityReasoning: "Standard request",
+              intents: [
+                { intent: "order_status", confidence: 90, summary: "Where is the order", entities: {} },
+                { intent: "product", confidence: 85, summary: "Jacket sizing", entities: {} }
+              ]
+            })
+          },
+          {
+            contains: "Examples of CORRECT draft language",
+            response: JSON.stringify({ subject: "Re: Order and sizing question", body: DRAFT_BODY, tone: "empathetic", confidenceScore: 90, emotionalAcknowledgment: "" })
+          }
+        ]
+      }));
+    }
+
+    it("sends one reply that answers every request", async () => {
+      await seedTwoRules(false);
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, TWO_REQUESTS);
+
+      expect(result).toMatchObject({ autoResponseSent: true, escalated: false, ruleUsed: "Order status, Product questions" });
+      expect(result.intents!.map(i => i.intent)).toEqual(["order_status", "product"]);
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect(await memStorage.getEmail(result.id)).toMatchObject({ status: "resolved", isResponded: true });
+    });
+
+    it("queues a single approval item for the whole plan", async () => {
+      await seedTwoRules(true);
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, TWO_REQUESTS);
+
+      expect(result.awaitingApproval).toBe(true);
+      const items = await memStorage.getAutomationApprovalQueue(USER_ID);
+      expect(items).toHaveLength(1);
+      expect(items[0].metadata.intents.map((i: any) => i.intent)).toEqual(["order_status", "product"]);
+      const email = await memStorage.getEmail(result.id);
+      expect(email.status).toBe("awaiting_approval");
+      // Classification, plan and approval state all survive the later metadata writes
+      expect(email.metadata.intents.map((i: any) => i.intent)).toEqual(["order_status", "product"]);
+      expect(email.metadata).toMatchObject({ classificationReasoning: expect.any(String), awaitingApproval: true });
+      expect(email.metadata.intentPlan).toHaveLength(2);
+    });
+
+    it("adds no rules for requests after a rule that stops processing", async () => {
+      await seedTwoRules(false);
+      const [orderRule] = await memStorage.getAutoResponderRules(USER_ID);
+      await memStorage.updateAutoResponderRule(orderRule.id, { stopProcessing: true });
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, TWO_REQUESTS);
+
+      expect(result).toMatchObject({ escalated: true, autoResponseSent: false });
+      expect(sendEmail).not.toHaveBeenCalled();
+      const email = await memStorage.getEmail(result.id);
+      expect(email.metadata.intentPlan.map((step: any) => [step.action, step.ruleName, step.reason])).toEqual([
+        ["automate", "Order status", undefined],
+        ["escalate", undefined, 'Rule "Order status" stops processing']
+      ]);
+    });
+
+    it("previews the route it takes when a request only matches the general fallback", async () => {
+      await seed({ approvalRequired: false });
+      await memStorage.createAutoResponderRule({ userId: USER_ID, name: "General", classification: "general", template: "Thanks for writing.", isActive: true });
+      const classification = {
+        classification: "order_status",
+        confidence: 90,
+        reasoning: "Two requests",
+        intents: [
+          { intent: "order_status", confidence: 90, entities: {} },
+          { intent: "product", confidence: 65, entities: {} }
+        ]
+      };
+      llmProviderService.setOverride(new StubLLMProvider({
+        completions: [{ contains: "EMAIL TO CLASSIFY", response: JSON.stringify({ ...classification, priority: "medium", priorityReasoning: "Standard request" }) }]
+      }));
+
+      const preview = await autoResponderService.previewRoute(USER_ID, TWO_REQUESTS, classification, NEUTRAL);
+      const result = await autoResponderService.processIncomingEmail(USER_ID, TWO_REQUESTS);
+
+      expect(preview.route).toBe("escalate");
+      expect(preview.plan!.map(step => step.action)).toEqual(["automate", "escalate"]);
+      expect(result).toMatchObject({ escalated: true, autoResponseSent: false });
+      expect(sendEmail).not.toHaveBeenCalled();
+      const [escalation] = await memStorage.getEscalationQueue(USER_ID);
+      expect(escalation.reason).toBe(preview.reason);
+    });
+  });
+
+  describe("shadow mode", () => {
+    it("drafts without sending and scores the human's handling by what they did", async () => {
+      await seed({ approvalRequired: false });
+      await memStorage.updateSystemSettings(USER_ID, { shadowMode: true });
+      useLLM("order_status", 90);
+      const { shadowModeService } = await import("../services/shadow-mode");
+
+      const sentAsDrafted = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+      const edited = await autoResponderService.processIncomingEmail(USER_ID, { ...EMAIL, messageId: "msg-e2e-shadow-2" });
+
+      expect(sentAsDrafted).toMatchObject({ shadow: true, autoResponseSent: false, escalated: false });
+      expect(sendEmail).not.toHaveBeenCalled();
+      const { shadowDecision } = (await memStorage.getEmail(sentAsDrafted.id)).metadata;
+      expect(shadowDecision).toMatchObject({ route: "auto", ruleName: "Order status" });
+
+      // Word overlap no longer decides the route: a near-identical rewrite still needed a human
+      expect(await shadowModeService.recordHumanReply(USER_ID, sentAsDrafted.id, shadowDecision.draft))
+        .toMatchObject({ humanOutcome: "sent_as_drafted", humanRoute: "auto", routeMatched: true });
+      expect(await shadowModeService.recordHumanReply(USER_ID, edited.id, `${shadowDecision.draft} Thanks!`))
+        .toMatchObject({ humanOutcome: "edited", humanRoute: "approval", routeMatched: false });
+
+      // Handled through a path that never called the scorer: compared from the email's final state
+      const escalated = await autoResponderService.processIncomingEmail(USER_ID, { ...EMAIL, messageId: "msg-e2e-shadow-3" });
+      await memStorage.updateEmail(escalated.id, { status: "escalated" });
+
+      const report = await shadowModeService.getReport(USER_ID);
+      expect(report).toMatchObject({ shadowed: 3, compared: 3, routeAgreement: 33 });
+      expect(report.byIntent[0].routes.auto).toEqual({ auto: 1, approval: 1, escalate: 1 });
+    });
+
+    it("records automated mail as an escalation without escalating it", async () => {
+      await seed({ approvalRequired: false });
+      await memStorage.updateSystemSettings(USER_ID, { shadowMode: true });
+      useLLM("order_status", 90);
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, { ...EMAIL, autoSubmitted: "auto-replied" });
+
+      expect(result).toMatchObject({ shadow: true, escalated: false });
+      expect(await memStorage.getEscalationQueue(USER_ID)).toHaveLength(0);
+      expect((await memStorage.getEmail(result.id)).metadata.shadowDecision).toMatchObject({
+        route: "escalate",
+        reason: "Automated message (auto-replied) - not auto-responding"
+      });
+    });
+  });
+
+  describe("duplicate deliveries", () => {
+    it("returns the original result for a repeated Message-ID without replying again", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 90);
+
+      const first = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+      const retry = await autoResponderService.processIncomingEmail(USER_ID, { ...EMAIL, messageId: `<${EMAIL.messageId}>` });
+
+      expect(retry).toMatchObject({ ...first, duplicate: true });
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect(await memStorage.getEmails(USER_ID)).toHaveLength(1);
+    });
+
+    it("re-queues a redelivered email whose original delivery crashed mid-pipeline", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 90);
+      const jobStore = new MemoryJobStore();
+      emailJobQueue.setStore(jobStore);
+      vi.useFakeTimers({ toFake: ["Date"] });
+
+      try {
+        // Stored, then the process died before classifying
+        const stalled = await autoResponderService.storeIncomingEmail(USER_ID, EMAIL);
+        vi.setSystemTime(Date.now() + STALLED_AFTER_MS + 1);
+
+        const retry = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+        expect(retry).toMatchObject({ id: stalled.id, deferred: true });
+        expect(retry.duplicate).toBeUndefined();
+        expect(await jobStore.findByEmailId(stalled.id)).toMatchObject({ status: "queued", stage: "classify" });
+
+        await emailJobQueue.runOnce();
+        expect(sendEmail).toHaveBeenCalledTimes(1);
+        expect((await memStorage.getEmail(stalled.id)).status).toBe("resolved");
+        expect(await autoResponderService.processIncomingEmail(USER_ID, EMAIL)).toMatchObject({ id: stalled.id, autoResponseSent: true, duplicate: true });
+        expect(await memStorage.getEmails(USER_ID)).toHaveLength(1);
+      } finally {
+        vi.useRealTimers();
+        emailJobQueue.setStore(null);
+      }
+    });
+
+    it("falls back to a content hash when there is no Message-ID and reports duplicates per mailbox", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 90);
+      const noId = { ...EMAIL, messageId: undefined };
+
+      const [first, concurrent] = await Promise.all([
+        autoResponderService.processIncomingEmail(USER_ID, noId),
+        autoResponderService.processIncomingEmail(USER_ID, { ...noId, body: `  ${noId.body}\n` })
+      ]);
+      await autoResponderService.processIncomingEmail(USER_ID, noId);
+
+      expect(concurrent).toMatchObject({ id: first.id, duplicate: true });
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+
+      const report = await emailDedupService.getDuplicateReport(USER_ID);
+      expect(report.totalDuplicates).toBe(2);
+      expect(report.mailboxes).toEqual([
+        expect.objectContaining({ mailbox: "support@shop.com", duplicates: 2, byContentHash: 2, emailsAffected: 1 })
+      ]);
+    });
+  });
+
+  describe("raw MIME ingestion", () => {
+    const raw = (headers: string[], body: string) => [...headers, "", body].join("\r\n");
+
+    it("drives the pipeline from the parsed message and keeps its headers on the email", async () => {
+      await seed({ approvalRequired: true });
+      useLLM("order_status", 90);
+
+      const result = await autoResponderService.processRawEmail(USER_ID, raw([
+        'From: "Jordan Lee" <Jordan@Customer-Mail.com>',
+        "To: support@shop.com",
+        "Subject: =?UTF-8?B?V2hlcmUgaXMgbXkgb3JkZXI/?=",
+        "Message-ID: <raw-1@customer-mail.com>",
+        "In-Reply-To: <earlier@shop.com>",
+        "References: <root@shop.com> <earlier@shop.com>",
+        "Content-Type: text/html; charset=utf-8",
+        "Content-Transfer-Encoding: quoted-printable"
+      ], "<p>Hi, I ordered last week and have not received a shipping update.=\r\n Can you check on it?</p>"));
+
+      expect(result).toMatchObject({ awaitingApproval: true, classification: "order_status" });
+      const email = await memStorage.getEmail(result.id);
+      expect(email).toMatchObject({
+        fromEmail: "jordan@customer-mail.com",
+        subject: "Where is my order?",
+        body: "Hi, I ordered last week and have not received a shipping update. Can you check on it?",
+        metadata: { messageId: "raw-1@customer-mail.com", fromName: "Jordan Lee", inReplyTo: "earlier@shop.com" }
+      });
+      expect(ThreadContextService.linkEmailToThread).toHaveBeenCalledWith(
+        result.id, "Where is my order?", "jordan@customer-mail.com", "support@shop.com",
+        { messageId: "raw-1@customer-mail.com", inReplyTo: "earlier@shop.com", references: ["root@shop.com", "earlier@shop.com"] }
+      );
+    });
+
+    it("escalates auto-submitted mail without drafting or replying", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 90);
+
+      const result = await autoResponderService.processRawEmail(USER_ID, raw([
+        "From: jordan@customer-mail.com",
+        "To: support@shop.com",
+        "Subject: Out of office: Re: Your order",
+        "Auto-Submitted: auto-replied"
+      ], "I am away until Monday."));
+
+      expect(result).toMatchObject({ escalated: true, autoResponseSent: false });
+      expect(sendEmail).not.toHaveBeenCalled();
+      const [escalation] = await memStorage.getEscalationQueue(USER_ID);
+      expect(escalation).toMatchObject({ priority: "low" });
+      expect(escalation.reason).toContain("auto-replied");
+    });
+  });
+
+  describe("failure paths", () => {
+    it("escalates when the mail provider fails to send", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 90);
+      sendEmail.mockResolvedValue(false);
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ autoResponseSent: false, escalated: true });
+      const [escalation] = await memStorage.getEscalationQueue(USER_ID);
+      expect(escalation.reason).toBe("Failed to send auto-response");
+    });
+
+    it("escalates when the mail provider throws", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 90);
+      sendEmail.mockRejectedValue(new Error("SMTP connection refused"));
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(result.escalated).toBe(true);
+      expect((await memStorage.getEmail(result.id)).status).toBe("escalated");
+    });
+
+    it("escalates instead of deferring when a send times out and may have gone out", async () => {
+      await seed({ approvalRequired: false });
+      useLLM("order_status", 90);
+      const jobStore = new MemoryJobStore();
+      emailJobQueue.setStore(jobStore);
+
+      try {
+        const result = await withHangingSend(() => autoResponderService.processIncomingEmail(USER_ID, EMAIL));
+
+        expect(sendEmail).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({ escalated: true, autoResponseSent: false });
+        expect(result.deferred).toBeUndefined();
+        expect(await jobStore.findByEmailId(result.id)).toBeUndefined();
+        expect((await memStorage.getEmail(result.id)).metadata).toMatchObject({
+          sendOutcome: "unknown",
+          classificationReasoning: expect.stringContaining("Customer is asking about order_status"),
+          intents: [{ intent: "order_status" }]
+        });
+        const [escalation] = await memStorage.getEscalationQueue(USER_ID);
+        expect(escalation.reason).toContain("may already have been delivered");
+      } finally {
+        emailJobQueue.setStore(null);
+      }
+    });
+
+    it("escalates instead of guessing when the LLM returns unparseable output", async () => {
+      await seed({ approvalRequired: false });
+      llmProviderService.setOverride(new StubLLMProvider({ defaultCompletion: "not json" }));
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(result).toMatchObject({ escalated: true, autoResponseSent: false, confidence: 0 });
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it("defers to the job queue instead of escalating while the LLM is unavailable", async () => {
+      await seed({ approvalRequired: false });
+      const retryAt = new Date(Date.now() + 30_000);
+      const down = new StubLLMProvider();
+      down.createChatCompletion = async () => { throw new CircuitOpenError("llm:openai", retryAt); };
+      llmProviderService.setOverride(down);
+      const jobStore = new MemoryJobStore();
+      emailJobQueue.setStore(jobStore);
+
+      try {
+        const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+        expect(result).toMatchObject({ deferred: true, escalated: false, autoResponseSent: false });
+        expect((await memStorage.getEmail(result.id)).status).toBe("processing");
+        expect(await memStorage.getEscalationQueue(USER_ID)).toHaveLength(0);
+        const job = await jobStore.findByEmailId(result.id);
+        expect(job).toMatchObject({ status: "queued", stage: "classify" });
+        expect(job!.runAt.getTime()).toBe(retryAt.getTime());
+      } finally {
+        emailJobQueue.setStore(null);
+      }
+    });
+
+    it("escalates drafts that quote order numbers the customer never gave", async () => {
+      await seed({ approvalRequired: true });
+      useLLM("order_status", 90, "Your order #98765 is on its way with tracking number 1Z999AA10123456784.");
+
+      const result = await autoResponderService.processIncomingEmail(USER_ID, EMAIL);
+
+      expect(result.escalated).toBe(true);
+      expect(await memStorage.getAutomationApprovalQueue(USER_ID)).toHaveLength(0);
+      const [escalation] = await memStorage.getEscalationQueue(USER_ID);
+      expect(escalation.reason).toContain("factual consistency");
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import "./pipeline-mocks";
+import { describe, it, expect } from "vitest";
+import { classificationEvaluator, type EvalPrediction, type EvalRun } from "../services/classification-eval";
+
+function prediction(id: string, expected: string, predicted: string, confidence: number, extra: Partial<EvalPrediction> = {}): EvalPrediction {
+  return { id, expected, predicted, confidence, correct: expected === predicted, ...extra };
+}
+
+const PREDICTIONS = [
+  prediction("1", "order_status", "order_status", 100, { expectedPriority: "high", predictedPriority: "high" }),
+  prediction("2", "order_status", "order_status", 85),
+  prediction("3", "order_status", "refund", 75, { expectedPriority: "high", predictedPriority: "medium" }),
+  prediction("4", "refund", "refund", 90),
+  prediction("5", "refund", "order_status", 55),
+  prediction("6", "shipping", "error", 0, { error: "timeout" })
+];
+
+function run(predictions: EvalPrediction[], datasetHash = "abc"): EvalRun {
+  return { label: "eval", createdAt: "", datasetHash, datasetSize: predictions.length, paths: { grounded: classificationEvaluator.score("grounded", predictions) } };
+}
+
+describe("classification eval scoring", () => {
+  it("computes per-intent precision, recall and F1, and macro F1 over labeled intents", () => {
+    const metrics = classificationEvaluator.score("grounded", PREDICTIONS);
+
+    expect(metrics.perIntent).toEqual({
+      // 2 of 3 order_status predictions right, 2 of 3 order_status emails found
+      order_status: { precision: 0.667, recall: 0.667, f1: 0.667, support: 3 },
+      refund: { precision: 0.5, recall: 0.5, f1: 0.5, support: 2 },
+      shipping: { precision: 0, recall: 0, f1: 0, support: 1 },
+      error: { precision: 0, recall: 0, f1: 0, support: 0 }
+    });
+    // (0.667 + 0.5 + 0) / 3 - the unlabeled "error" prediction is not a class
+    expect(metrics.macroF1).toBe(0.389);
+    expect(metrics).toMatchObject({ total: 6, accuracy: 50, priorityAccuracy: 50, errors: 1 });
+    expect(metrics.confusion).toEqual({
+      order_status: { order_status: 2, refund: 1 },
+      refund: { refund: 1, order_status: 1 },
+      shipping: { error: 1 }
+    });
+  });
+
+  it("bins confidence in tens, with 100 in the last bin, and leaves failed calls out of calibration", () => {
+    const metrics = classificationEvaluator.score("grounded", PREDICTIONS);
+
+    expect(metrics.calibration.filter(bin => bin.count > 0)).toEqual([
+      { range: "50-60", count: 1, averageConfidence: 55, accuracy: 0 },
+      { range: "70-80", count: 1, averageConfidence: 75, accuracy: 0 },
+      { range: "80-90", count: 1, averageConfidence: 85, accuracy: 100 },
+      { range: "90-100", count: 2, averageConfidence: 95, accuracy: 100 }
+    ]);
+    expect(metrics.calibration[0]).toEqual({ range: "0-10", count: 0, averageConfidence: 0, accuracy: 0 });
+    // (1 * 55 + 1 * 75 + 1 * 15 + 2 * 5) / 5 binned predictions
+    expect(metrics.expectedCalibrationError).toBe(31);
+  });
+
+  it("scores a perfectly calibrated run at zero error and handles an empty run", () => {
+    const calibrated = classificationEvaluator.score("direct", [
+      prediction("1", "refund", "refund", 100),
+      prediction("2", "refund", "refund", 100)
+    ]);
+    expect(calibrated).toMatchObject({ accuracy: 100, macroF1: 1, expectedCalibrationError: 0, priorityAccuracy: null });
+
+    expect(classificationEvaluator.score("direct", [])).toMatchObject({ total: 0, accuracy: 0, macroF1: 0, expectedCalibrationError: 0 });
+  });
+
+  it("diffs runs by metric delta and by fixed and regressed examples", () => {
+    const baseline = run(PREDICTIONS);
+    const current = run([
+      ...PREDICTIONS.slice(0, 4),
+      prediction("5", "refund", "refund", 55),
+      prediction("6", "shipping", "shipping", 80),
+      prediction("7", "shipping", "shipping", 80)
+    ].map(p => p.id === "2" ? prediction("2", "order_status", "refund", 85) : p));
+
+    const diff = classificationEvaluator.diff(baseline, current);
+
+    expect(diff.comparable).toBe(true);
+    expect(diff.paths.grounded).toMatchObject({ fixed: ["5", "6"], regressed: ["2"] });
+    // Accuracy 50% -> 5 of 7
+    expect(diff.paths.grounded!.accuracy).toBe(21.429);
+    expect(classificationEvaluator.diff(baseline, run(PREDICTIONS, "other")).comparable).toBe(false);
+  });
+});
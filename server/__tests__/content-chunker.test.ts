@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { contentChunker, type ContentChunk } from "../services/content-chunker";
+
+const sourceOf = (content: string, chunk: ContentChunk) => content.slice(chunk.startOffset, chunk.endOffset);
+
+describe("content chunker", () => {
+  it("tracks heading paths and never crosses a section boundary", () => {
+    const content = [
+      "# Shipping Policy",
+      "We ship to most countries.",
+      "",
+      "## International",
+      "Customs fees are paid by the recipient.",
+      "",
+      "## Domestic",
+      "Orders arrive in 3-5 days.",
+      "",
+      "# Returns",
+      "Send items back within 30 days."
+    ].join("\n");
+
+    const chunks = contentChunker.chunk(content);
+
+    expect(chunks.map(c => [c.headingPath, c.text])).toEqual([
+      [["Shipping Policy"], "We ship to most countries."],
+      [["Shipping Policy", "International"], "Customs fees are paid by the recipient."],
+      [["Shipping Policy", "Domestic"], "Orders arrive in 3-5 days."],
+      [["Returns"], "Send items back within 30 days."]
+    ]);
+  });
+
+  it("keeps FAQ pairs and table rows whole", () => {
+    const content = [
+      "Q: Can I change my order?",
+      "Yes, until it ships.",
+      "",
+      "### Do you ship to PO boxes?",
+      "Only with standard shipping.",
+      "",
+      "| Size | Chest |",
+      "| --- | --- |",
+      "| M | 40 in |"
+    ].join("\n");
+
+    const chunks = contentChunker.chunk(content, { maxTokens: 16, overlapTokens: 0 });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      "Q: Can I change my order?\nYes, until it ships.",
+      "Do you ship to PO boxes?\nOnly with standard shipping.",
+      "| Size | Chest |\n\n| M | 40 in |"
+    ]);
+    expect(chunks[1].headingPath).toEqual([]);
+  });
+
+  it("stays within the token limit and carries whole blocks forward as overlap", () => {
+    const items = Array.from({ length: 12 }, (_, i) => `- Item ${i + 1} ships from warehouse ${String.fromCharCode(65 + i)}`);
+    const chunks = contentChunker.chunk(items.join("\n"), { maxTokens: 40, overlapTokens: 12 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(40);
+      expect(chunk.tokenCount).toBe(contentChunker.countTokens(chunk.text));
+    }
+    // Each chunk after the first starts with the last item of the one before it
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1].text.split("\n\n");
+      expect(chunks[i].text.startsWith(previous[previous.length - 1])).toBe(true);
+    }
+  });
+
+  it("drops overlap that doesn't fit beside the next block instead of emitting an overlap-only chunk", () => {
+    const short = "- Short note";
+    const long = `- ${"Long item text that fills the budget ".repeat(3).trim()}`;
+    const chunks = contentChunker.chunk([short, long].join("\n"), { maxTokens: contentChunker.countTokens(long), overlapTokens: 20 });
+
+    expect(chunks.map(c => c.text)).toEqual([short, long]);
+  });
+
+  it("maps chunk offsets exactly into markdown, including split oversized paragraphs", () => {
+    const sentences = Array.from({ length: 8 }, (_, i) => `Sentence number ${i + 1} explains the refund rules in detail.`);
+    const content = `# Refunds\n\n  ${sentences.slice(0, 4).join(" ")}\n  ${sentences.slice(4).join(" ")}\n`;
+
+    const chunks = contentChunker.chunk(content, { maxTokens: 30, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      // Joined lines become one space; otherwise the source range is the chunk text itself
+      expect(sourceOf(content, chunk).replace(/\s+/g, " ")).toBe(chunk.text);
+    }
+    expect(chunks[0].startOffset).toBe(content.indexOf("Sentence number 1"));
+    expect(chunks[chunks.length - 1].endOffset).toBe(content.indexOf("detail.", content.indexOf("number 8")) + "detail.".length);
+  });
+
+  it("maps HTML block offsets into the raw markup and keeps text outside block elements", () => {
+    const content = [
+      "<html><head><title>Shop</title></head><body>",
+      "<h1>Returns &amp; Exchanges</h1>",
+      "<div class=\"notice\">Free returns on <b>all</b> orders</div>",
+      "<p>Items must be <em>unused</em> &amp; in original packaging.</p>",
+      "<table><tr><th>Window</th><td>30 days</td></tr></table>",
+      "</body></html>"
+    ].join("\n");
+
+    const chunks = contentChunker.chunk(content, { maxTokens: 12, overlapTokens: 0 });
+
+    expect(chunks.map(c => [c.headingPath, c.text])).toEqual([
+      [["Returns & Exchanges"], "Free returns on all orders"],
+      [["Returns & Exchanges"], "Items must be unused & in original packaging."],
+      [["Returns & Exchanges"], "Window | 30 days"]
+    ]);
+    expect(sourceOf(content, chunks[0])).toBe("Free returns on <b>all</b> orders");
+    expect(sourceOf(content, chunks[1])).toBe("<p>Items must be <em>unused</em> &amp; in original packaging.</p>");
+    expect(sourceOf(content, chunks[2])).toBe("<tr><th>Window</th><td>30 days</td></tr>");
+  });
+
+  it("parses div-only pages as text, with offsets into the raw HTML", () => {
+    // Closing divs end lines; two in a row leave a blank line between blocks
+    const content = "<div><div>Q: Do you price match?</div><div>Yes, within 7 days.</div></div><div><div>Gift cards never expire.</div></div>";
+
+    const chunks = contentChunker.chunk(content, { contentType: "html", maxTokens: 16, overlapTokens: 0 });
+
+    expect(chunks.map(c => c.text)).toEqual([
+      "Q: Do you price match?\nYes, within 7 days.",
+      "Gift cards never expire."
+    ]);
+    expect(sourceOf(content, chunks[0])).toBe("Q: Do you price match?</div><div>Yes, within 7 days.");
+    expect(sourceOf(content, chunks[1])).toBe("Gift cards never expire.");
+  });
+});
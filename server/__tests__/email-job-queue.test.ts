@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from "vitest";
+import "./pipeline-mocks";
+import { storage } from "../storage";
+import type { MemStorage } from "../storage-memory";
+import { llmProviderService, StubLLMProvider } from "../services/llm-provider";
+import { sentimentAnalysisService } from "../services/sentiment-analysis";
+import { autoResponderService, type IncomingEmail } from "../services/auto-responder";
+import { emailJobQueue, STAGE_RETRY_POLICIES } from "../services/email-job-queue";
+import { MemoryJobStore } from "../services/email-job-store";
+import { emailDedupService, STALLED_AFTER_MS } from "../services/email-dedup";
+import { MemoryDedupStore } from "../services/email-dedup-store";
+import { CircuitOpenError } from "../services/provider-resilience";
+
+const memStorage = storage as unknown as MemStorage;
+const jobStore = new MemoryJobStore();
+const dedupStore = new MemoryDedupStore();
+const USER_ID = "user-queue";
+
+const EMAIL: IncomingEmail = {
+  fromEmail: "sam@customer-mail.com",
+  toEmail: "support@shop.com",
+  subject: "Question about my order",
+  body: "Hi, can you tell me when my order will arrive?",
+  messageId: "msg-queue-1"
+};
+
+/**
+ * Make a backed-off job runnable now instead of waiting out its delay
+ */
+async function expireBackoff(jobId: string) {
+  await jobStore.update(jobId, { runAt: new Date(Date.now() - 1) });
+}
+
+describe("email job queue", () => {
+  beforeEach(() => {
+    memStorage.reset();
+    jobStore.reset();
+    dedupStore.reset();
+    emailJobQueue.setStore(jobStore);
+    emailDedupService.setStore(dedupStore);
+    sentimentAnalysisService.setOverride(async () => ({
+      sentiment: "NEUTRAL",
+      confidence: 90,
+      scores: { positive: 5, negative: 5, neutral: 90, mixed: 0 }
+    }));
+    // Low confidence: every email escalates, which is enough to exercise the pipeline stages
+    llmProviderService.setOverride(new StubLLMProvider({
+      completions: [{
+        contains: "EMAIL TO CLASSIFY",
+        response: JSON.stringify({ classification: "order_status", confidence: 40, reasoning: "Unclear", priority: "medium", priorityReasoning: "Standard" })
+      }]
+    }));
+  });
+
+  afterEach(() => {
+    // Only the pipeline spies - restoring every mock would also clear the module mocks above
+    for (const stage of ["classifyIncomingEmail", "routeIncomingEmail"] as const) {
+      const fn = autoResponderService[stage];
+      if (vi.isMockFunction(fn)) fn.mockRestore();
+    }
+  });
+
+  afterAll(() => {
+    emailJobQueue.setStore(null);
+    emailDedupService.setStore(null);
+    llmProviderService.setOverride(null);
+    sentimentAnalysisService.setOverride(null);
+  });
+
+  it("runs a queued email through every stage and records the result", async () => {
+    const job = await emailJobQueue.enqueue(USER_ID, EMAIL);
+
+    expect(await emailJobQueue.runOnce()).toBe(1);
+
+    const done = await jobStore.get(job.id);
+    expect(done).toMatchObject({ status: "completed", stage: "route", result: { escalated: true } });
+    expect(done!.checkpoint.classification?.classification).toBe("order_status");
+
+    const [email] = await memStorage.getEmails(USER_ID);
+    expect(email.id).toBe(done!.checkpoint.emailId);
+    expect(email.status).toBe("escalated");
+  });
+
+  it("retries a failed stage with backoff and resumes without redoing completed stages", async () => {
+    const classify = vi.spyOn(autoResponderService, "classifyIncomingEmail");
+    vi.spyOn(autoResponderService, "routeIncomingEmail").mockRejectedValueOnce(new Error("connection reset"));
+
+    const job = await emailJobQueue.enqueue(USER_ID, EMAIL);
+    await emailJobQueue.runOnce();
+
+    const failed = await jobStore.get(job.id);
+    expect(failed).toMatchObject({ status: "queued", stage: "route", attempts: 1, lastError: "connection reset" });
+    expect(failed!.runAt.getTime()).toBeGreaterThan(Date.now());
+    expect(await emailJobQueue.runOnce()).toBe(0);
+
+    await expireBackoff(job.id);
+    await emailJobQueue.runOnce();
+
+    expect((await jobStore.get(job.id))!.status).toBe("completed");
+    expect(classify).toHaveBeenCalledTimes(1);
+    expect(await memStorage.getEmails(USER_ID)).toHaveLength(1);
+  });
+
+  it("dead-letters a job after its stage's retries and re-drives it from that stage", async () => {
+    vi.spyOn(autoResponderService, "classifyIncomingEmail").mockRejectedValue(new Error("LLM unavailable"));
+
+    const job = await emailJobQueue.enqueue(USER_ID, EMAIL);
+    for (let i = 0; i < STAGE_RETRY_POLICIES.classify.maxAttempts; i++) {
+      await expireBackoff(job.id);
+      await emailJobQueue.runOnce();
+    }
+
+    const [dead] = await emailJobQueue.getDeadLetters(USER_ID);
+    expect(dead).toMatchObject({ id: job.id, status: "dead", stage: "classify", lastError: "LLM unavailable" });
+    expect(dead.errors).toHaveLength(STAGE_RETRY_POLICIES.classify.maxAttempts);
+
+    vi.mocked(autoResponderService.classifyIncomingEmail).mockRestore();
+    const [redriven] = await emailJobQueue.redrive([job.id]);
+    expect(redriven).toMatchObject({ status: "queued", stage: "classify", attempts: 0 });
+
+    await emailJobQueue.runOnce();
+    expect((await jobStore.get(job.id))!.status).toBe("completed");
+    expect(await memStorage.getEmails(USER_ID)).toHaveLength(1);
+    expect(await emailJobQueue.getDeadLetters(USER_ID)).toHaveLength(0);
+  });
+
+  it("defers a job during a provider outage without spending its retry budget", async () => {
+    const retryAt = new Date(Date.now() + 30_000);
+    vi.spyOn(autoResponderService, "classifyIncomingEmail")
+      .mockRejectedValueOnce(new CircuitOpenError("llm:openai", retryAt));
+
+    const job = await emailJobQueue.enqueue(USER_ID, EMAIL);
+    await emailJobQueue.runOnce();
+
+    const deferred = await jobStore.get(job.id);
+    expect(deferred).toMatchObject({ status: "queued", stage: "classify", attempts: 0 });
+    expect(deferred!.runAt.getTime()).toBe(retryAt.getTime());
+    expect((await memStorage.getEmails(USER_ID))[0].status).toBe("processing");
+
+    await expireBackoff(job.id);
+    await emailJobQueue.runOnce();
+    expect((await jobStore.get(job.id))!.status).toBe("completed");
+  });
+
+  it("completes a re-delivered email's job with the original result instead of processing it again", async () => {
+    const original = await emailJobQueue.enqueue(USER_ID, EMAIL);
+    await emailJobQueue.runOnce();
+    const route = vi.spyOn(autoResponderService, "routeIncomingEmail");
+
+    const redelivery = await emailJobQueue.enqueue(USER_ID, EMAIL);
+    await emailJobQueue.runOnce();
+
+    const done = await jobStore.get(redelivery.id);
+    expect(done).toMatchObject({ status: "completed", stage: "store", result: { duplicate: true, escalated: true } });
+    expect(done!.result!.id).toBe((await jobStore.get(original.id))!.checkpoint.emailId);
+    expect(route).not.toHaveBeenCalled();
+    expect(await memStorage.getEmails(USER_ID)).toHaveLength(1);
+  });
+
+  it("finishes a stalled email when it is re-delivered instead of answering with a missing result", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      // Inline processing stored it and crashed before classifying
+      const stalled = await autoResponderService.storeIncomingEmail(USER_ID, EMAIL);
+      vi.setSystemTime(Date.now() + STALLED_AFTER_MS + 1);
+
+      const redelivery = await emailJobQueue.enqueue(USER_ID, EMAIL);
+      await emailJobQueue.runOnce();
+
+      expect(await jobStore.get(redelivery.id)).toMatchObject({ status: "completed", stage: "route", checkpoint: { emailId: stalled.id } });
+      expect((await memStorage.getEmail(stalled.id)).status).toBe("escalated");
+      expect(await memStorage.getEmails(USER_ID)).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("limits how many jobs one tenant can have running", async () => {
+    for (let i = 0; i < 3; i++) {
+      await jobStore.enqueue("busy-tenant", { ...EMAIL, messageId: `busy-${i}` });
+    }
+    await jobStore.enqueue("quiet-tenant", EMAIL);
+
+    const claimed = await jobStore.claim({ limit: 10, perTenantLimit: 2, leaseMs: 60_000 });
+
+    expect(claimed.filter(job => job.userId === "busy-tenant")).toHaveLength(2);
+    expect(claimed.filter(job => job.userId === "quiet-tenant")).toHaveLength(1);
+    expect(await jobStore.claim({ limit: 10, perTenantLimit: 2, leaseMs: 60_000 })).toHaveLength(0);
+  });
+
+  it("picks up a crashed worker's job at its last completed stage once the lease expires", async () => {
+    const job = await emailJobQueue.enqueue(USER_ID, EMAIL);
+    const email = await autoResponderService.storeIncomingEmail(USER_ID, EMAIL);
+    // Worker stored the email, checkpointed, then died mid-classification
+    const [claimed] = await jobStore.claim({ limit: 1, perTenantLimit: 1, leaseMs: 60_000 });
+    await jobStore.update(claimed.id, { stage: "classify", checkpoint: { emailId: email.id }, lockedUntil: new Date(Date.now() - 1) });
+
+    await emailJobQueue.runOnce();
+
+    expect((await jobStore.get(job.id))!.status).toBe("completed");
+    expect(await memStorage.getEmails(USER_ID)).toHaveLength(1);
+    expect((await memStorage.getEmail(email.id)).status).toBe("escalated");
+  });
+
+  it("renews the lease while a slow stage runs so no other worker picks the job up", async () => {
+    sentimentAnalysisService.setOverride(async () => {
+      await new Promise(resolve => setTimeout(resolve, 150));
+      return { sentiment: "NEUTRAL", confidence: 90, scores: { positive: 5, negative: 5, neutral: 90, mixed: 0 } };
+    });
+    const job = await emailJobQueue.enqueue(USER_ID, EMAIL);
+
+    const run = emailJobQueue.runOnce({ leaseMs: 60 });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(await jobStore.claim({ limit: 1, perTenantLimit: 1, leaseMs: 60 })).toHaveLength(0);
+
+    await run;
+    expect((await jobStore.get(job.id))!.status).toBe("completed");
+  });
+
+  it("refuses updates from a worker whose lease was reclaimed", async () => {
+    await jobStore.enqueue(USER_ID, EMAIL);
+    const [stale] = await jobStore.claim({ limit: 1, perTenantLimit: 1, leaseMs: 60_000 });
+    await jobStore.update(stale.id, { lockedUntil: new Date(Date.now() - 1) });
+    const [reclaimed] = await jobStore.claim({ limit: 1, perTenantLimit: 1, leaseMs: 60_000 });
+
+    expect(reclaimed.leaseToken).not.toBe(stale.leaseToken);
+    expect(await jobStore.update(stale.id, { status: "completed" }, stale.leaseToken)).toBeUndefined();
+    expect(await jobStore.update(reclaimed.id, { stage: "classify" }, reclaimed.leaseToken)).toMatchObject({ status: "running", stage: "classify" });
+  });
+
+  it("queues emails stuck in processing that have no job", async () => {
+    const stuck = await memStorage.createEmail({ ...EMAIL, userId: USER_ID, status: "processing", createdAt: new Date(Date.now() - 60 * 60_000) });
+
+    const [recovered] = await emailJobQueue.recoverStuckEmails(USER_ID);
+    expect(recovered).toMatchObject({ stage: "classify", checkpoint: { emailId: stuck.id } });
+    expect(await emailJobQueue.recoverStuckEmails(USER_ID)).toHaveLength(0);
+
+    await emailJobQueue.runOnce();
+    expect((await memStorage.getEmail(stuck.id)).status).toBe("escalated");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { factualConsistencyChecker } from "../services/factual-consistency-checker";
+
+describe("factual consistency checker", () => {
+  it("lets a draft echo the customer's order and tracking numbers but not their amounts", () => {
+    const result = factualConsistencyChecker.checkDraft(
+      "We're looking into order #4417 and tracking number 1Z999AA10123456784. Your refund of $80 (20% off) is on its way.",
+      { customerEmail: "Order #4417 hasn't moved - tracking 1Z999AA1 0123 4567 84. I was promised $80 back, 20% off." }
+    );
+
+    expect(result.claims.filter(c => c.supported).map(c => [c.type, c.source])).toEqual([
+      ["order_number", "customer_email"],
+      ["tracking_number", "customer_email"]
+    ]);
+    expect(result.unsupported.map(c => c.type)).toEqual(["money", "percentage"]);
+    expect(result.verdict).toBe("block");
+  });
+
+  it("matches whole identifiers only", () => {
+    const evidence = { responseContext: { orderData: { orderNumber: "#1234", trackingNumber: "TRK12345678901" } } };
+
+    expect(factualConsistencyChecker.checkDraft("Order #1234 shipped with TRK12345678901.", evidence).verdict).toBe("pass");
+
+    const partial = factualConsistencyChecker.checkDraft("Order #123 shipped with TRK1234567890.", evidence);
+    expect(partial.unsupported.map(c => c.text)).toEqual(["Order #123", "TRK1234567890"]);
+    expect(partial.verdict).toBe("block");
+  });
+
+  it("still backs amounts and policy terms with order data and knowledge", () => {
+    const result = factualConsistencyChecker.checkDraft(
+      "Your $49.99 refund is covered by our free returns policy.",
+      {
+        responseContext: { orderData: { total: 49.99 } },
+        chunks: [{ chunkId: "returns-1", url: "https://shop.example/returns", content: "We offer free returns on all orders.", signals: ["vector"], fusedScore: 0.03 }]
+      }
+    );
+
+    expect(result.claims.map(c => [c.type, c.source])).toEqual([
+      ["money", "orderData"],
+      ["policy", "chunk:returns-1"]
+    ]);
+    expect(result.verdict).toBe("pass");
+  });
+});
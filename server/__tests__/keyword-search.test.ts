@@ -0,0 +1,115 @@
+import "./pipeline-mocks";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { keywordSearchService } from "../services/keyword-search";
+import { hallucinationPreventionService } from "../services/hallucination-prevention";
+import { properVectorService } from "../services/vector-embeddings-proper";
+import type { KnowledgeChunk } from "../services/knowledge-chunk-index";
+
+function chunk(id: string, content: string, headingPath: string[] = []): KnowledgeChunk {
+  return {
+    id,
+    userId: "user-1",
+    sourceId: `source-${id}`,
+    sourceType: "website",
+    sourceUrl: `https://shop.example/${id}`,
+    sourceHash: "hash",
+    chunkIndex: 0,
+    headingPath,
+    tokenCount: content.split(/\s+/).length,
+    startOffset: 0,
+    endOffset: content.length,
+    contentHash: `hash-${id}`,
+    content,
+    embedding: [],
+    embeddingModel: "test",
+    chunkerVersion: 1
+  } as KnowledgeChunk;
+}
+
+afterEach(() => {
+  keywordSearchService.clearCache();
+  vi.restoreAllMocks();
+});
+
+describe("keyword search", () => {
+  it("scores with BM25: rarer terms weigh more and repeated terms saturate", () => {
+    const chunks = [
+      chunk("a", "refund refund refund refund"),
+      chunk("b", "refund warranty"),
+      chunk("c", "shipping times"),
+      chunk("d", "shipping costs")
+    ];
+
+    const results = keywordSearchService.search("user-1", chunks, "refund warranty");
+    expect(results.map(r => r.chunk.id)).toEqual(["b", "a"]);
+
+    // n = 4, avg length = 2.5, k1 = 1.2, b = 0.75
+    const idf = (df: number) => Math.log(1 + (4 - df + 0.5) / (df + 0.5));
+    const termScore = (freq: number, length: number) =>
+      (freq * 2.2) / (freq + 1.2 * (0.25 + 0.75 * (length / 2.5)));
+    expect(results[0].score).toBeCloseTo(idf(2) * termScore(1, 2) + idf(1) * termScore(1, 2), 10);
+    expect(results[1].score).toBeCloseTo(idf(2) * termScore(4, 4), 10);
+    expect(results[0].matchedTerms).toEqual(["refund", "warranty"]);
+  });
+
+  it("keeps compound tokens whole and also matches their parts", () => {
+    const chunks = [
+      chunk("sku", "Replacement filter SKU-123 fits every model"),
+      chunk("promo", "Use code SAVE20 or return_policy.v2 at checkout"),
+      chunk("other", "Filters ship within two days")
+    ];
+
+    expect(keywordSearchService.search("user-1", chunks, "sku-123")[0].matchedTerms).toEqual(["sku-123", "sku", "123"]);
+    expect(keywordSearchService.search("user-1", chunks, "Is 123 in stock?").map(r => r.chunk.id)).toEqual(["sku"]);
+    expect(keywordSearchService.search("user-1", chunks, "save20").map(r => r.chunk.id)).toEqual(["promo"]);
+    expect(keywordSearchService.search("user-1", chunks, "policy").map(r => r.chunk.id)).toEqual(["promo"]);
+  });
+
+  it("ignores stopwords and matches section headings", () => {
+    const chunks = [
+      chunk("returns", "Send it back within 30 days", ["Returns Policy"]),
+      chunk("shipping", "We ship worldwide", ["Shipping"])
+    ];
+
+    expect(keywordSearchService.search("user-1", chunks, "what is the")).toEqual([]);
+    expect(keywordSearchService.search("user-1", chunks, "returns policy").map(r => r.chunk.id)).toEqual(["returns"]);
+  });
+
+  it("rebuilds the tenant index when its chunks change", () => {
+    expect(keywordSearchService.search("user-1", [chunk("a", "gift cards")], "gift")).toHaveLength(1);
+    expect(keywordSearchService.search("user-1", [chunk("b", "store credit")], "gift")).toEqual([]);
+  });
+});
+
+describe("hybrid retrieval", () => {
+  it("fuses vector and keyword rankings with reciprocal rank fusion", async () => {
+    const chunks = [
+      chunk("policy", "Refunds are issued within 5 business days", ["Refund Policy"]),
+      chunk("promo", "Code SAVE20 takes 20% off full-price items"),
+      chunk("faq", "Contact us about your refund or order status")
+    ];
+    vi.spyOn(properVectorService, "loadSearchableContent").mockResolvedValue({
+      sources: [{ url: "https://shop.example" }],
+      chunks
+    } as any);
+    vi.spyOn(properVectorService, "semanticSearch").mockResolvedValue({
+      results: [
+        { chunkId: "faq", url: chunks[2].sourceUrl, headingPath: [], content: chunks[2].content, similarity: 0.81, startOffset: 0, endOffset: 1 },
+        { chunkId: "policy", url: chunks[0].sourceUrl, headingPath: ["Refund Policy"], content: chunks[0].content, similarity: 0.76, startOffset: 0, endOffset: 1 }
+      ],
+      threshold: 0.7,
+      totalSources: 1
+    } as any);
+
+    const knowledge = await hallucinationPreventionService.getRelevantKnowledge("user-1", "refund with SAVE20");
+
+    // Keyword ranks: promo (SAVE20 is the rarer term), faq, policy; vector ranks: faq, policy
+    const rrf = (...ranks: number[]) => Math.round(ranks.reduce((sum, rank) => sum + 1 / (60 + rank + 1), 0) * 10000) / 10000;
+    expect(knowledge.method).toBe("hybrid");
+    expect(knowledge.chunks.map(c => c.chunkId)).toEqual(["faq", "policy", "promo"]);
+    expect(knowledge.chunks[0]).toMatchObject({ signals: ["vector", "keyword"], fusedScore: rrf(0, 1), similarity: 0.81 });
+    expect(knowledge.chunks[1]).toMatchObject({ signals: ["vector", "keyword"], fusedScore: rrf(1, 2), similarity: 0.76 });
+    expect(knowledge.chunks[2]).toMatchObject({ signals: ["keyword"], fusedScore: rrf(0), matchedTerms: ["save20"] });
+    expect(knowledge.relevantContent).toEqual(knowledge.chunks.map(c => c.content));
+  });
+});
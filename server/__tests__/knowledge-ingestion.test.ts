@@ -0,0 +1,74 @@
+import "./pipeline-mocks";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { storage } from "../storage";
+import { knowledgeIngestionService } from "../services/knowledge-ingestion";
+import { knowledgeChunkIndex } from "../services/knowledge-chunk-index";
+import { contentChunker } from "../services/content-chunker";
+
+async function ingestCsv(csv: string) {
+  const result = await knowledgeIngestionService.ingestDocument("user-1", { filename: "faq.csv", data: Buffer.from(csv, "utf-8") });
+  const document = result.documentId ? await storage.getKnowledgeDocument(result.documentId) : undefined;
+  return { result, content: document?.content as string | undefined };
+}
+
+beforeEach(() => {
+  // Indexing embeds chunks - only the extracted content is under test here
+  vi.spyOn(knowledgeChunkIndex, "indexDocument").mockResolvedValue(3);
+});
+
+describe("CSV knowledge ingestion", () => {
+  it("turns FAQ rows into Q/A pairs grouped by category", async () => {
+    const { result, content } = await ingestCsv([
+      "\uFEFFCategory,Question,Answer",
+      "Shipping,Do you ship abroad?,Yes - to 40 countries.",
+      "Returns,Can I return sale items?,Within 14 days.",
+      "Shipping,How long does delivery take?,3-5 business days."
+    ].join("\r\n"));
+
+    expect(result).toMatchObject({ success: true, format: "csv", chunkCount: 3 });
+    expect(content).toBe([
+      "# Shipping",
+      "Q: Do you ship abroad?\nA: Yes - to 40 countries.",
+      "Q: How long does delivery take?\nA: 3-5 business days.",
+      "# Returns",
+      "Q: Can I return sale items?\nA: Within 14 days."
+    ].join("\n\n"));
+  });
+
+  it("handles quoted fields with commas, escaped quotes and embedded newlines", async () => {
+    const { content } = await ingestCsv([
+      "faq,response",
+      '"Do you price match, and how?","Yes. Email us the ""lower"" price',
+      'and we\'ll match it."',
+      ",Answer without a question",
+      ""
+    ].join("\n"));
+
+    expect(content).toBe([
+      "# FAQ",
+      "Q: Do you price match, and how?\nA: Yes. Email us the \"lower\" price and we'll match it."
+    ].join("\n\n"));
+  });
+
+  it("reads headerless two-column exports as question, answer", async () => {
+    const { content } = await ingestCsv("Is gift wrap free?,Yes\nDo gift cards expire?,Never\n");
+
+    expect(content).toBe("# FAQ\n\nQ: Is gift wrap free?\nA: Yes\n\nQ: Do gift cards expire?\nA: Never");
+  });
+
+  it("keeps each question with its answer when chunked", async () => {
+    const { content } = await ingestCsv("question,answer\nCan I change my order?,Until it ships.\nDo you ship to PO boxes?,Only with standard shipping.");
+
+    const chunks = contentChunker.chunk(content!, { contentType: "markdown", maxTokens: 20, overlapTokens: 0 });
+    expect(chunks.map(c => c.text)).toEqual([
+      "Q: Can I change my order?\nA: Until it ships.",
+      "Q: Do you ship to PO boxes?\nA: Only with standard shipping."
+    ]);
+  });
+
+  it("rejects a CSV without any Q/A rows", async () => {
+    const { result } = await ingestCsv("question,answer\nWhere is my order?,\n");
+
+    expect(result).toMatchObject({ success: false, chunkCount: 0, error: "No question/answer rows found in CSV" });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { mimeParser } from "../services/mime-parser";
+
+const crlf = (lines: string[]) => lines.join("\r\n");
+
+describe("mime parser", () => {
+  it("prefers text/plain in multipart/alternative and keeps the HTML, display name and thread references", () => {
+    const parsed = mimeParser.parse(crlf([
+      'From: "Doe, Jane" <Jane.Doe@Customer-Mail.com>',
+      "To: Support <support@shop.com>, billing@shop.com",
+      "Subject: =?UTF-8?Q?Wo_ist_meine_Bestellung=3F?=",
+      "Message-ID: <abc123@customer-mail.com>",
+      "In-Reply-To: <reply-1@shop.com>",
+      "References: <root@shop.com>",
+      "  <reply-1@shop.com>",
+      "MIME-Version: 1.0",
+      'Content-Type: multipart/alternative; boundary="alt"',
+      "",
+      "preamble",
+      "--alt",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Hallo, meine Bestellung #1234 ist noch nicht angekommen. Gr=C3=BC=C3=9Fe, =",
+      "Jane",
+      "--alt",
+      "Content-Type: text/html; charset=utf-8",
+      "",
+      "<p>Hallo, meine Bestellung <b>#1234</b> ist noch nicht angekommen.</p>",
+      "--alt--"
+    ]));
+
+    expect(parsed.from).toEqual({ name: "Doe, Jane", address: "jane.doe@customer-mail.com" });
+    expect(parsed.to.map(a => a.address)).toEqual(["support@shop.com", "billing@shop.com"]);
+    expect(parsed.subject).toBe("Wo ist meine Bestellung?");
+    expect(parsed.text).toBe("Hallo, meine Bestellung #1234 ist noch nicht angekommen. Grüße, Jane");
+    expect(parsed.html).toContain("<b>#1234</b>");
+    expect(parsed).toMatchObject({
+      messageId: "abc123@customer-mail.com",
+      inReplyTo: "reply-1@shop.com",
+      references: ["root@shop.com", "reply-1@shop.com"],
+      autoSubmitted: undefined
+    });
+  });
+
+  it("derives the text body from HTML-only mail in a non-UTF-8 charset", () => {
+    // Encoded as latin1 bytes, so "ê" must come through the declared charset
+    const parsed = mimeParser.parse(Buffer.from(crlf([
+      "From: marie@example.fr",
+      "To: support@shop.com",
+      "Subject: Remboursement",
+      "Content-Type: text/html; charset=iso-8859-1",
+      "",
+      "<html><head><style>p { color: red }</style></head><body><p>Bonjour,</p><p>Je voudrais être rembours&#233;e&nbsp;&amp; merci<br>Marie</p></body></html>"
+    ]), "latin1"));
+
+    expect(parsed.html).toBeDefined();
+    expect(parsed.text).toBe("Bonjour,\nJe voudrais être remboursée & merci\nMarie");
+  });
+
+  it("separates attachments, including RFC 2231 and encoded-word filenames, from the body", () => {
+    const pdf = Buffer.from("%PDF-1.4 receipt").toString("base64");
+    const parsed = mimeParser.parse(crlf([
+      "From: sam@customer-mail.com",
+      "To: support@shop.com",
+      "Subject: Damaged item",
+      'Content-Type: multipart/mixed; boundary="mix"',
+      "",
+      "--mix",
+      'Content-Type: multipart/alternative; boundary="alt"',
+      "",
+      "--alt",
+      "Content-Type: text/plain",
+      "",
+      "The jar arrived broken, photo and receipt attached.",
+      "--alt--",
+      "--mix",
+      "Content-Type: image/jpeg",
+      'Content-Disposition: attachment; filename="=?UTF-8?B?cGhvdG8tw6kuanBn?="',
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from([0xff, 0xd8, 0xff]).toString("base64"),
+      "--mix",
+      "Content-Type: application/pdf",
+      "Content-Disposition: attachment; filename*=utf-8''re%C3%A7u.pdf",
+      "Content-Transfer-Encoding: base64",
+      "",
+      pdf,
+      "--mix--"
+    ]));
+
+    expect(parsed.text).toBe("The jar arrived broken, photo and receipt attached.");
+    expect(parsed.attachments.map(({ filename, contentType, size, inline }) => ({ filename, contentType, size, inline }))).toEqual([
+      { filename: "photo-é.jpg", contentType: "image/jpeg", size: 3, inline: false },
+      { filename: "reçu.pdf", contentType: "application/pdf", size: 16, inline: false }
+    ]);
+    expect(mimeParser.toIncomingEmail(parsed).attachments).toEqual([
+      { filename: "photo-é.jpg", contentType: "image/jpeg", size: 3 },
+      { filename: "reçu.pdf", contentType: "application/pdf", size: 16 }
+    ]);
+  });
+
+  it("flags machine-generated mail", () => {
+    const withHeader = (extra: string) => mimeParser.parse(crlf(["From: jordan@customer-mail.com", "To: support@shop.com", extra, "", "Out of office"]));
+
+    expect(withHeader("Auto-Submitted: auto-replied").autoSubmitted).toBe("auto-replied");
+    expect(withHeader("Auto-Submitted: no").autoSubmitted).toBeUndefined();
+    expect(withHeader("X-Autoreply: yes").autoSubmitted).toBe("auto-replied");
+    expect(withHeader("Precedence: bulk").autoSubmitted).toBe("precedence-bulk");
+    expect(mimeParser.parse(crlf(["From: MAILER-DAEMON@mx.shop.com", "To: support@shop.com", "", "Undeliverable"])).autoSubmitted).toBe("delivery-status");
+  });
+});
@@ -0,0 +1,46 @@
+import { vi } from "vitest";
+
+/**
+ * Module mocks shared by the pipeline tests. Import this before anything under ../services:
+ * vi.mock calls here are hoisted within this module, so they're registered before the
+ * importing test file loads the services they replace.
+ */
+
+// Every storage call in the pipeline goes to one in-memory store
+vi.mock("../storage", async () => {
+  const { MemStorage } = await import("../storage-memory");
+  return { storage: new MemStorage() };
+});
+
+// Fake mail provider: records what would have been sent
+vi.mock("../services/email-routing", () => ({
+  emailRoutingService: { sendEmail: vi.fn().mockResolvedValue(true) }
+}));
+
+// Integrations the pipeline touches that need a network or database of their own
+vi.mock("../services/thread-context", () => ({
+  ThreadContextService: {
+    linkEmailToThread: vi.fn().mockResolvedValue(undefined),
+    getThreadContext: vi.fn().mockResolvedValue(null)
+  }
+}));
+vi.mock("../services/order-lookup", () => ({
+  orderLookupService: {
+    lookupOrder: vi.fn().mockResolvedValue({ success: false }),
+    isRepeatCustomer: vi.fn().mockResolvedValue(false)
+  }
+}));
+vi.mock("../services/ai-agent-signature", () => ({
+  aiAgentSignatureService: { generateAIAgentSignature: vi.fn().mockResolvedValue("Alex\nCustomer Care Team") }
+}));
+vi.mock("../services/content-safety", () => ({
+  contentSafetyService: { validateResponse: vi.fn().mockResolvedValue({ approved: true }) }
+}));
+vi.mock("../services/vector-embeddings", () => ({
+  vectorEmbeddingsService: {
+    getEnhancedRelevantKnowledge: vi.fn().mockResolvedValue({ relevantContent: [], sources: [], totalSources: 0, hasTrainingData: false, method: "none" })
+  }
+}));
+vi.mock("../services/promo-refund", () => ({
+  promoRefundService: { processPromoRefund: vi.fn().mockResolvedValue(false) }
+}));
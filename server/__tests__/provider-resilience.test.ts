@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  providerResilience,
+  CircuitOpenError,
+  ProviderUnavailableError,
+  ProviderOutcomeUnknownError,
+  RESILIENCE_POLICIES
+} from "../services/provider-resilience";
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+describe("provider resilience", () => {
+  beforeEach(() => {
+    providerResilience.reset();
+    // Zero jitter: retries run back to back
+    vi.spyOn(Math, "random").mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("retries a rate-limited call and returns the eventual result", async () => {
+    const call = vi.fn()
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "0" }))
+      .mockResolvedValueOnce("ok");
+
+    await expect(providerResilience.execute("llm:test", "llm", call)).resolves.toBe("ok");
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(providerResilience.getHealth()[0]).toMatchObject({ state: "closed", retries: 1, consecutiveFailures: 0 });
+  });
+
+  it("rethrows client errors untouched without counting them against the breaker", async () => {
+    const call = vi.fn().mockRejectedValue(httpError(400));
+
+    await expect(providerResilience.execute("llm:test", "llm", call)).rejects.toThrow("HTTP 400");
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(providerResilience.getHealth()[0]).toMatchObject({ state: "closed", failures: 0 });
+  });
+
+  it("opens the breaker after repeated outages and closes it again on a successful probe", async () => {
+    const policy = RESILIENCE_POLICIES.comprehend;
+    const failing = vi.fn().mockRejectedValue(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }));
+
+    const error = await providerResilience.execute("comprehend", "comprehend", failing).catch(e => e);
+    expect(error).toBeInstanceOf(ProviderUnavailableError);
+    await providerResilience.execute("comprehend", "comprehend", failing).catch(() => undefined);
+
+    expect(failing.mock.calls.length).toBeGreaterThanOrEqual(policy.failureThreshold);
+    expect(providerResilience.getHealthReport()).toMatchObject({
+      status: "degraded",
+      providers: [{ provider: "comprehend", state: "open" }]
+    });
+
+    // Open: refused without calling the provider
+    const healthy = vi.fn().mockResolvedValue("ok");
+    await expect(providerResilience.execute("comprehend", "comprehend", healthy)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(healthy).not.toHaveBeenCalled();
+
+    // Cooldown over: one probe goes through and closes the breaker
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + policy.cooldownMs + 1);
+    await expect(providerResilience.execute("comprehend", "comprehend", healthy)).resolves.toBe("ok");
+    expect(providerResilience.getHealthReport().status).toBe("ok");
+  });
+
+  it("neither retries nor defers a timed-out send, since it may have gone out", async () => {
+    const timeoutMs = RESILIENCE_POLICIES.email.timeoutMs;
+    RESILIENCE_POLICIES.email.timeoutMs = 20;
+    const hanging = vi.fn(() => new Promise(() => {}));
+
+    try {
+      const error = await providerResilience.execute("email:tenant-a", "email", hanging).catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderOutcomeUnknownError);
+      expect(error).not.toBeInstanceOf(ProviderUnavailableError);
+      expect(hanging).toHaveBeenCalledTimes(1);
+      expect(providerResilience.getHealth()[0]).toMatchObject({ timeouts: 1, retries: 0 });
+    } finally {
+      RESILIENCE_POLICIES.email.timeoutMs = timeoutMs;
+    }
+  });
+
+  it("treats a send that failed after reaching the provider as outcome unknown, and retries only undelivered ones", async () => {
+    const ambiguous = [httpError(500), httpError(502), httpError(504), Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })];
+    for (const [i, failure] of ambiguous.entries()) {
+      const call = vi.fn().mockRejectedValue(failure);
+
+      const error = await providerResilience.execute(`email:ambiguous-${i}`, "email", call).catch(e => e);
+
+      expect(error).toBeInstanceOf(ProviderOutcomeUnknownError);
+      expect(call).toHaveBeenCalledTimes(1);
+    }
+
+    const undelivered = [httpError(429, { "retry-after": "0" }), Object.assign(new Error("connect refused"), { code: "ECONNREFUSED" })];
+    for (const [i, failure] of undelivered.entries()) {
+      const call = vi.fn().mockRejectedValueOnce(failure).mockResolvedValueOnce(true);
+
+      await expect(providerResilience.execute(`email:undelivered-${i}`, "email", call)).resolves.toBe(true);
+      expect(call).toHaveBeenCalledTimes(2);
+    }
+
+    // Other kinds still retry ambiguous failures
+    const llm = vi.fn().mockRejectedValueOnce(httpError(502)).mockResolvedValueOnce("ok");
+    await expect(providerResilience.execute("llm:test", "llm", llm)).resolves.toBe("ok");
+  });
+
+  it("keeps breakers separate per provider key", async () => {
+    const failing = vi.fn().mockRejectedValue(httpError(503));
+    for (let i = 0; i < RESILIENCE_POLICIES.email.failureThreshold; i++) {
+      await providerResilience.execute("email:tenant-a", "email", failing).catch(() => undefined);
+    }
+
+    expect(providerResilience.isAvailable("email:tenant-a")).toBe(false);
+    expect(providerResilience.isAvailable("email:tenant-b")).toBe(true);
+    await expect(providerResilience.execute("email:tenant-b", "email", async () => true)).resolves.toBe(true);
+  });
+});
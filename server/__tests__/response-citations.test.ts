@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { responseCitationService } from "../services/response-citations";
+import type { RetrievedChunk } from "../services/hallucination-prevention";
+
+const chunks: RetrievedChunk[] = [
+  { chunkId: "returns-1", url: "https://shop.example/returns", headingPath: ["Returns"], content: "Returns are accepted within 30 days.", signals: ["vector"], fusedScore: 0.03 },
+  { chunkId: "shipping-1", url: "https://shop.example/shipping", headingPath: ["Shipping"], content: "Refunds go out in 5 days.", signals: ["keyword"], fusedScore: 0.02 }
+];
+
+describe("response citations", () => {
+  it("maps each cited sentence to its chunks and strips the markers", () => {
+    const { text, citations } = responseCitationService.extractCitations(
+      "Hi Jane, sorry for the trouble! Returns are accepted within 30 days [1]. Your refund goes out within 5 days [1, 2].\nThanks",
+      chunks
+    );
+
+    expect(text).toBe("Hi Jane, sorry for the trouble! Returns are accepted within 30 days. Your refund goes out within 5 days.\nThanks");
+    expect(citations).toEqual([
+      { marker: 1, chunkId: "returns-1", url: "https://shop.example/returns", headingPath: ["Returns"], claim: "Returns are accepted within 30 days." },
+      { marker: 1, chunkId: "returns-1", url: "https://shop.example/returns", headingPath: ["Returns"], claim: "Your refund goes out within 5 days." },
+      { marker: 2, chunkId: "shipping-1", url: "https://shop.example/shipping", headingPath: ["Shipping"], claim: "Your refund goes out within 5 days." }
+    ]);
+  });
+
+  it("leaves brackets that don't point at a provided source", () => {
+    const { text, citations } = responseCitationService.extractCitations("Your order [12345] shipped today [2].", chunks);
+
+    expect(text).toBe("Your order [12345] shipped today.");
+    expect(citations.map(c => c.marker)).toEqual([2]);
+  });
+
+  it("only closes up spacing where a marker was removed", () => {
+    const { text } = responseCitationService.extractCitations(
+      "Exchanges are free [1] , and so is return shipping [2] . Questions ? Reply anytime : we're here .",
+      chunks
+    );
+
+    expect(text).toBe("Exchanges are free, and so is return shipping. Questions ? Reply anytime : we're here .");
+  });
+
+  it("returns drafts without markers unchanged", () => {
+    const draft = "Thanks for reaching out !  We'll look into it.";
+
+    expect(responseCitationService.extractCitations(draft, chunks)).toEqual({ text: draft, citations: [] });
+    expect(responseCitationService.extractCitations("", chunks)).toEqual({ text: "", citations: [] });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from "vitest";
+import { ruleEngine, type RuleCondition, type RuleEvaluationContext } from "../services/rule-engine";
+
+let nextId = 1;
+function rule(name: string, classification: string, options: { conditions?: RuleCondition[]; precedence?: number; isActive?: boolean; stopProcessing?: boolean } = {}) {
+  return { id: `rule-${nextId++}`, name, classification, isActive: true, ...options };
+}
+
+const CONTEXT: RuleEvaluationContext = {
+  classification: "order_status",
+  confidence: 90,
+  priority: "high",
+  fromEmail: "jordan@mail.customer.com",
+  subject: "Where is my order?",
+  body: "My order hasn't shipped yet. Please send the tracking link.",
+  sentiment: { sentiment: "NEGATIVE", scores: { negative: 80 } },
+  // Wednesday 23:30 UTC
+  now: new Date("2026-10-14T23:30:00Z")
+};
+
+async function passes(condition: RuleCondition, context: Partial<RuleEvaluationContext> = {}) {
+  const result = await ruleEngine.evaluate([rule("Rule", "order_status", { conditions: [condition] })], { ...CONTEXT, ...context });
+  return result.trace[0].matched;
+}
+
+describe("rule engine", () => {
+  describe("conditions", () => {
+    it("sender: domain (including subdomains), pattern and negation", async () => {
+      expect(await passes({ type: "sender", domains: ["customer.com"] })).toBe(true);
+      expect(await passes({ type: "sender", domains: ["@other.com"] })).toBe(false);
+      expect(await passes({ type: "sender", pattern: "^jordan@" })).toBe(true);
+      expect(await passes({ type: "sender", domains: ["customer.com"], negate: true })).toBe(false);
+      expect(await passes({ type: "sender", pattern: "(" })).toBe(false);
+    });
+
+    it("keywords: any, all and none, case-insensitive across subject and body", async () => {
+      expect(await passes({ type: "keywords", any: ["refund", "TRACKING"] })).toBe(true);
+      expect(await passes({ type: "keywords", any: ["refund"] })).toBe(false);
+      expect(await passes({ type: "keywords", all: ["where is", "shipped"] })).toBe(true);
+      expect(await passes({ type: "keywords", all: ["where is", "cancel"] })).toBe(false);
+      expect(await passes({ type: "keywords", none: ["lawyer"] })).toBe(true);
+      expect(await passes({ type: "keywords", none: ["tracking"] })).toBe(false);
+    });
+
+    it("priority, defaulting to medium", async () => {
+      expect(await passes({ type: "priority", in: ["high", "urgent"] })).toBe(true);
+      expect(await passes({ type: "priority", in: ["high"] }, { priority: undefined })).toBe(false);
+      expect(await passes({ type: "priority", in: ["medium"] }, { priority: undefined })).toBe(true);
+    });
+
+    it("sentiment bands, with very_negative above a negative score of 75", async () => {
+      expect(await passes({ type: "sentiment", bands: ["very_negative"] })).toBe(true);
+      expect(await passes({ type: "sentiment", bands: ["negative"] })).toBe(true);
+      expect(await passes({ type: "sentiment", bands: ["very_negative"] }, { sentiment: { sentiment: "NEGATIVE", scores: { negative: 60 } } })).toBe(false);
+      expect(await passes({ type: "sentiment", bands: ["neutral"] }, { sentiment: undefined })).toBe(false);
+    });
+
+    it("confidence range, inclusive", async () => {
+      expect(await passes({ type: "confidence", min: 90 })).toBe(true);
+      expect(await passes({ type: "confidence", min: 60, max: 89 })).toBe(false);
+    });
+
+    it("order value, loaded only when a rule asks and at most once", async () => {
+      const loadOrderValue = vi.fn().mockResolvedValue(120);
+      const rules = [
+        rule("Big orders", "order_status", { conditions: [{ type: "order_value", min: 500 }] }),
+        rule("Mid orders", "order_status", { conditions: [{ type: "order_value", min: 100, max: 499.99 }] })
+      ];
+
+      const result = await ruleEngine.evaluate(rules, { ...CONTEXT, loadOrderValue });
+
+      expect(result.rule.name).toBe("Mid orders");
+      expect(loadOrderValue).toHaveBeenCalledTimes(1);
+      expect(await passes({ type: "order_value", max: 1000 }, { loadOrderValue: async () => undefined })).toBe(false);
+      expect(await passes({ type: "order_value", max: 1000 }, { loadOrderValue: async () => { throw new Error("store down"); } })).toBe(false);
+    });
+
+    it("customer tier", async () => {
+      expect(await passes({ type: "customer_tier", in: ["repeat", "vip"] }, { loadCustomerTier: async () => "vip" })).toBe(true);
+      expect(await passes({ type: "customer_tier", in: ["new"] }, { loadCustomerTier: async () => "vip" })).toBe(false);
+      expect(await passes({ type: "customer_tier", in: ["new"] })).toBe(false);
+    });
+
+    it("time of day in the rule's or tenant's timezone, wrapping past midnight, on given days", async () => {
+      expect(await passes({ type: "time_of_day", start: "22:00", end: "06:00" })).toBe(true);
+      expect(await passes({ type: "time_of_day", start: "09:00", end: "17:00" })).toBe(false);
+      // 19:30 in New York
+      expect(await passes({ type: "time_of_day", start: "09:00", end: "20:00", timezone: "America/New_York" })).toBe(true);
+      expect(await passes({ type: "time_of_day", start: "09:00", end: "20:00" }, { timezone: "America/New_York" })).toBe(true);
+      expect(await passes({ type: "time_of_day", start: "22:00", end: "06:00", days: [0, 6] })).toBe(false);
+    });
+
+    it("stops at the first failing condition and rejects invalid conditions", async () => {
+      const loadCustomerTier = vi.fn().mockResolvedValue("vip");
+      const result = await ruleEngine.evaluate([
+        rule("Rule", "order_status", { conditions: [{ type: "priority", in: ["low"] }, { type: "customer_tier", in: ["vip"] }] })
+      ], { ...CONTEXT, loadCustomerTier });
+
+      expect(result.trace[0].conditions.map(c => c.type)).toEqual(["priority"]);
+      expect(loadCustomerTier).not.toHaveBeenCalled();
+      expect(ruleEngine.validateConditions([{ type: "time_of_day", start: "9am", end: "17:00" }])).toEqual({
+        valid: false,
+        errors: ["0.start: Times must be HH:MM (24h)"]
+      });
+    });
+  });
+
+  describe("selection", () => {
+    it("applies the first match by precedence, then list order, skipping inactive rules", async () => {
+      const rules = [
+        rule("Default", "order_status"),
+        rule("Urgent", "order_status", { precedence: 10, conditions: [{ type: "priority", in: ["urgent"] }] }),
+        rule("Paused", "order_status", { precedence: 5, isActive: false }),
+        rule("High", "order_status", { precedence: 20, conditions: [{ type: "priority", in: ["high"] }] }),
+        rule("Also high", "order_status", { precedence: 20, conditions: [{ type: "priority", in: ["high"] }] }),
+        rule("Refunds", "refund", { precedence: 1 })
+      ];
+
+      const result = await ruleEngine.evaluate(rules, CONTEXT);
+
+      expect(result.rule.name).toBe("High");
+      expect(result.trace.map(t => [t.ruleName, t.matched])).toEqual([
+        ["Refunds", false], ["Paused", false], ["Urgent", false], ["High", true], ["Also high", false], ["Default", false]
+      ]);
+      expect(result.explanation).toBe([
+        'Selected rule "High"',
+        'SKIP  "Refunds" (precedence 1): Classification order_status does not match rule classification refund',
+        'SKIP  "Paused" (precedence 5): Rule is inactive',
+        'SKIP  "Urgent" (precedence 10): priority condition failed: priority high',
+        'MATCH "High" (precedence 20): priority high',
+        'SKIP  "Also high" (precedence 20): Not evaluated - "High" already matched',
+        'SKIP  "Default" (precedence 100): Not evaluated - "High" already matched'
+      ].join("\n"));
+    });
+
+    it("falls back to a general rule only for low-confidence classifications", async () => {
+      const rules = [
+        rule("Order status", "order_status", { conditions: [{ type: "priority", in: ["urgent"] }] }),
+        rule("General", "general")
+      ];
+
+      const confident = await ruleEngine.evaluate(rules, CONTEXT);
+      expect(confident.rule).toBeNull();
+      expect(confident.explanation.split("\n")[0]).toBe("No rule matched");
+
+      const unsure = await ruleEngine.evaluate(rules, { ...CONTEXT, confidence: 65 });
+      expect(unsure.rule.name).toBe("General");
+      expect(unsure.usedGeneralFallback).toBe(true);
+      expect(unsure.explanation.split("\n").pop()).toBe('MATCH "General" (precedence 100): general fallback (confidence 65% < 70%)');
+    });
+
+    it("reports a matching rule that stops processing", async () => {
+      const rules = [
+        rule("Legal", "order_status", { precedence: 1, stopProcessing: true, conditions: [{ type: "keywords", any: ["tracking"] }] }),
+        rule("Default", "order_status")
+      ];
+
+      const result = await ruleEngine.evaluate(rules, CONTEXT);
+
+      expect(result).toMatchObject({ stopProcessing: true, usedGeneralFallback: false });
+      expect(result.rule.name).toBe("Legal");
+      expect(result.explanation.split("\n").slice(1)).toEqual([
+        'MATCH "Legal" (precedence 1, stops processing): found tracking',
+        'SKIP  "Default" (precedence 100): Not evaluated - "Legal" stops processing'
+      ]);
+      expect((await ruleEngine.evaluate(rules, { ...CONTEXT, body: "Any news?" })).stopProcessing).toBe(false);
+    });
+  });
+});
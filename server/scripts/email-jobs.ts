@@ -0,0 +1,106 @@
+/**
+ * Inbound email job queue maintenance
+ *
+ *   tsx server/scripts/email-jobs.ts dead [--user <id>]
+ *   tsx server/scripts/email-jobs.ts redrive <jobId...>
+ *   tsx server/scripts/email-jobs.ts redrive --all [--user <id>]
+ *   tsx server/scripts/email-jobs.ts recover --user <id> [--older-than <minutes>]
+ *   tsx server/scripts/email-jobs.ts duplicates --user <id> [--since <date>]
+ *
+ * dead lists jobs that exhausted their retries with the stage and error they died on.
+ * redrive puts them back on the queue at that stage; recover queues emails stuck in
+ * 'processing' that have no job. duplicates counts repeat deliveries per receiving mailbox.
+ */
+import type { EmailJob } from "../services/email-job-store";
+import type { DuplicateReport } from "../services/email-dedup";
+
+export function formatJobs(jobs: EmailJob[]): string {
+  if (jobs.length === 0) {
+    return 'No dead-lettered jobs';
+  }
+  const lines = ['  job                                   tenant               stage     attempts  died                  error'];
+  for (const job of jobs) {
+    lines.push(`  ${job.id.padEnd(37)} ${job.userId.padEnd(20)} ${job.stage.padEnd(9)} ${String(job.attempts).padEnd(9)} ${(job.deadAt?.toISOString() || '').padEnd(21)} ${job.lastError || ''}`);
+  }
+  return lines.join('\n');
+}
+
+export function formatDuplicateReport(report: DuplicateReport): string {
+  if (report.mailboxes.length === 0) {
+    return `No duplicate deliveries${report.since ? ` since ${report.since}` : ''}`;
+  }
+  const lines = [`${report.totalDuplicates} duplicate deliveries${report.since ? ` since ${report.since}` : ''}`,
+    '  mailbox                          duplicates  message-id  content-hash  emails  last seen'];
+  for (const m of report.mailboxes) {
+    lines.push(`  ${m.mailbox.padEnd(32)} ${String(m.duplicates).padEnd(11)} ${String(m.byMessageId).padEnd(11)} ${String(m.byContentHash).padEnd(13)} ${String(m.emailsAffected).padEnd(7)} ${m.lastSeenAt || ''}`);
+  }
+  return lines.join('\n');
+}
+
+function parseArgs(argv: string[]) {
+  const options: { positional: string[]; user?: string; all?: boolean; olderThan?: number; since?: Date } = { positional: [] };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--user': options.user = argv[++i]; break;
+      case '--all': options.all = true; break;
+      case '--older-than': options.olderThan = Number(argv[++i]); break;
+      case '--since': options.since = new Date(argv[++i]); break;
+      default: options.positional.push(argv[i]);
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const [command, ...ids] = options.positional;
+  const { emailJobQueue } = await import('../services/email-job-queue');
+
+  switch (command) {
+    case 'dead':
+      console.log(formatJobs(await emailJobQueue.getDeadLetters(options.user)));
+      break;
+
+    case 'redrive': {
+      if (!options.all && ids.length === 0) {
+        console.error('Usage: email-jobs redrive <jobId...> | --all [--user <id>]');
+        process.exit(1);
+      }
+      const redriven = options.all ? await emailJobQueue.redriveAll(options.user) : await emailJobQueue.redrive(ids);
+      console.log(`Re-queued ${redriven.length} job(s)`);
+      break;
+    }
+
+    case 'recover': {
+      if (!options.user) {
+        console.error('Usage: email-jobs recover --user <id> [--older-than <minutes>]');
+        process.exit(1);
+      }
+      const recovered = await emailJobQueue.recoverStuckEmails(options.user, (options.olderThan ?? 15) * 60_000);
+      console.log(`Queued ${recovered.length} stuck email(s)`);
+      break;
+    }
+
+    case 'duplicates': {
+      if (!options.user) {
+        console.error('Usage: email-jobs duplicates --user <id> [--since <date>]');
+        process.exit(1);
+      }
+      const { emailDedupService } = await import('../services/email-dedup');
+      console.log(formatDuplicateReport(await emailDedupService.getDuplicateReport(options.user, { since: options.since })));
+      break;
+    }
+
+    default:
+      console.error('Usage: email-jobs (dead | redrive | recover | duplicates) [options]');
+      process.exit(1);
+  }
+  process.exit(0);
+}
+
+if (process.argv[1] && /email-jobs\.[jt]s$/.test(process.argv[1])) {
+  main().catch(error => {
+    console.error('[EMAIL_QUEUE] Failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Classification evaluation
+ * Runs a labeled dataset through the grounded and direct classifiers and saves per-intent
+ * precision/recall/F1, confusion matrix, priority accuracy and confidence calibration.
+ *
+ *   tsx server/scripts/eval-classification.ts <dataset.jsonl|dataset.json> [--user <id>] [--fixtures fixtures.json]
+ *       [--paths grounded,direct] [--label name] [--out results.json] [--baseline previous.json]
+ *   tsx server/scripts/eval-classification.ts diff <baseline.json> <current.json>
+ *   tsx server/scripts/eval-classification.ts corrections --user <id> [--since 2024-01-01]
+ *
+ * Dataset rows: { "id"?, "subject", "body", "intent", "priority"? }
+ * --user runs against that tenant's live storage and LLM provider; --fixtures runs against
+ * in-memory storage seeded like replay-corpus (and the stub LLM when the fixtures include llmScript).
+ */
+import { readFileSync, writeFileSync } from "fs";
+import type { ClassifierPath } from "../services/auto-responder";
+import type { EvalRun, EvalDiff, LabeledEmail } from "../services/classification-eval";
+import type { ReplayFixtures } from "./replay-corpus";
+import type { CorrectionPair } from "../services/classification-feedback";
+
+export function loadDataset(path: string): LabeledEmail[] {
+  const raw = readFileSync(path, 'utf-8');
+  const rows: any[] = path.endsWith('.jsonl')
+    ? raw.split('\n').filter(line => line.trim()).map(line => JSON.parse(line))
+    : JSON.parse(raw);
+
+  return rows.map((row, i) => {
+    if (!row.intent || typeof row.body !== 'string') {
+      throw new Error(`Dataset row ${i + 1} needs "intent" and "body"`);
+    }
+    return { id: row.id ? String(row.id) : String(i + 1), subject: row.subject || '', body: row.body, intent: row.intent, priority: row.priority };
+  });
+}
+
+export function formatSummary(run: EvalRun): string {
+  const lines = [`${run.label} (${run.createdAt}) - ${run.datasetSize} examples, dataset ${run.datasetHash}`];
+
+  for (const metrics of Object.values(run.paths)) {
+    if (!metrics) continue;
+    lines.push('', `[${metrics.path}] accuracy ${metrics.accuracy}%  macro F1 ${metrics.macroF1}  priority ${metrics.priorityAccuracy ?? 'n/a'}%  ECE ${metrics.expectedCalibrationError}  errors ${metrics.errors}`);
+    lines.push('  intent                     precision  recall   f1      support');
+    for (const [intent, m] of Object.entries(metrics.perIntent)) {
+      lines.push(`  ${intent.padEnd(26)} ${String(m.precision).padEnd(10)} ${String(m.recall).padEnd(8)} ${String(m.f1).padEnd(7)} ${m.support}`);
+    }
+    lines.push('  calibration (confidence -> accuracy):');
+    for (const bin of metrics.calibration.filter(b => b.count > 0)) {
+      lines.push(`    ${bin.range.padEnd(8)} n=${String(bin.count).padEnd(4)} avg ${String(bin.averageConfidence).padEnd(6)} -> ${bin.accuracy}%`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export function formatDiff(diff: EvalDiff): string {
+  const lines = diff.comparable ? [] : ['WARNING: runs used different datasets - deltas are not comparable'];
+  const signed = (value: number | null) => value === null ? 'n/a' : value > 0 ? `+${value}` : String(value);
+
+  for (const [path, d] of Object.entries(diff.paths)) {
+    if (!d) continue;
+    lines.push(`[${path}] accuracy ${signed(d.accuracy)}  macro F1 ${signed(d.macroF1)}  priority ${signed(d.priorityAccuracy)}  ECE ${signed(d.expectedCalibrationError)}`);
+    for (const [intent, delta] of Object.entries(d.intentF1)) {
+      lines.push(`  ${intent.padEnd(26)} F1 ${signed(delta)}`);
+    }
+    if (d.fixed.length > 0) lines.push(`  fixed: ${d.fixed.join(', ')}`);
+    if (d.regressed.length > 0) lines.push(`  regressed: ${d.regressed.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+export function formatCorrectionPairs(pairs: CorrectionPair[]): string {
+  if (pairs.length === 0) {
+    return 'No agent corrections recorded';
+  }
+  const lines = ['  model said                 agent said                 count  last seen'];
+  for (const pair of pairs) {
+    lines.push(`  ${pair.from.padEnd(26)} ${pair.to.padEnd(26)} ${String(pair.count).padEnd(6)} ${pair.lastSeen.substring(0, 10)}`);
+  }
+  return lines.join('\n');
+}
+
+function parseArgs(argv: string[]) {
+  const options: { positional: string[]; user?: string; fixtures?: string; paths?: ClassifierPath[]; label?: string; out?: string; baseline?: string; since?: string } = { positional: [] };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--user': options.user = argv[++i]; break;
+      case '--fixtures': options.fixtures = argv[++i]; break;
+      case '--paths': options.paths = argv[++i].split(',').map(p => p.trim()) as ClassifierPath[]; break;
+      case '--label': options.label = argv[++i]; break;
+      case '--out': options.out = argv[++i]; break;
+      case '--baseline': options.baseline = argv[++i]; break;
+      case '--since': options.since = argv[++i]; break;
+      default: options.positional.push(argv[i]);
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const { classificationEvaluator } = await import('../services/classification-eval');
+
+  if (options.positional[0] === 'diff') {
+    const [, baselinePath, currentPath] = options.positional;
+    if (!baselinePath || !currentPath) {
+      console.error('Usage: eval-classification diff <baseline.json> <current.json>');
+      process.exit(1);
+    }
+    const baseline: EvalRun = JSON.parse(readFileSync(baselinePath, 'utf-8'));
+    const current: EvalRun = JSON.parse(readFileSync(currentPath, 'utf-8'));
+    console.log(formatDiff(classificationEvaluator.diff(baseline, current)));
+    return;
+  }
+
+  if (options.positional[0] === 'corrections') {
+    if (!options.user) {
+      console.error('Usage: eval-classification corrections --user <id> [--since 2024-01-01]');
+      process.exit(1);
+    }
+    const { classificationFeedbackService } = await import('../services/classification-feedback');
+    const pairs = await classificationFeedbackService.getCorrectionPairs(options.user, {
+      since: options.since ? new Date(options.since) : undefined
+    });
+    console.log(formatCorrectionPairs(pairs));
+    return;
+  }
+
+  const datasetPath = options.positional[0];
+  if (!datasetPath || (!options.user && !options.fixtures)) {
+    console.error('Usage: eval-classification <dataset.jsonl> (--user <id> | --fixtures fixtures.json) [--paths grounded,direct] [--label name] [--out results.json] [--baseline previous.json]');
+    process.exit(1);
+  }
+
+  let userId = options.user;
+  if (options.fixtures) {
+    // Storage is replaced in memory before any query runs; the URL only satisfies module init
+    process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgres://eval@localhost/eval';
+    const fixtures: ReplayFixtures = JSON.parse(readFileSync(options.fixtures, 'utf-8'));
+    const { installMemoryStorage } = await import('../storage-memory');
+    const { seedMemoryStorage } = await import('./replay-corpus');
+    userId = await seedMemoryStorage(await installMemoryStorage(), fixtures);
+
+    if (fixtures.llmScript) {
+      const { llmProviderService, StubLLMProvider } = await import('../services/llm-provider');
+      llmProviderService.setOverride(new StubLLMProvider(fixtures.llmScript));
+    }
+  }
+
+  const dataset = loadDataset(datasetPath);
+  const run = await classificationEvaluator.run(dataset, { userId, paths: options.paths, label: options.label });
+
+  const out = options.out || `classification-eval-${run.label}-${run.createdAt.replace(/[:.]/g, '-')}.json`;
+  writeFileSync(out, JSON.stringify(run, null, 2) + '\n');
+
+  console.log(formatSummary(run));
+  console.log(`\nSaved results to ${out}`);
+
+  if (options.baseline) {
+    const baseline: EvalRun = JSON.parse(readFileSync(options.baseline, 'utf-8'));
+    console.log(`\nCompared to ${options.baseline}:`);
+    console.log(formatDiff(classificationEvaluator.diff(baseline, run)));
+  }
+}
+
+if (process.argv[1] && /eval-classification\.[jt]s$/.test(process.argv[1])) {
+  main().catch(error => {
+    console.error('[CLASSIFICATION_EVAL] Failed:', error);
+    process.exit(1);
+  });
+}
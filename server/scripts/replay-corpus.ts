@@ -0,0 +1,220 @@
+/**
+ * Offline corpus replay
+ * Feeds a directory of .eml files (or an mbox) through autoResponderService.processIncomingEmail
+ * against in-memory storage, the stub LLM provider, keyword sentiment and a recording mail
+ * sender, then reports what the pipeline decided for every message.
+ *
+ *   tsx server/scripts/replay-corpus.ts <dir|file.mbox|file.eml> [--fixtures fixtures.json] [--format json|csv] [--out report.json]
+ *
+ * fixtures.json: { "userId"?, "settings"?, "rules"?: [...], "trainingUrls"?: [...], "llmScript"?: StubScript }
+ * Without llmScript, LLM_STUB_SCRIPT is used; without either every completion is "{}".
+ */
+import { readFileSync, readdirSync, statSync, writeFileSync } from "fs";
+import { join, extname, basename } from "path";
+import type { StubScript } from "../services/llm-provider";
+import type { IncomingEmail } from "../services/auto-responder";
+import type { MemStorage } from "../storage-memory";
+import { mimeParser } from "../services/mime-parser";
+
+export interface ReplayFixtures {
+  userId?: string;
+  settings?: Record<string, any>;
+  rules?: any[];
+  trainingUrls?: any[];
+  llmScript?: StubScript;
+}
+
+export interface ReplayMessage extends IncomingEmail {
+  source: string;               // File name, or mbox name plus message index
+}
+
+export interface ReplayResult {
+  source: string;
+  messageId?: string;
+  fromEmail: string;
+  subject: string;
+  classification?: string;
+  confidence?: number;
+  sentiment?: string;
+  rule?: string;
+  route: 'auto' | 'approval' | 'escalate' | 'none' | 'error';
+  draft?: string;
+  error?: string;
+}
+
+const DEFAULT_USER_ID = 'replay-user';
+const CSV_COLUMNS: Array<keyof ReplayResult> = [
+  'source', 'messageId', 'fromEmail', 'subject', 'classification', 'confidence', 'sentiment', 'rule', 'route', 'draft', 'error'
+];
+
+/**
+ * Load messages from a directory of .eml files, a single .eml, or an mbox
+ */
+export function loadCorpus(path: string): ReplayMessage[] {
+  if (statSync(path).isDirectory()) {
+    return readdirSync(path)
+      .filter(name => ['.eml', '.mbox'].includes(extname(name).toLowerCase()))
+      .sort()
+      .flatMap(name => loadCorpus(join(path, name)));
+  }
+
+  const raw = readFileSync(path);
+  if (extname(path).toLowerCase() === '.eml') {
+    return [parseMessage(raw, basename(path))];
+  }
+  // Split as latin1 so 8-bit bodies keep their bytes for the parser
+  return splitMbox(raw.toString('latin1')).map((message, i) => parseMessage(Buffer.from(message, 'latin1'), `${basename(path)}#${i + 1}`));
+}
+
+/**
+ * mbox separates messages with "From " lines and escapes body lines as ">From "
+ */
+export function splitMbox(raw: string): string[] {
+  return raw
+    .replace(/\r\n/g, '\n')
+    .split(/^From .*$/m)
+    .map(message => message.replace(/^>(>*From )/gm, '$1').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse with the same MIME parser live raw ingestion (processRawEmail) uses
+ */
+export function parseMessage(raw: string | Buffer, source: string): ReplayMessage {
+  return { source, ...mimeParser.toIncomingEmail(mimeParser.parse(raw)) };
+}
+
+/**
+ * Load a fixtures file into in-memory storage. Returns the tenant the fixtures belong to.
+ */
+export async function seedMemoryStorage(memStorage: MemStorage, fixtures: ReplayFixtures): Promise<string> {
+  const userId = fixtures.userId || DEFAULT_USER_ID;
+  await memStorage.updateSystemSettings(userId, { automationApprovalRequired: true, ...fixtures.settings });
+  for (const rule of fixtures.rules || []) {
+    await memStorage.createAutoResponderRule({ ...rule, userId });
+  }
+  for (const url of fixtures.trainingUrls || []) {
+    await memStorage.createTrainingUrl({ ...url, userId });
+  }
+  return userId;
+}
+
+/**
+ * Replay messages through the live pipeline with every external dependency swapped out
+ */
+export async function replayCorpus(messages: ReplayMessage[], fixtures: ReplayFixtures = {}): Promise<ReplayResult[]> {
+  const { installMemoryStorage } = await import('../storage-memory');
+  const { llmProviderService, StubLLMProvider } = await import('../services/llm-provider');
+  const { sentimentAnalysisService } = await import('../services/sentiment-analysis');
+  const { emailRoutingService } = await import('../services/email-routing');
+  const { autoResponderService } = await import('../services/auto-responder');
+  const { emailDedupService } = await import('../services/email-dedup');
+  const { MemoryDedupStore } = await import('../services/email-dedup-store');
+
+  const memStorage = await installMemoryStorage();
+  emailDedupService.setStore(new MemoryDedupStore());
+  const userId = await seedMemoryStorage(memStorage, fixtures);
+
+  llmProviderService.setOverride(
+    fixtures.llmScript
+      ? new StubLLMProvider(fixtures.llmScript)
+      : process.env.LLM_STUB_SCRIPT ? StubLLMProvider.fromFile(process.env.LLM_STUB_SCRIPT) : new StubLLMProvider()
+  );
+  sentimentAnalysisService.setOverride(async text => sentimentAnalysisService.getFallbackSentiment(text));
+
+  // Record outgoing mail instead of sending it
+  const outbox: Array<{ to: string; subject: string; html: string }> = [];
+  (emailRoutingService as any).sendEmail = async (_userId: string, message: any) => {
+    outbox.push({ to: message.to, subject: message.subject, html: message.html || message.text || '' });
+    return true;
+  };
+
+  const results: ReplayResult[] = [];
+  for (const message of messages) {
+    const sentBefore = outbox.length;
+    const { source, ...email } = message;
+    const base = { source, messageId: email.messageId, fromEmail: email.fromEmail, subject: email.subject };
+
+    try {
+      const processed = await autoResponderService.processIncomingEmail(userId, email);
+
+      const approvals = (await memStorage.getAutomationApprovalQueue(userId)).filter(item => item.emailId === processed.id);
+      const sent = outbox.slice(sentBefore).filter(mail => mail.to === message.fromEmail);
+      const drafts = [...approvals.map(item => item.proposedResponse), ...sent.map(mail => mail.html)];
+
+      results.push({
+        ...base,
+        classification: processed.classification,
+        confidence: processed.confidence,
+        sentiment: sentimentAnalysisService.getFallbackSentiment(message.body || ' ').sentiment,
+        rule: processed.ruleUsed || undefined,
+        route: processed.escalated ? 'escalate'
+          : processed.awaitingApproval ? 'approval'
+          : processed.autoResponseSent ? 'auto'
+          : 'none',
+        draft: drafts.length > 0 ? drafts.join('\n\n---\n\n') : undefined
+      });
+    } catch (error) {
+      results.push({ ...base, route: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  llmProviderService.setOverride(null);
+  sentimentAnalysisService.setOverride(null);
+  return results;
+}
+
+export function formatCsv(results: ReplayResult[]): string {
+  const escape = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [CSV_COLUMNS.join(','), ...results.map(r => CSV_COLUMNS.map(column => escape(r[column])).join(','))].join('\n') + '\n';
+}
+
+function parseArgs(argv: string[]) {
+  const options: { input?: string; fixtures?: string; format: 'json' | 'csv'; out?: string } = { format: 'json' };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--fixtures': options.fixtures = argv[++i]; break;
+      case '--format': options.format = argv[++i] === 'csv' ? 'csv' : 'json'; break;
+      case '--out': options.out = argv[++i]; break;
+      default: options.input = argv[i];
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.input) {
+    console.error('Usage: replay-corpus <dir|file.mbox|file.eml> [--fixtures fixtures.json] [--format json|csv] [--out report]');
+    process.exit(1);
+  }
+
+  // Storage is replaced in memory before any query runs; the URL only satisfies module init
+  process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgres://replay@localhost/replay';
+
+  const fixtures: ReplayFixtures = options.fixtures ? JSON.parse(readFileSync(options.fixtures, 'utf-8')) : {};
+  const messages = loadCorpus(options.input);
+  console.error(`[REPLAY] Replaying ${messages.length} messages from ${options.input}`);
+
+  const results = await replayCorpus(messages, fixtures);
+  const report = options.format === 'csv' ? formatCsv(results) : JSON.stringify(results, null, 2) + '\n';
+
+  if (options.out) {
+    writeFileSync(options.out, report);
+  } else {
+    process.stdout.write(report);
+  }
+
+  const routes = results.reduce<Record<string, number>>((counts, r) => ({ ...counts, [r.route]: (counts[r.route] || 0) + 1 }), {});
+  console.error(`[REPLAY] Done: ${Object.entries(routes).map(([route, count]) => `${route}=${count}`).join(', ')}`);
+}
+
+if (process.argv[1] && /replay-corpus\.[jt]s$/.test(process.argv[1])) {
+  main().catch(error => {
+    console.error('[REPLAY] Failed:', error);
+    process.exit(1);
+  });
+}
@@ -1,5 +1,7 @@
-import { OpenAI } from 'openai';
-import { sentimentAnalysisService } from './sentiment-analysis';
+import { sentimentAnalysisService, type SentimentResult } from './sentiment-analysis';
+import { llmProviderService } from './llm-provider';
+import { intentTaxonomyService, type IntentDefinition } from './intent-taxonomy';
+import type { EmailAnalysisContext } from './email-analysis-context';
 
 interface EscalationAnalysis {
   shouldEscalate: boolean;
@@ -21,24 +23,22 @@ interface EscalationAnalysis {
 }
 
 export class AIEscalationAnalyzer {
-  private openai: OpenAI;
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
 
   async analyzeEmailForEscalation(
     subject: string,
     body: string,
     customerEmail: string,
-    classification: string
+    classification: string,
+    userId?: string,
+    emailAnalysis?: EmailAnalysisContext
   ): Promise<EscalationAnalysis> {
-    // First, get sentiment analysis for the customer email
+    // First, get sentiment analysis for the customer email (reused from the pipeline when available)
     let sentimentData;
+    let sentimentResult: SentimentResult | undefined;
     try {
-      const sentimentResult = await sentimentAnalysisService.analyzeSentiment(body);
+      sentimentResult = emailAnalysis
+        ? await emailAnalysis.sentiment()
+        : await sentimentAnalysisService.analyzeSentiment(body);
       
       // Extract email context for better risk assessment
       const emailContext = this.extractEmailContext(subject, body, customerEmail, sentimentResult.confidence);
@@ -113,8 +113,8 @@ Respond in JSON format:
 `;
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o',
+      const llm = await llmProviderService.getProvider(userId);
+      const content = await llm.createChatCompletion({
         messages: [
           {
             role: 'system',
@@ -126,12 +126,11 @@ Respond in JSON format:
           }
         ],
         temperature: 0.1, // Low temperature for consistent analysis
-        max_tokens: 500
+        maxTokens: 500
       });
 
-      const content = response.choices[0]?.message?.content;
       if (!content) {
-        throw new Error('No response from OpenAI');
+        throw new Error('No response from LLM provider');
       }
 
       const analysis = JSON.parse(content) as EscalationAnalysis;
@@ -144,7 +143,7 @@ Respond in JSON format:
       console.error('AI escalation analysis failed:', error);
       
       // Fallback analysis based on classification
-      return await this.getFallbackAnalysis(classification, subject, body);
+      return await this.getFallbackAnalysis(classification, subject, body, userId, sentimentResult);
     }
   }
 
@@ -242,7 +241,10 @@ Respond in JSON format:
     };
   }
 
-  private async getFallbackAnalysis(classification: string, subject: string, body: string): Promise<EscalationAnalysis> {
+  private async getFallbackAnalysis(classification: string, subject: string, body: string, userId?: string, sentimentResult?: SentimentResult): Promise<EscalationAnalysis> {
+    const taxonomy = await intentTaxonomyService.getTaxonomy(userId);
+    const intent = taxonomy.get(classification);
+
     const urgentKeywords = ['urgent', 'asap', 'immediately', 'emergency', 'critical'];
     const frustrated = body.toLowerCase().includes('frustrated') || 
                      body.toLowerCase().includes('angry') ||
@@ -252,10 +254,9 @@ Respond in JSON format:
       subject.toLowerCase().includes(keyword) || body.toLowerCase().includes(keyword)
     );
 
-    // Try to get sentiment data for smarter fallback prioritization
+    // Use the sentiment already analyzed for smarter fallback prioritization (absent if it failed)
     let sentimentPriorityBoost = false;
-    try {
-      const sentimentResult = await sentimentAnalysisService.analyzeSentiment(body);
+    if (sentimentResult) {
       const negativeScore = sentimentResult.scores.negative || 0;
       const confidence = sentimentResult.confidence || 0;
       
@@ -263,25 +264,14 @@ Respond in JSON format:
       if (sentimentResult.sentiment === 'NEGATIVE' && negativeScore > 70 && confidence > 80) {
         sentimentPriorityBoost = true;
       }
-    } catch (error) {
-      console.error('Failed to analyze sentiment in fallback:', error);
     }
 
     // Determine escalation based on classification
-    const shouldEscalate = [
-      'promo_refund',
-      'subscription_management', 
-      'billing_dispute',
-      'technical_issue'
-    ].includes(classification) || frustrated || hasUrgentKeywords || sentimentPriorityBoost;
+    const shouldEscalate = !!intent?.escalateByDefault || frustrated || hasUrgentKeywords || sentimentPriorityBoost;
 
-    let priority: 'low' | 'medium' | 'high' | 'urgent' = 'medium';
-    if (hasUrgentKeywords || frustrated) priority = 'high';
-    if (classification === 'billing_dispute') priority = 'urgent';
-    if (sentimentPriorityBoost) {
-      // Sentiment-based priority elevation
-      if (priority === 'medium') priority = 'high';
-      // Priority elevation completed above
+    let priority: 'low' | 'medium' | 'high' | 'urgent' = intent?.defaultPriority || 'medium';
+    if ((hasUrgentKeywords || frustrated || sentimentPriorityBoost) && (priority === 'low' || priority === 'medium')) {
+      priority = 'high';
     }
 
     const reason = this.generateFallbackReason(classification, hasUrgentKeywords, frustrated, sentimentPriorityBoost);
@@ -290,8 +280,8 @@ Respond in JSON format:
       shouldEscalate,
       priority,
       reason,
-      suggestedActions: this.getSuggestedActions(classification),
-      initialNotes: this.generateFallbackNotes(classification, subject)
+      suggestedActions: taxonomy.escalationActions(classification),
+      initialNotes: this.generateFallbackNotes(intent, classification, subject)
     };
   }
 
@@ -305,43 +295,12 @@ Respond in JSON format:
     return reason.charAt(0).toUpperCase() + reason.slice(1);
   }
 
-  private getSuggestedActions(classification: string): string[] {
-    const actionMap: { [key: string]: string[] } = {
-      'promo_refund': ['Process refund request', 'Verify promo code validity', 'Apply discount retroactively'],
-      'subscription_management': ['Review subscription details', 'Process plan change', 'Check billing status'],
-      'billing_dispute': ['Review billing history', 'Contact billing team', 'Investigate charge'],
-      'order_status': ['Check order tracking', 'Contact fulfillment', 'Provide status update'],
-      'technical_issue': ['Escalate to technical support', 'Gather more details', 'Test functionality']
-    };
-
-    return actionMap[classification] || ['Review customer request', 'Provide personalized response'];
-  }
-
-  private generateFallbackNotes(classification: string, subject: string): string {
-    const contextInfo = [
+  private generateFallbackNotes(intent: IntentDefinition | undefined, classification: string, subject: string): string {
+    return [
       `Issue: ${classification.replace('_', ' ')}`,
-      `Subject: ${subject}`
-    ];
-
-    // Add classification-specific context
-    switch (classification) {
-      case 'billing_dispute':
-        contextInfo.push('Requires billing team review and potential refund processing');
-        break;
-      case 'subscription_management':
-        contextInfo.push('Account modification required - verify current plan and billing status');
-        break;
-      case 'promo_refund':
-        contextInfo.push('Discount code issue - verify promotion validity and process refund if applicable');
-        break;
-      case 'order_status':
-        contextInfo.push('Delivery inquiry - check tracking and fulfillment status');
-        break;
-      default:
-        contextInfo.push('Requires human review and personalized response');
-    }
-
-    return contextInfo.join(' - ');
+      `Subject: ${subject}`,
+      intent?.escalationNotes || 'Requires human review and personalized response'
+    ].join(' - ');
   }
 }
 
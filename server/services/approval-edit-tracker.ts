@@ -0,0 +1,382 @@
+import { storage } from "../storage";
+import { knowledgeChunkIndex } from "./knowledge-chunk-index";
+
+export type EditClass = 'none' | 'tone' | 'factual_fix' | 'policy_change' | 'full_rewrite';
+
+export interface DiffSegment {
+  op: 'equal' | 'removed' | 'added';
+  text: string;             // One sentence
+}
+
+/**
+ * A changed sentence whose facts (amounts, dates, numbers, links) differ from the proposal
+ */
+export interface FactualChange {
+  removed: string;
+  added: string;
+}
+
+export interface ResponseEdit {
+  editClass: EditClass;
+  similarity: number;       // Word overlap between proposal and final text, 0-1
+  wordsAdded: number;
+  wordsRemoved: number;
+  segments: DiffSegment[];
+  factualChanges: FactualChange[];
+  recordedAt: string;
+}
+
+export interface EditRateBucket {
+  key: string;
+  reviewed: number;
+  edited: number;
+  editRate: number;         // % of reviewed drafts sent with changes
+  byClass: Record<EditClass, number>;
+}
+
+export interface FrequentCorrection {
+  intent: string;
+  correctedText: string;
+  replacedText: string;     // Most recent proposal wording the reviewers replaced
+  count: number;
+  approvalItemIds: string[];
+}
+
+export interface EditReport {
+  reviewed: number;
+  edited: number;
+  editRate: number;
+  byIntent: EditRateBucket[];
+  byRule: EditRateBucket[];
+  byEmpathyLevel: EditRateBucket[];
+  frequentCorrections: FrequentCorrection[];
+}
+
+const FULL_REWRITE_SIMILARITY = 0.35;   // Below this word overlap the reviewer wrote their own reply
+const MIN_CORRECTION_REPEATS = 3;       // Same correction this often becomes a knowledge snippet
+const LEARNED_KNOWLEDGE_FILENAME = 'reviewer-corrections.md';
+
+// Amounts, percentages, numbers and identifiers, dates, links and email addresses
+const FACT_PATTERN = /\$\s?\d[\d,]*(?:\.\d+)?|\d+(?:[.,:/-]\d+)*%?|https?:\/\/\S+|[\w.+-]+@[\w-]+\.[\w.]+|\b(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\b|\b(?:mon|tues|wednes|thurs|fri|satur|sun)day\b/gi;
+const POLICY_PATTERN = /\b(?:refunds?|returns?|exchanges?|warranty|guarantee|policy|eligible|eligibility|store credit|replacements?|cancel\w*|restocking|fees?|free shipping|business days|final sale)\b/gi;
+
+/**
+ * Approval Edit Tracker
+ * Records what reviewers actually sent for approval-queue drafts, classifies how they changed
+ * them, and turns corrections reviewers keep making into knowledge the drafts are grounded on.
+ */
+class ApprovalEditTracker {
+
+  /**
+   * Store the final sent text and its edit analysis on the approval item
+   */
+  async recordFinalResponse(userId: string, item: any, finalResponse: string): Promise<ResponseEdit> {
+    const edit = this.analyzeEdit(item.proposedResponse || '', finalResponse);
+
+    await storage.updateAutomationApprovalItem(item.id, {
+      metadata: {
+        ...(item.metadata || {}),
+        finalResponse,
+        edit
+      }
+    });
+
+    if (edit.editClass !== 'none') {
+      console.log(`[EDIT_TRACKER] Approval item ${item.id} (${item.classification}) sent with ${edit.editClass} edit, similarity ${edit.similarity}`);
+    }
+
+    if (edit.factualChanges.length > 0) {
+      try {
+        await this.refreshLearnedKnowledge(userId);
+      } catch (error) {
+        console.error('[EDIT_TRACKER] Failed to refresh learned knowledge:', error);
+      }
+    }
+
+    return edit;
+  }
+
+  /**
+   * Sentence-level diff of proposal vs final text and the kind of edit it represents
+   */
+  analyzeEdit(proposed: string, final: string): ResponseEdit {
+    const segments = this.diffSentences(this.splitSentences(proposed), this.splitSentences(final));
+    const proposedWords = this.words(proposed);
+    const finalWords = this.words(final);
+    const similarity = this.wordOverlap(proposedWords, finalWords);
+
+    const removedWords = this.words(segments.filter(s => s.op === 'removed').map(s => s.text).join(' '));
+    const addedWords = this.words(segments.filter(s => s.op === 'added').map(s => s.text).join(' '));
+
+    const factualChanges = this.pairChanges(segments).filter(change =>
+      !this.sameTerms(this.terms(change.removed, FACT_PATTERN), this.terms(change.added, FACT_PATTERN))
+    );
+
+    const removedText = segments.filter(s => s.op === 'removed').map(s => s.text).join(' ');
+    const addedText = segments.filter(s => s.op === 'added').map(s => s.text).join(' ');
+
+    let editClass: EditClass;
+    if (removedWords.length === 0 && addedWords.length === 0) {
+      editClass = 'none';
+    } else if (similarity < FULL_REWRITE_SIMILARITY) {
+      editClass = 'full_rewrite';
+    } else if (!this.sameTerms(this.terms(removedText, POLICY_PATTERN), this.terms(addedText, POLICY_PATTERN))) {
+      editClass = 'policy_change';
+    } else if (factualChanges.length > 0 || !this.sameTerms(this.terms(removedText, FACT_PATTERN), this.terms(addedText, FACT_PATTERN))) {
+      editClass = 'factual_fix';
+    } else {
+      editClass = 'tone';
+    }
+
+    return {
+      editClass,
+      similarity: Math.round(similarity * 1000) / 1000,
+      wordsAdded: addedWords.length,
+      wordsRemoved: removedWords.length,
+      segments,
+      // A rewrite replaces everything; pairing its sentences would invent corrections
+      factualChanges: editClass === 'full_rewrite' ? [] : factualChanges,
+      recordedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Edit rates per intent, rule and empathy level over reviewed drafts
+   */
+  async getReport(userId: string, options: { since?: Date } = {}): Promise<EditReport> {
+    const items = (await this.reviewedItems(userId))
+      .filter(item => !options.since || new Date(item.metadata.edit.recordedAt) >= options.since);
+
+    const [rules, settings] = await Promise.all([
+      storage.getAutoResponderRules(userId),
+      storage.getSystemSettings(userId)
+    ]);
+    const ruleNames = new Map<string, string>((rules || []).map((rule: any) => [rule.id, rule.name]));
+
+    const edited = items.filter(item => item.metadata.edit.editClass !== 'none').length;
+    return {
+      reviewed: items.length,
+      edited,
+      editRate: this.percent(edited, items.length),
+      byIntent: this.bucket(items, item => item.metadata?.intents?.[0]?.intent || item.classification),
+      byRule: this.bucket(items, item => ruleNames.get(item.ruleId) || item.ruleId || 'unknown'),
+      byEmpathyLevel: this.bucket(items, item => String(item.metadata?.empathyLevel ?? settings?.empathyLevel ?? 'unknown')),
+      frequentCorrections: this.frequentCorrections(items)
+    };
+  }
+
+  /**
+   * Write corrections reviewers made repeatedly into a knowledge document so retrieval
+   * surfaces the corrected facts to the next draft
+   */
+  async refreshLearnedKnowledge(userId: string): Promise<FrequentCorrection[]> {
+    const corrections = this.frequentCorrections(await this.reviewedItems(userId));
+    const documents: any[] = await storage.getKnowledgeDocuments(userId);
+    const existing = documents.find(doc => doc.filename === LEARNED_KNOWLEDGE_FILENAME);
+
+    if (corrections.length === 0 && !existing) {
+      return corrections;
+    }
+
+    const content = this.formatCorrections(corrections);
+    if (existing?.content === content) {
+      return corrections;
+    }
+
+    const document = existing
+      ? await storage.updateKnowledgeDocument(existing.id, { content, status: 'completed' })
+      : await storage.createKnowledgeDocument({
+          userId,
+          title: 'Reviewer corrections',
+          filename: LEARNED_KNOWLEDGE_FILENAME,
+          format: 'markdown',
+          contentType: 'markdown',
+          content,
+          status: 'completed'
+        });
+
+    const chunkCount = await knowledgeChunkIndex.indexDocument(userId, document);
+    console.log(`[EDIT_TRACKER] Learned knowledge updated for ${userId}: ${corrections.length} corrections, ${chunkCount} chunks`);
+    return corrections;
+  }
+
+  private async reviewedItems(userId: string): Promise<any[]> {
+    const items: any[] = await storage.getAutomationApprovalQueue(userId);
+    return items.filter(item => item.metadata?.edit);
+  }
+
+  private bucket(items: any[], keyOf: (item: any) => string): EditRateBucket[] {
+    const buckets = new Map<string, EditRateBucket>();
+
+    for (const item of items) {
+      const key = keyOf(item);
+      const bucket = buckets.get(key) || {
+        key,
+        reviewed: 0,
+        edited: 0,
+        editRate: 0,
+        byClass: { none: 0, tone: 0, factual_fix: 0, policy_change: 0, full_rewrite: 0 }
+      };
+      const editClass: EditClass = item.metadata.edit.editClass;
+      bucket.reviewed++;
+      bucket.byClass[editClass]++;
+      if (editClass !== 'none') bucket.edited++;
+      buckets.set(key, bucket);
+    }
+
+    return Array.from(buckets.values())
+      .map(bucket => ({ ...bucket, editRate: this.percent(bucket.edited, bucket.reviewed) }))
+      .sort((a, b) => b.editRate - a.editRate || b.reviewed - a.reviewed);
+  }
+
+  /**
+   * The same corrected sentence across several drafts of one intent. Customer-specific fixes
+   * (an order number, a tracking link) never repeat, so only standing facts reach the threshold.
+   */
+  private frequentCorrections(items: any[]): FrequentCorrection[] {
+    const groups = new Map<string, FrequentCorrection>();
+
+    for (const item of items) {
+      const intent = item.metadata?.intents?.[0]?.intent || item.classification;
+      for (const change of item.metadata.edit.factualChanges as FactualChange[]) {
+        const key = `${intent}|${this.normalize(change.added)}`;
+        const group = groups.get(key) || { intent, correctedText: change.added, replacedText: change.removed, count: 0, approvalItemIds: [] };
+        group.count++;
+        group.replacedText = change.removed;
+        group.approvalItemIds.push(item.id);
+        groups.set(key, group);
+      }
+    }
+
+    return Array.from(groups.values())
+      .filter(group => group.count >= MIN_CORRECTION_REPEATS)
+      .sort((a, b) => b.count - a.count);
+  }
+
+  private formatCorrections(corrections: FrequentCorrection[]): string {
+    const byIntent = new Map<string, FrequentCorrection[]>();
+    for (const correction of corrections) {
+      byIntent.set(correction.intent, [...(byIntent.get(correction.intent) || []), correction]);
+    }
+
+    const sections = Array.from(byIntent.entries()).map(([intent, list]) =>
+      `## ${intent.replace(/_/g, ' ')}\n\n${list.map(c => `- ${c.correctedText}`).join('\n')}`
+    );
+
+    return `# Reviewer corrections\n\nFacts our support team repeatedly corrected in draft replies.\n\n${sections.join('\n\n')}\n`;
+  }
+
+  /**
+   * Longest-common-subsequence diff over sentences
+   */
+  private diffSentences(before: string[], after: string[]): DiffSegment[] {
+    const a = before.map(s => this.normalize(s));
+    const b = after.map(s => this.normalize(s));
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const segments: DiffSegment[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        segments.push({ op: 'equal', text: after[j] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        segments.push({ op: 'removed', text: before[i++] });
+      } else {
+        segments.push({ op: 'added', text: after[j++] });
+      }
+    }
+    while (i < a.length) segments.push({ op: 'removed', text: before[i++] });
+    while (j < b.length) segments.push({ op: 'added', text: after[j++] });
+
+    return segments;
+  }
+
+  /**
+   * Pair removed and added sentences within each changed hunk, in order
+   */
+  private pairChanges(segments: DiffSegment[]): FactualChange[] {
+    const changes: FactualChange[] = [];
+    let removed: string[] = [];
+    let added: string[] = [];
+
+    const flush = () => {
+      for (let k = 0; k < Math.min(removed.length, added.length); k++) {
+        changes.push({ removed: removed[k], added: added[k] });
+      }
+      removed = [];
+      added = [];
+    };
+
+    for (const segment of segments) {
+      if (segment.op === 'equal') {
+        flush();
+      } else if (segment.op === 'removed') {
+        removed.push(segment.text);
+      } else {
+        added.push(segment.text);
+      }
+    }
+    flush();
+
+    return changes;
+  }
+
+  private splitSentences(text: string): string[] {
+    return text
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private words(text: string): string[] {
+    return text.toLowerCase().match(/[a-z0-9$%']+/g) || [];
+  }
+
+  /**
+   * Dice coefficient over word counts
+   */
+  private wordOverlap(a: string[], b: string[]): number {
+    if (a.length === 0 && b.length === 0) return 1;
+    const counts = new Map<string, number>();
+    a.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+
+    let common = 0;
+    for (const word of b) {
+      const count = counts.get(word) || 0;
+      if (count > 0) {
+        common++;
+        counts.set(word, count - 1);
+      }
+    }
+    return (2 * common) / (a.length + b.length);
+  }
+
+  private terms(text: string, pattern: RegExp): string[] {
+    return (text.match(pattern) || []).map(term => term.toLowerCase().replace(/\s+/g, ' ')).sort();
+  }
+
+  private sameTerms(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((term, i) => term === b[i]);
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  private percent(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+  }
+}
+
+export const approvalEditTracker = new ApprovalEditTracker();
@@ -5,10 +5,22 @@ import { contentSafetyService } from "./content-safety";
 import { sentimentAnalysisService } from "./sentiment-analysis";
 import { hallucinationPreventionService } from "./hallucination-prevention";
 import { empatheticResponseGenerator } from "./empathetic-response-generator";
-import OpenAI from "openai";
 import { aiAgentSignatureService } from "./ai-agent-signature";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { llmProviderService } from "./llm-provider";
+import { responseCitationService, type Citation } from "./response-citations";
+import { factualConsistencyChecker, type FactualConsistencyResult } from "./factual-consistency-checker";
+import { draftActionLinter, type DraftLintResult } from "./draft-action-linter";
+import { intentExtractionService, MULTI_INTENT_INSTRUCTIONS, INTENTS_JSON_EXAMPLE, type DetectedIntent } from "./intent-extraction";
+import { intentTaxonomyService } from "./intent-taxonomy";
+import { ruleEngine, type RuleEvaluationContext, type RuleMatchResult } from "./rule-engine";
+import { confidenceCalibrationService } from "./confidence-calibration";
+import { classificationFeedbackService } from "./classification-feedback";
+import { approvalEditTracker, type ResponseEdit } from "./approval-edit-tracker";
+import { emailAnalysisService, extractOrderNumber, type EmailAnalysisContext } from "./email-analysis-context";
+import { providerResilience, isProviderUnavailable, isOutcomeUnknown } from "./provider-resilience";
+import type { JobCheckpoint } from "./email-job-store";
+import { emailDedupService } from "./email-dedup";
+import { mimeParser } from "./mime-parser";
 
 export interface ClassificationResult {
   classification: string;
@@ -16,8 +28,13 @@ export interface ClassificationResult {
   reasoning: string;
   priority?: 'low' | 'medium' | 'high' | 'urgent';
   priorityReasoning?: string;
+  intents?: DetectedIntent[];   // Primary intent first, then any secondary requests
+  rawConfidence?: number;       // Model's self-reported confidence; confidence is calibrated
+  calibrationHoldout?: boolean; // Reviewed instead of escalated so calibration keeps getting samples
 }
 
+export type ClassifierPath = 'grounded' | 'direct';
+
 export interface ProcessedEmail {
   id: string;
   classification: string;
@@ -26,64 +43,104 @@ export interface ProcessedEmail {
   escalated: boolean;
   ruleUsed?: string;
   awaitingApproval?: boolean;
+  shadow?: boolean;               // Decided in shadow mode; nothing was sent or queued
+  deferred?: boolean;             // A provider was unavailable; the job queue finishes processing later
+  duplicate?: boolean;            // Repeat delivery of an email already ingested; this is the original's result
+  intents?: Array<{               // Per-request outcome for multi-intent emails
+    intent: string;
+    ruleUsed?: string;
+    autoResponseSent: boolean;
+    escalated: boolean;
+    awaitingApproval?: boolean;
+  }>;
 }
 
-class AutoResponderService {
-  
-  /**
-   * Classify incoming email using OpenAI with hallucination prevention
-   */
-  async classifyEmail(emailContent: string, subject: string, userId?: string): Promise<ClassificationResult> {
-    try {
-      const prompt = `
-You are an expert customer service AI that understands customer intent, not just keywords. Analyze the underlying meaning and context of this email.
-
-CUSTOMER INTENT CATEGORIES:
-
-1. **order_status** (WISMO - Where Is My Order)
-   - Intent: Customer wants to know where their order is, when it will arrive, or why it hasn't arrived
-   - Context: Any concern about order location, delivery timing, shipping progress
-   - Examples: "Where is my order?", "Expected yesterday but not here", "Haven't received my package", "Order #123 status?"
-
-2. **promo_refund** 
-   - Intent: Customer wants money back or has billing/payment concerns
-   - Context: Financial disputes, refund requests, charge issues
+export interface IncomingEmail {
+  fromEmail: string;
+  toEmail: string;
+  subject: string;
+  body: string;
+  messageId?: string;
+  // Present when the email came in raw (processRawEmail)
+  fromName?: string;              // Sender display name
+  html?: string;
+  inReplyTo?: string;
+  references?: string[];
+  autoSubmitted?: string;         // Machine-generated (out-of-office, bounce, bulk) - never auto-replied to
+  attachments?: Array<{ filename?: string; contentType: string; size: number }>;
+}
 
-3. **order_cancellation**
-   - Intent: Customer wants to stop an order before it ships
-   - Context: Prevent shipment, cancel before processing
+/**
+ * How one request in a multi-intent email will be handled
+ */
+export interface IntentPlanStep {
+  intent: string;
+  confidence: number;
+  summary?: string;
+  entities: DetectedIntent['entities'];
+  action: 'automate' | 'escalate';
+  ruleId?: string;
+  ruleName?: string;
+  reason?: string;
+}
 
-4. **return_request**
-   - Intent: Customer wants to exchange or return a received product
-   - Context: Product exchanges, returns (not necessarily for refund)
+export type AutomationRoute = 'auto' | 'approval' | 'escalate';
+
+/**
+ * Where an email would go, decided without touching storage or the customer
+ */
+export interface RoutePreview {
+  route: AutomationRoute;
+  reason: string;
+  rule?: any;                     // Rule for the primary intent
+  matches: RuleMatchResult[];     // One per intent, empty when escalated before rule matching
+  plan?: IntentPlanStep[];        // Multi-intent emails only
+  steps?: IntentRuleStep[];       // Multi-intent emails that can be automated: the rule for each request
+  priorityOverride?: Pick<ClassificationResult, 'priority' | 'priorityReasoning'>; // Escalation priority when it differs from the classifier's
+}
 
-5. **subscription_changes**
-   - Intent: Customer wants to modify their ongoing subscription
-   - Context: Pause, resume, change contents, modify schedule
+export interface ProposedResponse {
+  response: string;
+  adjustedConfidence: number;
+  citations: Citation[];
+  factCheck?: FactualConsistencyResult;   // Absent for the static escalation notice
+  actionLint?: DraftLintResult;
+  responseContext?: any;
+  empathyLevel?: number;
+}
 
-6. **cancellation_requests**
-   - Intent: Customer wants to end their subscription/account permanently
-   - Context: Terminate service, close account
+// Intents whose immediate path runs a workflow that sends its own customer email
+const WORKFLOW_INTENTS = ['promo_refund', 'order_cancellation', 'address_change'];
 
-7. **payment_issues**
-   - Intent: Customer has problems with payment processing
-   - Context: Failed payments, payment method issues
+/**
+ * One request of a multi-intent email with the rule that answers it
+ */
+export interface IntentRuleStep {
+  intent: DetectedIntent;
+  rule: any;
+}
 
-8. **address_change**
-   - Intent: Customer wants to change shipping address
-   - Context: Update delivery location
+class AutoResponderService {
 
-9. **product**
-   - Intent: Customer has questions about product features or specifications
-   - Context: Product information, compatibility, usage
+  /**
+   * Classify incoming email using OpenAI with hallucination prevention.
+   * path forces one classifier (evaluation); by default tenants get the grounded classifier.
+   */
+  async classifyEmail(
+    emailContent: string,
+    subject: string,
+    userId?: string,
+    options: { path?: ClassifierPath; analysis?: EmailAnalysisContext } = {}
+  ): Promise<ClassificationResult> {
+    const path = options.path || (userId ? 'grounded' : 'direct');
+    try {
+      const taxonomy = await intentTaxonomyService.getTaxonomy(userId);
+      const prompt = `
+You are an expert customer service AI that understands customer intent, not just keywords. Analyze the underlying meaning and context of this email.
 
-10. **escalation**
-    - Intent: Customer is frustrated, threatening, or has complex multi-issue problems
-    - Context: Complaints, legal threats, multiple failed attempts
+CUSTOMER INTENT CATEGORIES:
 
-11. **general**
-    - Intent: Simple questions, compliments, basic inquiries
-    - Context: Only use if no specific intent is clear
+${taxonomy.promptCategories('detailed')}
 
 PRIORITY ASSESSMENT:
 - **urgent**: Events tomorrow, damaged goods, safety issues
@@ -98,6 +155,8 @@ ANALYSIS INSTRUCTIONS:
 4. Assign appropriate priority based on urgency and customer sentiment
 5. Be confident in your assessment - modern AI should easily understand customer intent
 
+${MULTI_INTENT_INSTRUCTIONS}
+
 Email Subject: ${subject}
 Email Content: ${emailContent}
 
@@ -107,46 +166,65 @@ Respond with JSON:
   "confidence": 85,
   "reasoning": "Brief explanation of the customer's intent and why this classification matches",
   "priority": "urgent|high|medium|low", 
-  "priorityReasoning": "Why this priority level was assigned based on urgency and customer sentiment"
+  "priorityReasoning": "Why this priority level was assigned based on urgency and customer sentiment",
+  ${INTENTS_JSON_EXAMPLE}
 }
       `;
 
       // UPGRADED: Use vector embeddings with hallucination prevention
-      if (userId) {
+      if (userId && path === 'grounded') {
         console.log('[AUTO_RESPONDER] Using enhanced classification with vector embeddings');
         const groundedResult = await hallucinationPreventionService.classifyWithGrounding(
           userId,
           emailContent,
-          subject
+          subject,
+          options.analysis
         );
         
         return {
           classification: groundedResult.classification,
           confidence: groundedResult.confidence,
+          rawConfidence: groundedResult.rawConfidence,
+          calibrationHoldout: groundedResult.calibrationHoldout,
           reasoning: `Vector-enhanced: ${groundedResult.reasoning}`,
           priority: groundedResult.priority,
-          priorityReasoning: groundedResult.priorityReasoning
+          priorityReasoning: groundedResult.priorityReasoning,
+          intents: groundedResult.intents
         };
       }
 
-      // Fallback for users without training data
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      // Direct prompt: no tenant context, or forced for evaluation
+      const llm = await llmProviderService.getProvider(userId);
+      const responseContent = await llm.createChatCompletion({
         messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
+        jsonResponse: true,
         temperature: 0.3,
       });
 
-      const result = JSON.parse(response.choices[0].message.content || '{}');
+      const result = JSON.parse(responseContent || '{}');
+      const classification = taxonomy.canonicalName(result.classification || 'general');
+      const calibrated = await confidenceCalibrationService.calibrate(userId, classification, result.confidence || 50);
       
       return {
-        classification: result.classification || 'general',
-        confidence: Math.max(0, Math.min(100, result.confidence || 50)),
+        classification,
+        confidence: calibrated.confidence,
+        rawConfidence: calibrated.rawConfidence,
+        calibrationHoldout: calibrated.holdout,
         reasoning: result.reasoning || 'AI classification result',
         priority: result.priority || 'medium',
-        priorityReasoning: result.priorityReasoning || 'Standard priority assignment'
+        priorityReasoning: result.priorityReasoning || 'Standard priority assignment',
+        intents: await confidenceCalibrationService.calibrateIntents(userId, intentExtractionService.normalizeIntents(
+          result.intents,
+          classification,
+          calibrated.rawConfidence,
+          name => taxonomy.canonicalName(name)
+        ))
       };
     } catch (error) {
+      // Outage: defer the email rather than route it on a made-up 'general' label
+      if (isProviderUnavailable(error)) {
+        throw error;
+      }
       console.error('Email classification error:', error);
       return {
         classification: 'general',
@@ -161,37 +239,276 @@ Respond with JSON:
   /**
    * Find matching auto-responder rule for classification
    */
-  async findMatchingRule(userId: string, classification: string, confidence: number) {
-    const rules = await storage.getAutoResponderRules(userId);
-    
-    // Find exact classification match first
-    let matchingRule = rules.find((rule: any) => 
-      rule.classification === classification && 
-      rule.isActive
-    );
+  async findMatchingRule(userId: string, classification: string, confidence: number, context: Partial<RuleEvaluationContext> = {}) {
+    const result = await this.matchRule(userId, { ...context, classification, confidence });
+    return result.rule || undefined;
+  }
 
-    // If no exact match and confidence is low, try general fallback
-    if (!matchingRule && confidence < 70) {
-      matchingRule = rules.find((rule: any) => 
-        rule.classification === 'general' && 
-        rule.isActive
-      );
+  /**
+   * Evaluate the tenant's rules by precedence and conditions, with a trace of why each
+   * rule matched or was skipped
+   */
+  async matchRule(userId: string, context: RuleEvaluationContext, rules?: any[]): Promise<RuleMatchResult> {
+    const result = await ruleEngine.evaluate(rules || await storage.getAutoResponderRules(userId), context);
+
+    console.log(`[AUTO_RESPONDER] Rule evaluation for ${context.classification} (${context.confidence}%):\n${result.explanation}`);
+    return result;
+  }
+
+  /**
+   * Reason to escalate on sentiment alone, or null when the sentiment is not negative enough
+   */
+  getSentimentEscalationReason(sentimentResult: any): string | null {
+    if (!sentimentResult || sentimentResult.sentiment !== 'NEGATIVE') return null;
+
+    const negativeScore = sentimentResult.scores?.negative || 0;
+    const sentimentConfidence = sentimentResult.confidence || 0;
+
+    if (negativeScore > 75 && sentimentConfidence > 90) {
+      return `Very angry customer detected (${negativeScore}% negative sentiment with ${sentimentConfidence}% confidence)`;
     }
+    if (negativeScore > 85 && sentimentConfidence > 80) {
+      return `Highly frustrated customer detected (${negativeScore}% negative sentiment)`;
+    }
+    return null;
+  }
+
+  /**
+   * Rule context for an incoming email. Order value and customer tier are looked up
+   * only if a rule asks for them.
+   */
+  async buildRuleContext(
+    userId: string,
+    emailData: IncomingEmail,
+    classification: ClassificationResult,
+    sentiment?: RuleEvaluationContext['sentiment'],
+    analysis?: EmailAnalysisContext
+  ): Promise<Omit<RuleEvaluationContext, 'classification' | 'confidence'>> {
+    const settings = await storage.getSystemSettings(userId);
+    const orderNumber = analysis ? analysis.entities.orderNumber : extractOrderNumber(emailData.body);
 
-    return matchingRule;
+    return {
+      priority: classification.priority,
+      fromEmail: emailData.fromEmail,
+      subject: emailData.subject,
+      body: emailData.body,
+      sentiment,
+      timezone: settings?.timezone,
+      loadOrderValue: async () => {
+        if (!orderNumber) return undefined;
+        const { orderLookupService } = await import('./order-lookup');
+        const order = await orderLookupService.lookupOrder(orderNumber, userId);
+        const total = order?.success ? parseFloat(order.total) : NaN;
+        return Number.isFinite(total) ? total : undefined;
+      },
+      loadCustomerTier: async () => {
+        const { orderLookupService } = await import('./order-lookup');
+        return (await orderLookupService.isRepeatCustomer(emailData.fromEmail, userId)) ? 'repeat' : 'new';
+      }
+    };
+  }
+
+  /**
+   * Decide where an email goes without side effects. routeEmail acts on this decision, and
+   * shadow mode and the rule simulator report it. Draft checks (fact check, action linter)
+   * can still turn an automated route into an escalation.
+   */
+  async previewRoute(
+    userId: string,
+    emailData: Pick<IncomingEmail, 'fromEmail' | 'toEmail' | 'subject' | 'body' | 'autoSubmitted'>,
+    classification: ClassificationResult,
+    sentimentResult?: any,
+    rules?: any[],
+    analysis?: EmailAnalysisContext
+  ): Promise<RoutePreview> {
+    // RFC 3834: replying to out-of-office notices, bounces or bulk mail starts reply loops
+    if (emailData.autoSubmitted) {
+      return {
+        route: 'escalate',
+        reason: `Automated message (${emailData.autoSubmitted}) - not auto-responding`,
+        matches: [],
+        priorityOverride: { priority: 'low', priorityReasoning: 'Automated message' }
+      };
+    }
+
+    // Negative sentiment, an escalation classification or low confidence go straight to a human
+    const sentimentReason = this.getSentimentEscalationReason(sentimentResult);
+    if (sentimentReason) {
+      return {
+        route: 'escalate',
+        reason: `Negative sentiment detected - ${sentimentReason}`,
+        matches: [],
+        priorityOverride: {
+          priority: sentimentReason.includes('Very angry') ? 'urgent' : 'high',
+          priorityReasoning: `Escalated due to negative sentiment: ${sentimentReason}`
+        }
+      };
+    }
+    if (classification.classification === 'escalation') {
+      return { route: 'escalate', reason: 'Complex inquiry requiring human review', matches: [] };
+    }
+    if (classification.confidence < 60 && !classification.calibrationHoldout) {
+      return { route: 'escalate', reason: `Low confidence classification (${classification.confidence}%)`, matches: [] };
+    }
+
+    const settings = await storage.getSystemSettings(userId);
+    const automatedRoute: AutomationRoute = (settings?.automationApprovalRequired ?? true) || classification.calibrationHoldout ? 'approval' : 'auto';
+    const ruleContext = await this.buildRuleContext(userId, emailData, classification, sentimentResult, analysis);
+
+    // Several requests in one email: one rule per request, answered by a single reply
+    if (classification.intents && classification.intents.length > 1) {
+      return this.previewMultiIntentRoute(userId, classification.intents, ruleContext, automatedRoute, rules);
+    }
+
+    const match = await this.matchRule(userId, {
+      ...ruleContext,
+      classification: classification.classification,
+      confidence: classification.confidence
+    }, rules);
+
+    if (!match.rule) {
+      return { route: 'escalate', reason: `No matching auto-responder rule\n${match.explanation}`, matches: [match] };
+    }
+
+    return {
+      route: automatedRoute,
+      reason: match.explanation.split('\n').find(line => line.startsWith('MATCH')) || 'Rule matched',
+      rule: match.rule,
+      matches: [match]
+    };
+  }
+
+  /**
+   * Multi-intent emails need an exact rule for every request. If any request cannot be
+   * automated - including requests after a rule that stops processing - the whole email is
+   * escalated with the plan so nothing is silently dropped.
+   */
+  private async previewMultiIntentRoute(
+    userId: string,
+    intents: DetectedIntent[],
+    ruleContext: Omit<RuleEvaluationContext, 'classification' | 'confidence'>,
+    automatedRoute: AutomationRoute,
+    rules?: any[]
+  ): Promise<RoutePreview> {
+    const matches: RuleMatchResult[] = [];
+    const plan: IntentPlanStep[] = [];
+    const steps: IntentRuleStep[] = [];
+
+    let stoppedBy: any = null;
+
+    for (const intent of intents) {
+      const match = stoppedBy
+        ? ruleEngine.stoppedBy(stoppedBy)
+        : await this.matchRule(userId, { ...ruleContext, classification: intent.intent, confidence: intent.confidence }, rules);
+      // Exact rule matches only - a generic fallback reply would drop the request
+      const rule = intent.intent !== 'escalation' && match.rule?.classification === intent.intent ? match.rule : undefined;
+      const reason = stoppedBy
+        ? `Rule "${stoppedBy.name}" stops processing`
+        : !rule
+          ? (intent.intent === 'escalation' ? 'Needs human attention' : 'No matching auto-responder rule')
+          : intent.confidence < 60 ? `Low confidence (${intent.confidence}%)` : undefined;
+      if (rule && match.stopProcessing) {
+        stoppedBy = rule;
+      }
+
+      matches.push(match);
+      steps.push({ intent, rule });
+      plan.push({
+        intent: intent.intent,
+        confidence: intent.confidence,
+        summary: intent.summary,
+        entities: intent.entities,
+        action: reason ? 'escalate' : 'automate',
+        ruleId: rule?.id,
+        ruleName: rule?.name,
+        reason
+      });
+    }
+
+    const base = { rule: matches[0].rule || undefined, matches, plan };
+    const unhandled = plan.filter(step => step.action === 'escalate');
+    if (unhandled.length > 0) {
+      return {
+        ...base,
+        route: 'escalate',
+        reason: `Email contains ${plan.length} requests, ${unhandled.length} need a human. Plan: ${this.describeIntentPlan(plan)}`
+      };
+    }
+
+    // Immediate sends: a workflow intent sends its own customer email alongside the combined reply
+    const workflowStep = automatedRoute === 'auto' ? steps.find(step => WORKFLOW_INTENTS.includes(step.intent.intent)) : undefined;
+    if (workflowStep) {
+      return {
+        ...base,
+        route: 'escalate',
+        reason: `Email contains ${plan.length} requests and ${workflowStep.intent.intent} runs its own workflow - a human should coordinate one reply. Plan: ${this.describeIntentPlan(plan)}`
+      };
+    }
+
+    return { ...base, route: automatedRoute, reason: 'All requests matched rules', steps };
+  }
+
+  /**
+   * Entry point for a full RFC 5322 / MIME message (webhook raw payload, IMAP fetch, .eml)
+   */
+  async processRawEmail(userId: string, raw: string | Buffer): Promise<ProcessedEmail> {
+    const parsed = mimeParser.parse(raw);
+    console.log(`[AUTO_RESPONDER] Parsed raw email ${parsed.messageId || '(no Message-ID)'}: ${parsed.attachments.length} attachments${parsed.autoSubmitted ? `, auto-submitted (${parsed.autoSubmitted})` : ''}`);
+    return this.processIncomingEmail(userId, mimeParser.toIncomingEmail(parsed));
   }
 
   /**
    * Process incoming email with auto-responder logic
    */
-  async processIncomingEmail(userId: string, emailData: {
-    fromEmail: string;
-    toEmail: string;
-    subject: string;
-    body: string;
-    messageId?: string;
-  }): Promise<ProcessedEmail> {
-    
+  async processIncomingEmail(userId: string, emailData: IncomingEmail): Promise<ProcessedEmail> {
+    // A webhook retry or mailbox re-sync gets the original outcome, not a second reply or escalation
+    const stored = await emailDedupService.withLock(userId, emailData, async () => {
+      const existing = await emailDedupService.findExisting(userId, emailData);
+      if (!existing) {
+        return { email: await this.storeIncomingEmail(userId, emailData) };
+      }
+      // The delivery that stored it crashed mid-pipeline - finish it instead of echoing a missing result
+      return await emailDedupService.isStalled(existing)
+        ? { duplicate: await emailDedupService.requeueStalled(userId, existing, emailData) }
+        : { duplicate: await emailDedupService.recordDuplicate(userId, existing, emailData, 'inline') };
+    });
+    if (stored.duplicate) {
+      return stored.duplicate;
+    }
+    const email = stored.email;
+
+    // Sentiment and retrieval don't depend on each other or on classification - start both now
+    const analysis = emailAnalysisService.createContext(userId, emailData).prefetch();
+
+    let checkpoint: JobCheckpoint = { emailId: email.id };
+    try {
+      const classified = await this.classifyIncomingEmail(userId, email, emailData, analysis);
+      const { classification, sentimentResult } = classified;
+      checkpoint = { ...checkpoint, classification, sentiment: sentimentResult };
+      return await this.routeIncomingEmail(userId, classified.email, emailData, classification, sentimentResult, analysis);
+    } catch (error) {
+      if (!isProviderUnavailable(error)) {
+        throw error;
+      }
+      // Provider outage: hand the email to the queue to finish once the breaker closes
+      const { emailJobQueue } = await import('./email-job-queue');
+      const stage = checkpoint.classification ? 'route' : 'classify';
+      await emailJobQueue.defer(userId, emailData, checkpoint, stage, error.retryAt);
+      return {
+        id: email.id,
+        classification: checkpoint.classification?.classification || 'unclassified',
+        confidence: checkpoint.classification?.confidence || 0,
+        autoResponseSent: false,
+        escalated: false,
+        deferred: true
+      };
+    }
+  }
+
+  /**
+   * Pipeline stage 1: store the email and link it to its thread
+   */
+  async storeIncomingEmail(userId: string, emailData: IncomingEmail, metadata: Record<string, any> = {}): Promise<any> {
     // Store the email in database
     const email = await storage.createEmail({
       userId,
@@ -201,102 +518,187 @@ Respond with JSON:
       body: emailData.body,
       status: 'processing',
       metadata: {
+        ...metadata,
         messageId: emailData.messageId,
-        receivedAt: new Date().toISOString()
+        dedupKey: emailDedupService.dedupKey(emailData).key,
+        receivedAt: new Date().toISOString(),
+        fromName: emailData.fromName,
+        html: emailData.html,
+        inReplyTo: emailData.inReplyTo,
+        references: emailData.references,
+        autoSubmitted: emailData.autoSubmitted,
+        attachments: emailData.attachments
       }
     });
+    await emailDedupService.recordStored(userId, emailData, email.id, metadata.jobId ?? null);
 
-    // CRITICAL: Link email to thread for conversation context
+    // CRITICAL: Link email to thread for conversation context. The reply headers identify the
+    // thread exactly; subject and addresses are the fallback for mail without them.
     try {
       const { ThreadContextService } = await import('./thread-context');
       await ThreadContextService.linkEmailToThread(
         email.id,
         emailData.subject,
         emailData.fromEmail,
-        emailData.toEmail
+        emailData.toEmail,
+        {
+          messageId: emailData.messageId,
+          inReplyTo: emailData.inReplyTo,
+          references: emailData.references
+        }
       );
     } catch (error) {
       console.error('Failed to link email to thread:', error);
       // Continue processing - thread linking is not critical for basic functionality
     }
 
-    // Classify the email with hallucination prevention
-    const classification = await this.classifyEmail(emailData.body, emailData.subject, userId);
+    return email;
+  }
+
+  /**
+   * Pipeline stage 2: classify the email and analyze its sentiment. Returns the email as stored
+   * with the classification, for later stages that write its metadata.
+   */
+  async classifyIncomingEmail(
+    userId: string,
+    email: any,
+    emailData: IncomingEmail,
+    analysis: EmailAnalysisContext = emailAnalysisService.createContext(userId, emailData).prefetch()
+  ): Promise<{ email: any; classification: ClassificationResult; sentimentResult: any }> {
+    analysis.threadContext();
+
+    // Classify the email with hallucination prevention (reads the prefetched retrieval)
+    const classification = await this.classifyEmail(emailData.body, emailData.subject, userId, { analysis });
     
-    // SENTIMENT ANALYSIS - Check for negative sentiment that needs immediate escalation
-    let sentimentEscalation = false;
-    let sentimentReason = '';
+    let sentimentResult: any = null;
     try {
-      const { sentimentAnalysisService } = await import('./sentiment-analysis');
-      const sentimentResult = await sentimentAnalysisService.analyzeSentiment(emailData.body);
-      
-      // Escalate highly negative sentiment emails immediately
-      if (sentimentResult.sentiment === 'NEGATIVE') {
-        const negativeScore = sentimentResult.scores.negative || 0;
-        const sentimentConfidence = sentimentResult.confidence || 0;
-        
-        if (negativeScore > 75 && sentimentConfidence > 90) {
-          sentimentEscalation = true;
-          sentimentReason = `Very angry customer detected (${negativeScore}% negative sentiment with ${sentimentConfidence}% confidence)`;
-        } else if (negativeScore > 85 && sentimentConfidence > 80) {
-          sentimentEscalation = true;
-          sentimentReason = `Highly frustrated customer detected (${negativeScore}% negative sentiment)`;
-        }
-      }
-      
+      sentimentResult = await analysis.sentiment();
       console.log(`[AUTO_RESPONDER] Sentiment analysis: ${sentimentResult.sentiment} (${sentimentResult.confidence}% confidence)`);
-      if (sentimentEscalation) {
-        console.log(`[AUTO_RESPONDER] Sentiment escalation triggered: ${sentimentReason}`);
-      }
     } catch (sentimentError) {
       console.warn('[AUTO_RESPONDER] Sentiment analysis failed:', sentimentError);
       // Continue without sentiment analysis if it fails
     }
     
     // Update email with classification
-    await storage.updateEmail(email.id, {
+    const updates = {
       classification: classification.classification,
       confidence: classification.confidence,
       metadata: {
         ...(email.metadata as any || {}),
-        classificationReasoning: classification.reasoning
+        classificationReasoning: classification.reasoning,
+        rawConfidence: classification.rawConfidence,
+        intents: classification.intents
       }
-    });
+    };
+    const updated = await storage.updateEmail(email.id, updates);
 
-    // Check if should escalate based on confidence, classification, or negative sentiment
-    if (classification.confidence < 60 || classification.classification === 'escalation' || sentimentEscalation) {
-      const escalationReason = sentimentEscalation 
-        ? `Negative sentiment detected - ${sentimentReason}`
-        : undefined;
-      
-      // Override priority for sentiment-based escalations
-      let escalationClassification = classification;
-      if (sentimentEscalation) {
-        escalationClassification = {
-          ...classification,
-          priority: sentimentReason.includes('Very angry') ? 'urgent' : 'high',
-          priorityReasoning: `Escalated due to negative sentiment: ${sentimentReason}`
-        };
-      }
-      
-      return await this.escalateEmail(email.id, userId, escalationClassification, escalationReason);
+    return { email: updated || { ...email, ...updates }, classification, sentimentResult };
+  }
+
+  /**
+   * Pipeline stage 3: escalate, queue for approval or respond. The result is kept under the
+   * email's dedup key so duplicate deliveries can be answered with it.
+   */
+  async routeIncomingEmail(
+    userId: string,
+    email: any,
+    emailData: IncomingEmail,
+    classification: ClassificationResult,
+    sentimentResult: any,
+    analysis: EmailAnalysisContext = emailAnalysisService.createContext(userId, emailData)
+  ): Promise<ProcessedEmail> {
+    const result = await this.routeEmail(userId, email, emailData, classification, sentimentResult, analysis);
+    await emailDedupService.recordResult(userId, email, result)
+      .catch(error => console.warn('[AUTO_RESPONDER] Failed to record processing result:', error));
+    return result;
+  }
+
+  private async routeEmail(
+    userId: string,
+    email: any,
+    emailData: IncomingEmail,
+    classification: ClassificationResult,
+    sentimentResult: any,
+    analysis: EmailAnalysisContext
+  ): Promise<ProcessedEmail> {
+    // Shadow mode: decide and draft alongside the human agents, but leave the email to them
+    const { shadowModeService } = await import('./shadow-mode');
+    if (await shadowModeService.isEnabled(userId)) {
+      return await shadowModeService.shadowProcess(email, userId, emailData, classification, sentimentResult, analysis);
     }
 
-    // Find matching auto-responder rule
-    const rule = await this.findMatchingRule(userId, classification.classification, classification.confidence);
-    
-    if (!rule) {
-      // No rule found, escalate
-      return await this.escalateEmail(email.id, userId, classification, 'No matching auto-responder rule');
+    const preview = await this.previewRoute(userId, emailData, classification, sentimentResult || undefined, undefined, analysis);
+
+    if (preview.plan) {
+      email = {
+        ...email,
+        metadata: { ...(email.metadata as any || {}), intentPlan: preview.plan }
+      };
+      await storage.updateEmail(email.id, { metadata: email.metadata });
+      console.log(`[AUTO_RESPONDER] Multi-intent email (${preview.plan.length} requests): ${this.describeIntentPlan(preview.plan)}`);
+    }
+
+    if (preview.route === 'escalate') {
+      console.log(`[AUTO_RESPONDER] Escalating ${email.id}: ${preview.reason.split('\n')[0]}`);
+      return await this.escalateEmail(email.id, userId, { ...classification, ...preview.priorityOverride }, preview.reason);
     }
 
+    // One reply covers every request - separate replies would each answer the whole email
+    const result = await this.executeRule(email, userId, emailData, classification, preview.rule, analysis, preview.steps);
+    console.log(`[AUTO_RESPONDER] Analysis timings for ${email.id}: ${JSON.stringify(analysis.timings)}`);
+
+    if (!preview.steps) {
+      return result;
+    }
+    return {
+      ...result,
+      intents: preview.steps.map(step => ({
+        intent: step.intent.intent,
+        ruleUsed: step.rule.name,
+        autoResponseSent: result.autoResponseSent,
+        escalated: result.escalated,
+        awaitingApproval: result.awaitingApproval
+      }))
+    };
+  }
+
+  private describeIntentPlan(plan: IntentPlanStep[]): string {
+    return plan
+      .map(step => `${step.intent} (${step.confidence}%) -> ${step.action === 'automate' ? `rule "${step.ruleName}"` : `human: ${step.reason}`}`)
+      .join('; ');
+  }
+
+  /**
+   * Run the matched rule: queue for approval or execute immediately. steps is set for
+   * multi-intent emails, whose one draft answers every request.
+   */
+  private async executeRule(
+    email: any,
+    userId: string,
+    emailData: IncomingEmail,
+    classification: ClassificationResult,
+    rule: any,
+    analysis?: EmailAnalysisContext,
+    steps?: IntentRuleStep[]
+  ): Promise<ProcessedEmail> {
     // Check if approval is required
     const settings = await storage.getSystemSettings(userId);
-    const approvalRequired = settings?.automationApprovalRequired ?? true; // Default to requiring approval
+    // Default to requiring approval; calibration holdouts are always reviewed
+    const approvalRequired = (settings?.automationApprovalRequired ?? true) || !!classification.calibrationHoldout;
+    const rulesUsed = steps ? steps.map(step => step.rule) : [rule];
+    const ruleNames = rulesUsed.map(r => r.name).join(', ');
 
     if (approvalRequired) {
       // Create approval queue item instead of executing immediately
-      const responseData = await this.generateProposedResponse(rule, emailData, userId);
+      const responseData = await this.generateProposedResponse(rule, emailData, userId, undefined, { analysis, steps });
+
+      // Drafts with unsupported identifiers or amounts never reach reviewers as-is
+      if (responseData.factCheck?.verdict === 'block') {
+        return await this.escalateEmail(email.id, userId, classification, `Draft failed factual consistency check: ${responseData.factCheck.summary}`);
+      }
+      if (responseData.actionLint?.verdict === 'rejected') {
+        return await this.escalateEmail(email.id, userId, classification, 'Draft claims actions were completed before approval');
+      }
       
       await storage.createAutomationApprovalItem({
         userId,
@@ -315,12 +717,23 @@ Respond with JSON:
           priority: classification.priority,
           priorityReasoning: classification.priorityReasoning,
           originalConfidence: classification.confidence,
+          rawConfidence: classification.rawConfidence,
+          calibrationHoldout: classification.calibrationHoldout,
           sentimentAdjustedConfidence: responseData.adjustedConfidence,
+          // Knowledge chunks behind each claim in the proposed response, for reviewers
+          citations: responseData.citations,
+          factCheck: responseData.factCheck,
+          actionClaimRewrites: responseData.actionLint?.violations,
+          // Set when the email had several requests - the draft answers all of them
+          intents: steps?.map(step => step.intent),
+          ruleIds: steps?.map(step => step.rule.id),
+          // Edit rates are reported per empathy level
+          empathyLevel: responseData.empathyLevel,
           // Include real data for UI display
-          orderData: responseContext.orderData,
-          cancellationData: responseContext.cancellationData,
-          promoRefundData: responseContext.promoRefundData,
-          productData: responseContext.productData
+          orderData: responseData.responseContext?.orderData,
+          cancellationData: responseData.responseContext?.cancellationData,
+          promoRefundData: responseData.responseContext?.promoRefundData,
+          productData: responseData.responseContext?.productData
         }
       });
 
@@ -341,13 +754,14 @@ Respond with JSON:
         type: 'email_processed',
         executedBy: 'ai',
         customerEmail: emailData.fromEmail,
-        details: `AI classified email as ${classification.classification} and queued automation for approval`,
+        details: `AI classified email as ${classification.classification} and queued automation for approval${responseData.factCheck?.verdict === 'flag' ? ` (fact check flagged: ${responseData.factCheck.summary})` : ''}`,
         status: 'pending',
         metadata: {
           ruleId: rule.id,
-          ruleName: rule.name,
+          ruleName: ruleNames,
           classification: classification.classification,
-          confidence: classification.confidence
+          confidence: classification.confidence,
+          citations: responseCitationService.summarizeCitations(responseData.citations)
         }
       });
 
@@ -358,12 +772,13 @@ Respond with JSON:
         autoResponseSent: false,
         escalated: false,
         awaitingApproval: true,
-        ruleUsed: rule.name
+        ruleUsed: ruleNames
       };
     }
 
     // Execute automation immediately (approval not required)
     let responseSuccess = false;
+    let responseCitations: Citation[] = [];
     if (classification.classification === 'promo_refund') {
       // First try the enhanced promo refund service for sophisticated code handling
       const { enhancedPromoRefundService } = await import('./enhanced-promo-refund');
@@ -412,18 +827,42 @@ Respond with JSON:
     } else {
       // Send empathetic auto-response (using revolutionary empathetic generator)
       console.log('[AUTO_RESPONDER] Non-approval flow - using empathetic generator for immediate response');
-      const responseData = await this.generateProposedResponse(rule, emailData, userId);
+      const responseData = await this.generateProposedResponse(rule, emailData, userId, undefined, { analysis, steps });
+      responseCitations = responseData.citations;
+
+      // Nobody reviews immediate sends, so flagged drafts are escalated too
+      if (responseData.factCheck && responseData.factCheck.verdict !== 'pass') {
+        return await this.escalateEmail(email.id, userId, classification, `Draft failed factual consistency check: ${responseData.factCheck.summary}`);
+      }
+
+      // Lint the exact text being sent (covers the fallback response too)
+      const sendLint = draftActionLinter.lint(responseData.response);
+      if (sendLint.verdict === 'rejected') {
+        return await this.escalateEmail(email.id, userId, classification, 'Draft claims actions were completed before they were executed');
+      }
       
       // Send the empathetic response immediately
-      responseSuccess = await this.sendEmpathicAutoResponse(userId, emailData.fromEmail, responseData.response, emailData.subject);
+      try {
+        responseSuccess = await this.sendEmpathicAutoResponse(userId, emailData.fromEmail, sendLint.text, emailData.subject);
+      } catch (error) {
+        if (!isOutcomeUnknown(error)) {
+          throw error;
+        }
+        // Retrying could reply twice - a human checks the mailbox before answering
+        console.error(`[AUTO_RESPONDER] Send outcome unknown for email ${email.id}: ${error.message}`);
+        await storage.updateEmail(email.id, { metadata: { ...(email.metadata as any || {}), sendOutcome: 'unknown' } });
+        return await this.escalateEmail(email.id, userId, classification, 'Auto-reply send failed partway and may already have been delivered - check the sent folder before replying');
+      }
     }
     
     if (responseSuccess) {
       // Update rule usage statistics
-      await storage.updateAutoResponderRule(rule.id, {
-        triggerCount: (rule.triggerCount || 0) + 1,
-        lastTriggered: new Date()
-      });
+      for (const used of rulesUsed) {
+        await storage.updateAutoResponderRule(used.id, {
+          triggerCount: (used.triggerCount || 0) + 1,
+          lastTriggered: new Date()
+        });
+      }
 
       // Update email status
       await storage.updateEmail(email.id, {
@@ -440,13 +879,14 @@ Respond with JSON:
         type: 'email_processed',
         executedBy: 'ai',
         customerEmail: emailData.fromEmail,
-        details: `AI automatically sent ${classification.classification} response using rule: ${rule.name}`,
+        details: `AI automatically sent ${classification.classification} response using rule: ${ruleNames}`,
         status: 'completed',
         metadata: {
           ruleId: rule.id,
-          ruleName: rule.name,
+          ruleName: ruleNames,
           classification: classification.classification,
-          confidence: classification.confidence
+          confidence: classification.confidence,
+          citations: responseCitationService.summarizeCitations(responseCitations)
         }
       });
 
@@ -456,7 +896,7 @@ Respond with JSON:
         confidence: classification.confidence,
         autoResponseSent: true,
         escalated: false,
-        ruleUsed: rule.name
+        ruleUsed: ruleNames
       };
     } else {
       // Failed to send response, escalate
@@ -468,7 +908,13 @@ Respond with JSON:
    * Generate empathetic proposed response for approval queue
    * REVOLUTIONARY: Uses dynamic emotional intelligence instead of rigid templates
    */
-  async generateProposedResponse(rule: any, emailData: { subject: string; body: string; fromEmail: string }, userId: string): Promise<{ response: string; adjustedConfidence: number }> {
+  async generateProposedResponse(
+    rule: any,
+    emailData: { subject: string; body: string; fromEmail: string; fromName?: string; messageId?: string },
+    userId: string,
+    intent?: DetectedIntent,
+    options: { dryRun?: boolean; analysis?: EmailAnalysisContext; steps?: IntentRuleStep[] } = {}
+  ): Promise<ProposedResponse> {
     console.log('[AUTO_RESPONDER] generateProposedResponse called for classification:', rule?.classification);
     
     // Using the revolutionary empathetic response generator (now imported at top)
@@ -476,7 +922,7 @@ Respond with JSON:
     
     try {
       // Extract order number if present
-      const orderNumber = this.extractOrderNumber(emailData.body);
+      const orderNumber = intent?.entities.orderNumbers?.[0] || (options.analysis ? options.analysis.entities.orderNumber : extractOrderNumber(emailData.body));
       
       // Get company name and empathy level from settings
       const settings = await storage.getSystemSettings(userId);
@@ -484,18 +930,20 @@ Respond with JSON:
       const empathyLevel = settings?.empathyLevel || 3; // Default to level 3
       
       // Define context based on classification - now with real order data fetching
-      const responseContext = await this.buildResponseContext(rule.classification, {
-        orderNumber,
-        companyName,
-        emailData,
-        rule,
-        userId
-      });
+      const responseContext = options.steps && options.steps.length > 1
+        ? await this.buildCombinedResponseContext(options.steps, { orderNumber, companyName, emailData, userId, analysis: options.analysis })
+        : await this.buildResponseContext(rule.classification, {
+          orderNumber,
+          companyName,
+          emailData,
+          rule,
+          userId,
+          intent,
+          analysis: options.analysis
+        });
       
       // Check if this is the first reply in the thread for loyal customer greeting
-      const { ThreadContextService } = await import('./thread-context');
-      const threadContext = emailData.messageId ? 
-        await ThreadContextService.getThreadContext(emailData.messageId) : null;
+      const threadContext = await (options.analysis || emailAnalysisService.createContext(userId, emailData)).threadContext();
       const isFirstReply = !threadContext || threadContext.emails.length <= 1;
       
       // Generate empathetic response using AI emotional intelligence with custom empathy level
@@ -507,24 +955,43 @@ Respond with JSON:
         responseContext,
         empathyLevel,
         emailData.fromEmail,
-        isFirstReply
+        isFirstReply,
+        { dryRun: options.dryRun, analysis: options.analysis }
       );
       
       // Get AI agent signature with personalized name and title
       const { aiAgentSignatureService } = await import('./ai-agent-signature');
       const aiSignature = await aiAgentSignatureService.generateAIAgentSignature(userId);
 
+      // Nothing has executed yet - rewrite "I have refunded..." claims to conditional language
+      const actionLint = draftActionLinter.lint(empatheticResponse.body);
+
       // Format as complete email with personalized AI agent signature
-      const fullResponse = `${empatheticResponse.body}
+      const fullResponse = `${actionLint.text}
 
 ${aiSignature}`;
 
+      // Verify amounts, identifiers, dates and policy terms against the data the draft was built from
+      const factCheck = factualConsistencyChecker.checkDraft(actionLint.text, {
+        responseContext,
+        chunks: empatheticResponse.sources,
+        customerEmail: `${emailData.subject}\n${emailData.body}`
+      });
+
       return {
         response: fullResponse,
-        adjustedConfidence: empatheticResponse.confidenceScore
+        adjustedConfidence: empatheticResponse.confidenceScore,
+        citations: empatheticResponse.citations,
+        factCheck,
+        actionLint,
+        responseContext,
+        empathyLevel
       };
       
     } catch (error) {
+      if (isProviderUnavailable(error)) {
+        throw error;
+      }
       console.error('[AUTO_RESPONDER] Empathetic response generation failed:', error);
       console.error('[AUTO_RESPONDER] Error details:', {
         message: error.message,
@@ -543,13 +1010,14 @@ ${aiSignature}`;
    * Build response context for empathetic generation with real order data
    */
   private async buildResponseContext(classification: string, data: any) {
+    const taxonomy = await intentTaxonomyService.getTaxonomy(data.userId);
     const baseContext = {
       classification,
-      customerName: data.emailData?.fromEmail ? data.emailData.fromEmail.split('@')[0] : 'Customer', // Extract name from email safely
+      customerName: data.emailData?.fromName?.split(/\s+/)[0] || (data.emailData?.fromEmail ? data.emailData.fromEmail.split('@')[0] : 'Customer'), // Display name, else extract from email safely
       orderNumber: data.orderNumber,
       companyName: data.companyName,
-      specificIssue: this.identifySpecificIssue(classification, data.emailData?.body || ''),
-      availableActions: this.getAvailableActions(classification, data.rule)
+      specificIssue: data.intent?.summary || taxonomy.specificIssue(classification),
+      availableActions: taxonomy.actions(classification)
     };
     
     // For order status inquiries, fetch real order data instead of using placeholders
@@ -636,10 +1104,9 @@ ${aiSignature}`;
       try {
         const { hallucinationPreventionService } = await import('./hallucination-prevention');
         const emailContent = data.emailData?.body || '';
-        const knowledgeBase = await hallucinationPreventionService.getRelevantKnowledge(
-          data.userId,
-          emailContent
-        );
+        const knowledgeBase = data.analysis
+          ? await data.analysis.knowledge()
+          : await hallucinationPreventionService.getRelevantKnowledge(data.userId, emailContent);
         
         if (knowledgeBase.hasTrainingData && knowledgeBase.relevantContent.length > 0) {
           baseContext.productData = {
@@ -678,65 +1145,34 @@ ${aiSignature}`;
   }
   
   /**
-   * Identify specific customer issue for empathetic response
+   * One context for a reply that answers several requests: the primary request's context,
+   * every request listed as the issue, and each request's order or refund data
    */
-  private identifySpecificIssue(classification: string, emailBody: string): string {
-    const issueMap: { [key: string]: string } = {
-      'order_status': 'Order delivery delay or tracking concerns',
-      'promo_refund': 'Promotional code or billing issue',
-      'return_request': 'Product return or exchange request',
-      'subscription_changes': 'Subscription billing or modification concern',
-      'order_cancellation': 'Request to cancel pending order',
-      'address_change': 'Shipping address update needed',
-      'product': 'Product information or compatibility question'
-    };
-    
-    return issueMap[classification] || 'General customer service inquiry';
-  }
-  
-  /**
-   * Get available actions for this classification
-   */
-  private getAvailableActions(classification: string, rule: any): string[] {
-    const actionMap: { [key: string]: string[] } = {
-      'order_status': ['Check tracking information', 'Provide delivery update', 'Offer expedited shipping'],
-      'promo_refund': ['Validate promo code', 'Process refund', 'Apply manual discount'],
-      'return_request': ['Generate return label', 'Process exchange', 'Initiate refund'],
-      'subscription_changes': ['Modify subscription', 'Update billing', 'Adjust delivery schedule'],
-      'order_cancellation': ['Cancel order if possible', 'Process refund', 'Stop shipment'],
-      'address_change': ['Update shipping address', 'Confirm new delivery location'],
-      'product': ['Provide product information', 'Check compatibility', 'Recommend alternatives']
-    };
-    
-    return actionMap[classification] || ['Provide customer assistance', 'Address customer concern'];
-  }
-  
-  /**
-   * Extract order number from email content
-   */
-  private extractOrderNumber(emailBody: string): string | null {
-    const orderPatterns = [
-      /order\s*#?\s*(\d+)/i,
-      /order\s*number\s*#?\s*(\d+)/i,
-      /#(\d{4,})/,
-      /\b(\d{4,6})\b/
-    ];
-    
-    for (const pattern of orderPatterns) {
-      const match = emailBody.match(pattern);
-      if (match) {
-        return match[1];
-      }
+  private async buildCombinedResponseContext(steps: IntentRuleStep[], data: any) {
+    const contexts: any[] = [];
+    for (const step of steps) {
+      contexts.push(await this.buildResponseContext(step.rule.classification, {
+        ...data,
+        orderNumber: step.intent.entities.orderNumbers?.[0] || data.orderNumber,
+        rule: step.rule,
+        intent: step.intent
+      }));
     }
-    
-    return null;
+
+    // Earlier (more important) requests win where two supply the same data
+    const combined = Object.assign({}, ...contexts.slice().reverse());
+    return {
+      ...combined,
+      specificIssue: `The customer has ${contexts.length} requests: ${contexts.map((c, i) => `(${i + 1}) ${c.specificIssue}`).join('; ')}`,
+      availableActions: Array.from(new Set(contexts.flatMap(c => c.availableActions || [])))
+    };
   }
-  
+
   /**
    * REMOVED: Legacy template system completely deleted per user requirements  
    * Generate low confidence response suggesting escalation to human
    */
-  private async generateLegacyResponse(rule: any, emailData: { subject: string; body: string; fromEmail: string }, userId: string): Promise<{ response: string; adjustedConfidence: number }> {
+  private async generateLegacyResponse(rule: any, emailData: { subject: string; body: string; fromEmail: string }, userId: string): Promise<ProposedResponse> {
     console.log('[AUTO_RESPONDER] Legacy fallback triggered - generating low confidence escalation response');
     
     // Generate simple escalation notice instead of placeholder templates
@@ -755,7 +1191,8 @@ This email was sent by a robot. We use AI to solve your problems as quickly as p
 
     return {
       response: escalationResponse,
-      adjustedConfidence: 15 // Very low confidence to ensure human review
+      adjustedConfidence: 15, // Very low confidence to ensure human review
+      citations: []
     };
   }
 
@@ -763,10 +1200,9 @@ This email was sent by a robot. We use AI to solve your problems as quickly as p
    * Calculate confidence score adjusted for customer sentiment
    * High negative sentiment reduces confidence, indicating need for human review
    */
-  private async calculateSentimentAwareConfidence(baseConfidence: number, emailData: { subject: string; body: string; fromEmail: string }, userId: string): Promise<number> {
+  private async calculateSentimentAwareConfidence(baseConfidence: number, emailData: { subject: string; body: string; fromEmail: string }, userId: string, analysis?: EmailAnalysisContext): Promise<number> {
     try {
-      const { sentimentAnalysisService } = await import('./sentiment-analysis');
-      const sentimentResult = await sentimentAnalysisService.analyzeSentiment(emailData.body);
+      const sentimentResult = await (analysis || emailAnalysisService.createContext(userId, emailData)).sentiment();
       
       let confidenceAdjustment = 0;
       const negativeScore = sentimentResult.scores.negative || 0;
@@ -841,7 +1277,7 @@ This email was sent by a robot. We use AI to solve your problems as quickly as p
         responseSubject = `Re: ${originalSubject}`;
       }
 
-      const success = await emailRoutingService.sendEmail(userId, {
+      const success = await this.sendViaMailbox(userId, {
         to: customerEmail,
         subject: responseSubject,
         html: responseContent,
@@ -849,6 +1285,11 @@ This email was sent by a robot. We use AI to solve your problems as quickly as p
 
       return success;
     } catch (error) {
+      // Mailbox outage: leave the email in processing so routing is retried, not escalated.
+      // A timed-out send may have gone out, so the caller decides what happens next.
+      if (isProviderUnavailable(error) || isOutcomeUnknown(error)) {
+        throw error;
+      }
       console.error('Empathetic auto-response sending error:', error);
       return false;
     }
@@ -876,8 +1317,8 @@ This email was sent by a robot. We use AI to solve your problems as quickly as p
           );
           
           // Use grounded response if available and validated, otherwise fallback to template
-          if (groundedResponse && groundedResponse.trim()) {
-            responseTemplate = groundedResponse;
+          if (groundedResponse && groundedResponse.text.trim()) {
+            responseTemplate = groundedResponse.text;
           }
         } catch (groundingError) {
           console.warn('Knowledge grounding failed, using template fallback:', groundingError);
@@ -903,7 +1344,7 @@ This email was sent by a robot. We use AI to solve your problems as quickly as p
         responseSubject = `Re: ${originalSubject}`;
       }
 
-      const success = await emailRoutingService.sendEmail(userId, {
+      const success = await this.sendViaMailbox(userId, {
         to: customerEmail,
         subject: responseSubject,
         html: responseTemplate,
@@ -916,6 +1357,14 @@ This email was sent by a robot. We use AI to solve your problems as quickly as p
     }
   }
 
+  /**
+   * Send through the tenant's mailbox under the 'email' resilience policy. Each tenant gets its own
+   * breaker; a timed-out send isn't retried since it may already have gone out.
+   */
+  private sendViaMailbox(userId: string, message: { to: string; subject: string; html: string }): Promise<boolean> {
+    return providerResilience.execute(`email:${userId}`, 'email', () => emailRoutingService.sendEmail(userId, message));
+  }
+
   /**
    * Escalate email to human review
    */
@@ -974,6 +1423,175 @@ This email was sent by a robot. We use AI to solve your problems as quickly as p
     };
   }
 
+  /**
+   * Record an agent correcting an email's classification. The original label and the model's
+   * raw confidence are kept so calibration can learn from the mistake.
+   */
+  async reclassifyEmail(userId: string, emailId: string, classification: string, correctedBy?: string): Promise<any> {
+    const email = await storage.getEmail(emailId);
+    if (!email || email.userId !== userId) {
+      throw new Error(`Email ${emailId} not found`);
+    }
+
+    const taxonomy = await intentTaxonomyService.getTaxonomy(userId);
+    const corrected = taxonomy.canonicalName(classification);
+    const metadata = email.metadata || {};
+    const updated = await storage.updateEmail(emailId, {
+      classification: corrected,
+      metadata: {
+        ...metadata,
+        correctedClassification: {
+          // Keep the first model label if an agent corrects twice
+          from: metadata.correctedClassification?.from ?? email.classification,
+          to: corrected,
+          rawConfidence: metadata.rawConfidence ?? email.confidence,
+          correctedBy,
+          correctedAt: new Date().toISOString()
+        }
+      }
+    });
+
+    confidenceCalibrationService.invalidate(userId);
+    console.log(`[AUTO_RESPONDER] Email ${emailId} reclassified ${email.classification} -> ${corrected}${correctedBy ? ` by ${correctedBy}` : ''}`);
+
+    // The correction becomes a few-shot example for similar emails; failing to embed it must not undo the correction
+    const from = metadata.correctedClassification?.from ?? email.classification;
+    if (from && from !== corrected) {
+      try {
+        await classificationFeedbackService.recordCorrection(userId, updated || email, from, corrected);
+      } catch (error) {
+        console.error('[AUTO_RESPONDER] Failed to store classification example:', error);
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Send an approval queue item, as proposed or with the reviewer's edits, and record how the
+   * reviewer changed the draft
+   */
+  async approveApprovalItem(
+    userId: string,
+    itemId: string,
+    options: { finalResponse?: string; approvedBy?: string } = {}
+  ): Promise<{ sent: boolean; sendUnknown?: boolean; edit?: ResponseEdit }> {
+    // Claimed as sending so a second approval (double click, two reviewers) can't send it again
+    return this.withPendingApprovalItem(userId, itemId, 'sending', async item => {
+      const finalResponse = options.finalResponse ?? item.proposedResponse;
+      let sent = false;
+      let sendUnknown = false;
+      try {
+        sent = await this.sendEmpathicAutoResponse(userId, item.customerEmail, finalResponse, item.subject);
+      } catch (error) {
+        if (!isOutcomeUnknown(error)) {
+          throw error;
+        }
+        sendUnknown = true;
+        console.error(`[AUTO_RESPONDER] Send outcome unknown for approval item ${itemId}: ${error.message}`);
+      } finally {
+        // Back to pending only if the send definitely didn't go out - approving again could reply twice
+        if (!sent) {
+          await storage.updateAutomationApprovalItem(itemId, { status: sendUnknown ? 'send_unknown' : 'pending' });
+        }
+      }
+      if (!sent) {
+        return sendUnknown ? { sent: false, sendUnknown } : { sent: false };
+      }
+
+      const metadata = { ...(item.metadata || {}), approvedBy: options.approvedBy, approvedAt: new Date().toISOString() };
+      await storage.updateAutomationApprovalItem(itemId, { status: 'sent', metadata });
+      await storage.updateEmail(item.emailId, {
+        status: 'resolved',
+        isResponded: true,
+        aiResponse: finalResponse,
+        processedAt: new Date()
+      });
+
+      const edit = await approvalEditTracker.recordFinalResponse(userId, { ...item, status: 'sent', metadata }, finalResponse);
+      confidenceCalibrationService.invalidate(userId);
+
+      await storage.createActivityLog({
+        userId,
+        action: 'Sent approved reply',
+        type: 'email_processed',
+        executedBy: 'human',
+        customerEmail: item.customerEmail,
+        details: edit.editClass === 'none'
+          ? `Approved ${item.classification} draft sent as proposed`
+          : `Approved ${item.classification} draft sent with ${edit.editClass.replace(/_/g, ' ')} edits`,
+        status: 'completed',
+        metadata: {
+          approvalItemId: itemId,
+          classification: item.classification,
+          editClass: edit.editClass,
+          similarity: edit.similarity
+        }
+      });
+
+      return { sent: true, edit };
+    });
+  }
+
+  /**
+   * Reject an approval queue item and hand the email to a human, since the customer still needs
+   * a reply. With correctIntent the email is reclassified as well; correctIntent or
+   * classificationWrong make the rejection a labeled example for the classifier.
+   */
+  async rejectApprovalItem(
+    userId: string,
+    itemId: string,
+    options: { correctIntent?: string; classificationWrong?: boolean; reason?: string; rejectedBy?: string } = {}
+  ): Promise<any> {
+    return this.withPendingApprovalItem(userId, itemId, 'rejected', async item => {
+      const updated = await storage.updateAutomationApprovalItem(itemId, {
+        metadata: {
+          ...(item.metadata || {}),
+          rejection: {
+            reason: options.reason,
+            correctIntent: options.correctIntent,
+            classificationWrong: !!options.correctIntent || !!options.classificationWrong,
+            rejectedBy: options.rejectedBy,
+            rejectedAt: new Date().toISOString()
+          }
+        }
+      });
+      confidenceCalibrationService.invalidate(userId);
+
+      try {
+        await classificationFeedbackService.recordRejection(userId, item, options);
+      } catch (error) {
+        console.error('[AUTO_RESPONDER] Failed to store rejection example:', error);
+      }
+
+      await this.escalateEmail(item.emailId, userId, {
+        classification: options.correctIntent || item.classification,
+        confidence: item.metadata?.originalConfidence ?? item.confidence,
+        reasoning: item.metadata?.classificationReasoning || 'Rejected in approval queue',
+        priority: item.metadata?.priority
+      }, `Draft rejected by reviewer${options.reason ? `: ${options.reason}` : ''}`);
+      return updated;
+    });
+  }
+
+  /**
+   * Run one reviewer action on a pending approval item. The item moves from pending to status in
+   * one conditional update, so of two concurrent actions - on any instance - only one runs.
+   */
+  private async withPendingApprovalItem<T>(userId: string, itemId: string, status: string, action: (item: any) => Promise<T>): Promise<T> {
+    const item = await storage.getAutomationApprovalItem(itemId);
+    if (!item || item.userId !== userId) {
+      throw new Error(`Approval item ${itemId} not found`);
+    }
+    if (item.status !== 'pending') {
+      throw new Error(`Approval item ${itemId} is already ${item.status}`);
+    }
+    const claimed = await storage.claimAutomationApprovalItem(itemId, status);
+    if (!claimed) {
+      throw new Error(`Approval item ${itemId} is already being handled`);
+    }
+    return action(claimed);
+  }
+
   /**
    * Process manual response (used by Quick Actions)
    */
@@ -999,12 +1617,22 @@ This email was sent by a robot. We use AI to solve your problems as quickly as p
           subject = 'Customer Service Response';
       }
 
-      const success = await emailRoutingService.sendEmail(userId, {
+      const success = await this.sendViaMailbox(userId, {
         to: customerEmail,
         subject: subject,
         html: template,
       });
 
+      // Score any shadow-mode decision for this email against the human's reply
+      if (success && metadata.emailId) {
+        const { shadowModeService } = await import('./shadow-mode');
+        const scored = metadata.shadowOutcome
+          ? shadowModeService.recordHumanOutcome(userId, metadata.emailId, metadata.shadowOutcome, template)
+          : shadowModeService.recordHumanReply(userId, metadata.emailId, template);
+        await scored
+          .catch(error => console.warn('[AUTO_RESPONDER] Shadow comparison failed:', error));
+      }
+
       return success;
     } catch (error) {
       console.error('Manual response sending error:', error);
@@ -0,0 +1,252 @@
+import { createHash } from "crypto";
+import { autoResponderService, type ClassifierPath } from "./auto-responder";
+
+/**
+ * One labeled email. intent is the expected primary classification.
+ */
+export interface LabeledEmail {
+  id?: string;
+  subject: string;
+  body: string;
+  intent: string;
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+}
+
+export interface EvalPrediction {
+  id: string;
+  expected: string;
+  predicted: string;
+  confidence: number;
+  correct: boolean;
+  expectedPriority?: string;
+  predictedPriority?: string;
+  error?: string;
+}
+
+export interface IntentMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;        // Labeled examples of this intent
+}
+
+export interface CalibrationBin {
+  range: string;          // Self-reported confidence range, e.g. "80-90"
+  count: number;
+  averageConfidence: number;
+  accuracy: number;       // % correct within the bin
+}
+
+export interface PathMetrics {
+  path: ClassifierPath;
+  total: number;
+  accuracy: number;
+  macroF1: number;
+  perIntent: Record<string, IntentMetrics>;
+  confusion: Record<string, Record<string, number>>;   // expected -> predicted -> count
+  priorityAccuracy: number | null;                      // Over examples labeled with a priority
+  calibration: CalibrationBin[];
+  expectedCalibrationError: number;                     // Weighted |accuracy - confidence| across bins, 0-100
+  errors: number;
+  predictions: EvalPrediction[];
+}
+
+export interface EvalRun {
+  label: string;
+  createdAt: string;
+  datasetHash: string;    // Only runs over the same dataset are comparable
+  datasetSize: number;
+  paths: Partial<Record<ClassifierPath, PathMetrics>>;
+}
+
+export interface EvalDiff {
+  comparable: boolean;
+  paths: Partial<Record<ClassifierPath, {
+    accuracy: number;
+    macroF1: number;
+    priorityAccuracy: number | null;
+    expectedCalibrationError: number;
+    intentF1: Record<string, number>;
+    fixed: string[];        // Example ids wrong in the baseline, right now
+    regressed: string[];    // Example ids right in the baseline, wrong now
+  }>>;
+}
+
+const CALIBRATION_BINS = 10;
+
+/**
+ * Classification Evaluator
+ * Runs a labeled dataset through the grounded and direct classifiers and scores them, so prompt
+ * changes can be compared run against run.
+ */
+class ClassificationEvaluator {
+
+  async run(
+    dataset: LabeledEmail[],
+    options: { userId?: string; paths?: ClassifierPath[]; label?: string } = {}
+  ): Promise<EvalRun> {
+    const paths = options.paths || ['grounded', 'direct'];
+    const run: EvalRun = {
+      label: options.label || 'eval',
+      createdAt: new Date().toISOString(),
+      datasetHash: this.hashDataset(dataset),
+      datasetSize: dataset.length,
+      paths: {}
+    };
+
+    for (const path of paths) {
+      console.log(`[CLASSIFICATION_EVAL] Running ${dataset.length} examples through the ${path} classifier`);
+      const predictions: EvalPrediction[] = [];
+
+      for (let i = 0; i < dataset.length; i++) {
+        const example = dataset[i];
+        const id = example.id || String(i + 1);
+        try {
+          const result = await autoResponderService.classifyEmail(example.body, example.subject, options.userId, { path });
+          predictions.push({
+            id,
+            expected: example.intent,
+            predicted: result.classification,
+            confidence: Number(result.rawConfidence ?? result.confidence) || 0,
+            correct: result.classification === example.intent,
+            expectedPriority: example.priority,
+            predictedPriority: result.priority
+          });
+        } catch (error) {
+          predictions.push({
+            id,
+            expected: example.intent,
+            predicted: 'error',
+            confidence: 0,
+            correct: false,
+            expectedPriority: example.priority,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+
+      run.paths[path] = this.score(path, predictions);
+      console.log(`[CLASSIFICATION_EVAL] ${path}: accuracy ${run.paths[path]!.accuracy}%, macro F1 ${run.paths[path]!.macroF1}`);
+    }
+
+    return run;
+  }
+
+  score(path: ClassifierPath, predictions: EvalPrediction[]): PathMetrics {
+    const labels = Array.from(new Set(predictions.flatMap(p => [p.expected, p.predicted]))).sort();
+    const confusion: PathMetrics['confusion'] = {};
+    for (const p of predictions) {
+      confusion[p.expected] = confusion[p.expected] || {};
+      confusion[p.expected][p.predicted] = (confusion[p.expected][p.predicted] || 0) + 1;
+    }
+
+    const perIntent: Record<string, IntentMetrics> = {};
+    for (const label of labels) {
+      const truePositives = predictions.filter(p => p.expected === label && p.predicted === label).length;
+      const predicted = predictions.filter(p => p.predicted === label).length;
+      const support = predictions.filter(p => p.expected === label).length;
+      const precision = predicted > 0 ? truePositives / predicted : 0;
+      const recall = support > 0 ? truePositives / support : 0;
+      perIntent[label] = {
+        precision: this.round(precision),
+        recall: this.round(recall),
+        f1: this.round(precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0),
+        support
+      };
+    }
+
+    // Macro F1 over labeled intents only - spurious predicted labels count against precision, not as classes
+    const labeled = labels.filter(label => perIntent[label].support > 0);
+    const withPriority = predictions.filter(p => p.expectedPriority);
+    const calibration = this.calibrate(predictions);
+    // Failed calls sit in no bin, so weight by the binned count
+    const binned = calibration.reduce((sum, bin) => sum + bin.count, 0);
+
+    return {
+      path,
+      total: predictions.length,
+      accuracy: this.percent(predictions.filter(p => p.correct).length, predictions.length),
+      macroF1: this.round(labeled.reduce((sum, label) => sum + perIntent[label].f1, 0) / (labeled.length || 1)),
+      perIntent,
+      confusion,
+      priorityAccuracy: withPriority.length > 0
+        ? this.percent(withPriority.filter(p => p.predictedPriority === p.expectedPriority).length, withPriority.length)
+        : null,
+      calibration,
+      expectedCalibrationError: this.round(
+        calibration.reduce((sum, bin) => sum + (bin.count / (binned || 1)) * Math.abs(bin.accuracy - bin.averageConfidence), 0)
+      ),
+      errors: predictions.filter(p => p.error).length,
+      predictions
+    };
+  }
+
+  /**
+   * Compare a run against a baseline; positive deltas mean the current run is better
+   * (except calibration error, where lower is better)
+   */
+  diff(baseline: EvalRun, current: EvalRun): EvalDiff {
+    const result: EvalDiff = { comparable: baseline.datasetHash === current.datasetHash, paths: {} };
+
+    for (const path of Object.keys(current.paths) as ClassifierPath[]) {
+      const before = baseline.paths[path];
+      const after = current.paths[path]!;
+      if (!before) continue;
+
+      const intents = Array.from(new Set([...Object.keys(before.perIntent), ...Object.keys(after.perIntent)]));
+      const intentF1: Record<string, number> = {};
+      for (const intent of intents) {
+        const delta = this.round((after.perIntent[intent]?.f1 || 0) - (before.perIntent[intent]?.f1 || 0));
+        if (delta !== 0) intentF1[intent] = delta;
+      }
+
+      const wasCorrect = new Map(before.predictions.map(p => [p.id, p.correct]));
+      result.paths[path] = {
+        accuracy: this.round(after.accuracy - before.accuracy),
+        macroF1: this.round(after.macroF1 - before.macroF1),
+        priorityAccuracy: after.priorityAccuracy !== null && before.priorityAccuracy !== null
+          ? this.round(after.priorityAccuracy - before.priorityAccuracy)
+          : null,
+        expectedCalibrationError: this.round(after.expectedCalibrationError - before.expectedCalibrationError),
+        intentF1,
+        fixed: after.predictions.filter(p => p.correct && wasCorrect.get(p.id) === false).map(p => p.id),
+        regressed: after.predictions.filter(p => !p.correct && wasCorrect.get(p.id) === true).map(p => p.id)
+      };
+    }
+
+    return result;
+  }
+
+  private calibrate(predictions: EvalPrediction[]): CalibrationBin[] {
+    const width = 100 / CALIBRATION_BINS;
+    const bins: CalibrationBin[] = [];
+
+    for (let i = 0; i < CALIBRATION_BINS; i++) {
+      const low = i * width;
+      const high = low + width;
+      // Last bin includes 100
+      const members = predictions.filter(p => !p.error && p.confidence >= low && (p.confidence < high || (i === CALIBRATION_BINS - 1 && p.confidence <= high)));
+      bins.push({
+        range: `${low}-${high}`,
+        count: members.length,
+        averageConfidence: members.length > 0 ? this.round(members.reduce((sum, p) => sum + p.confidence, 0) / members.length) : 0,
+        accuracy: this.percent(members.filter(p => p.correct).length, members.length)
+      });
+    }
+    return bins;
+  }
+
+  private hashDataset(dataset: LabeledEmail[]): string {
+    return createHash('sha256').update(JSON.stringify(dataset)).digest('hex').substring(0, 16);
+  }
+
+  private percent(part: number, total: number): number {
+    return total > 0 ? this.round((part / total) * 100) : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+export const classificationEvaluator = new ClassificationEvaluator();
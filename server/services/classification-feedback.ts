@@ -0,0 +1,208 @@
+import { storage } from "../storage";
+import { llmProviderService } from "./llm-provider";
+
+/**
+ * A human-labeled email, stored on the email as metadata.classificationExample
+ */
+export interface ClassificationExample {
+  emailId: string;
+  subject: string;
+  body: string;               // Truncated to MAX_EXAMPLE_CHARS
+  intent: string | null;      // Correct intent; null when a reviewer only rejected the model's label
+  wrongIntent: string;        // What the model said
+  source: 'reclassification' | 'approval_rejection';
+  reason?: string;
+  embedding: number[];
+  embeddingModel: string;
+  createdAt: string;
+}
+
+export interface SimilarExample {
+  example: ClassificationExample;
+  similarity: number;
+}
+
+export interface CorrectionPair {
+  from: string;
+  to: string;                 // 'rejected' for rejections without a corrected intent
+  count: number;
+  lastSeen: string;
+  exampleEmailIds: string[];
+}
+
+const MAX_EXAMPLE_CHARS = 600;
+const FEW_SHOT_COUNT = 3;
+const MIN_SIMILARITY = 0.6;
+const EXAMPLE_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Classification Feedback
+ * Turns agent corrections and approval rejections into labeled examples, and feeds the most
+ * similar ones back into the grounded classifier as few-shot examples for that tenant.
+ */
+class ClassificationFeedbackService {
+  private cache = new Map<string, { loadedAt: number; examples: ClassificationExample[] }>();
+
+  /**
+   * Store a corrected classification as a labeled example
+   */
+  async recordCorrection(userId: string, email: any, wrongIntent: string, intent: string): Promise<ClassificationExample> {
+    return this.storeExample(userId, email, { intent, wrongIntent, source: 'reclassification' });
+  }
+
+  /**
+   * A rejected approval item only teaches the classifier when the reviewer says the label was
+   * wrong. With a corrected intent it is a full correction; with just the flag it is kept as a
+   * "not this intent" example. Rejections for tone or content are not classification labels.
+   */
+  async recordRejection(
+    userId: string,
+    approvalItem: any,
+    options: { correctIntent?: string; classificationWrong?: boolean; reason?: string; rejectedBy?: string } = {}
+  ): Promise<ClassificationExample | null> {
+    if (options.correctIntent) {
+      const { autoResponderService } = await import('./auto-responder');
+      await autoResponderService.reclassifyEmail(userId, approvalItem.emailId, options.correctIntent, options.rejectedBy);
+      return null;
+    }
+    if (!options.classificationWrong) {
+      return null;
+    }
+
+    const email = await storage.getEmail(approvalItem.emailId);
+    if (!email || email.userId !== userId) {
+      return null;
+    }
+
+    return this.storeExample(userId, email, {
+      intent: null,
+      wrongIntent: approvalItem.classification,
+      source: 'approval_rejection',
+      reason: options.reason
+    });
+  }
+
+  /**
+   * Labeled examples most similar to an incoming email
+   */
+  async findSimilarExamples(userId: string, subject: string, body: string, limit = FEW_SHOT_COUNT): Promise<SimilarExample[]> {
+    const examples = await this.getExamples(userId);
+    if (examples.length === 0) {
+      return [];
+    }
+
+    const llm = await llmProviderService.getProvider(userId);
+    const query = await llm.createEmbedding(`${subject}\n${body}`.substring(0, 8000));
+
+    return examples
+      .filter(example => example.embeddingModel === llm.embeddingModel)
+      .map(example => ({ example, similarity: this.cosineSimilarity(query, example.embedding) }))
+      .filter(match => match.similarity >= MIN_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  /**
+   * Prompt section with the tenant's own corrected examples
+   */
+  formatFewShotExamples(matches: SimilarExample[]): string {
+    if (matches.length === 0) {
+      return '';
+    }
+
+    const examples = matches.map(({ example }, i) => {
+      const label = example.intent
+        ? `Correct classification: ${example.intent} (previously misclassified as ${example.wrongIntent})`
+        : `NOT ${example.wrongIntent} - a reviewer rejected that classification${example.reason ? `: ${example.reason}` : ''}`;
+      return `Example ${i + 1}:
+Subject: ${example.subject}
+Body: ${example.body}
+${label}`;
+    });
+
+    return `CORRECTED EXAMPLES FROM THIS COMPANY'S AGENTS:
+These similar emails were labeled by human agents. Follow their judgement where the new email is alike.
+
+${examples.join('\n\n')}`;
+  }
+
+  /**
+   * Most frequently corrected intent pairs, most common first
+   */
+  async getCorrectionPairs(userId: string, options: { since?: Date; limit?: number } = {}): Promise<CorrectionPair[]> {
+    const pairs = new Map<string, CorrectionPair>();
+
+    for (const example of await this.getExamples(userId, true)) {
+      if (options.since && new Date(example.createdAt) < options.since) continue;
+
+      const to = example.intent || 'rejected';
+      const key = `${example.wrongIntent}->${to}`;
+      const pair = pairs.get(key) || { from: example.wrongIntent, to, count: 0, lastSeen: example.createdAt, exampleEmailIds: [] };
+      pair.count++;
+      if (example.createdAt > pair.lastSeen) pair.lastSeen = example.createdAt;
+      if (pair.exampleEmailIds.length < 5) pair.exampleEmailIds.push(example.emailId);
+      pairs.set(key, pair);
+    }
+
+    return Array.from(pairs.values())
+      .sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen))
+      .slice(0, options.limit ?? 20);
+  }
+
+  async getExamples(userId: string, fresh = false): Promise<ClassificationExample[]> {
+    const cached = this.cache.get(userId);
+    if (!fresh && cached && Date.now() - cached.loadedAt < EXAMPLE_CACHE_TTL_MS) {
+      return cached.examples;
+    }
+
+    const emails: any[] = await storage.getEmails(userId);
+    const examples = emails
+      .map(email => email.metadata?.classificationExample as ClassificationExample | undefined)
+      .filter((example): example is ClassificationExample => !!example);
+
+    this.cache.set(userId, { loadedAt: Date.now(), examples });
+    return examples;
+  }
+
+  private async storeExample(
+    userId: string,
+    email: any,
+    label: Pick<ClassificationExample, 'intent' | 'wrongIntent' | 'source' | 'reason'>
+  ): Promise<ClassificationExample> {
+    const llm = await llmProviderService.getProvider(userId);
+    const body = (email.body || '').substring(0, MAX_EXAMPLE_CHARS);
+
+    const example: ClassificationExample = {
+      emailId: email.id,
+      subject: email.subject || '',
+      body,
+      ...label,
+      embedding: await llm.createEmbedding(`${email.subject || ''}\n${email.body || ''}`.substring(0, 8000)),
+      embeddingModel: llm.embeddingModel,
+      createdAt: new Date().toISOString()
+    };
+
+    await storage.updateEmail(email.id, {
+      metadata: { ...(email.metadata || {}), classificationExample: example }
+    });
+    this.cache.delete(userId);
+
+    console.log(`[CLASSIFICATION_FEEDBACK] Stored ${label.source} example for ${userId}: ${label.wrongIntent} -> ${label.intent || 'rejected'}`);
+    return example;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+}
+
+export const classificationFeedbackService = new ClassificationFeedbackService();
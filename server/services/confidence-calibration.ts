@@ -0,0 +1,275 @@
+import { storage } from "../storage";
+import type { DetectedIntent } from "./intent-extraction";
+
+/**
+ * One observed routing outcome: what the model claimed and how right it turned out to be
+ */
+export interface CalibrationSample {
+  intent: string;
+  rawConfidence: number;    // Model's self-reported confidence, 0-100
+  correctness: number;      // 1 = intent confirmed (approved, with or without edits), 0 = intent wrong
+  source: 'approved' | 'edited' | 'rejected' | 'reclassified';
+}
+
+export interface CalibrationCurve {
+  samples: number;
+  // Calibrated probability at the centre of each raw-confidence bin, monotonic non-decreasing
+  points: Array<{ rawConfidence: number; probability: number; samples: number }>;
+}
+
+export interface CalibrationModel {
+  builtAt: number;
+  global: CalibrationCurve | null;
+  intents: Record<string, CalibrationCurve>;
+}
+
+export interface CalibratedConfidence {
+  confidence: number;       // Calibrated probability of being right, 0-100
+  rawConfidence: number;
+  source: 'intent' | 'global' | 'uncalibrated';
+  holdout?: boolean;        // Below the escalation threshold only after calibration - send to review, not escalation
+}
+
+const BIN_COUNT = 10;
+const MIN_INTENT_SAMPLES = 20;    // Below this an intent borrows the tenant-wide curve
+const MIN_GLOBAL_SAMPLES = 30;    // Below this raw confidence is used as-is
+const PRIOR_STRENGTH = 4;         // Pseudo-observations pulling sparse bins toward the raw confidence
+const MODEL_TTL_MS = 60 * 60 * 1000;
+const ESCALATION_THRESHOLD = 60;  // The auto-responder escalates below this calibrated confidence
+const HOLDOUT_RATE = 0.1;         // Share of calibration-only escalations routed to review instead
+
+// Calibration measures whether the intent was right - an edited draft still had the right intent
+const OUTCOME_CORRECTNESS: Record<CalibrationSample['source'], number> = {
+  approved: 1,
+  edited: 1,
+  rejected: 0,
+  reclassified: 0
+};
+
+/**
+ * Confidence Calibration
+ * The model's self-reported confidence is not a probability. This learns, per tenant and intent,
+ * how often emails at each raw confidence were actually handled correctly (approval-queue
+ * outcomes and human reclassifications) and maps raw confidence onto that observed rate so the
+ * routing thresholds mean what they say.
+ *
+ * Escalated emails produce no approval outcome, so an intent calibrated below the escalation
+ * threshold would stop collecting samples and never recover. A holdout share of those emails
+ * goes to the approval queue instead, where the reviewer's decision becomes a new sample.
+ */
+class ConfidenceCalibrationService {
+  private models = new Map<string, CalibrationModel>();
+  private holdoutRate = HOLDOUT_RATE;
+
+  /**
+   * Map a raw confidence for an intent to a calibrated one
+   */
+  async calibrate(userId: string | undefined, intent: string, rawConfidence: number): Promise<CalibratedConfidence> {
+    const raw = Math.max(0, Math.min(100, Number(rawConfidence) || 0));
+    if (!userId) {
+      return { confidence: raw, rawConfidence: raw, source: 'uncalibrated' };
+    }
+
+    let model: CalibrationModel;
+    try {
+      model = await this.getModel(userId);
+    } catch (error) {
+      console.warn('[CALIBRATION] Could not load calibration data, using raw confidence:', error instanceof Error ? error.message : String(error));
+      return { confidence: raw, rawConfidence: raw, source: 'uncalibrated' };
+    }
+
+    const intentCurve = model.intents[intent];
+    const curve = intentCurve && intentCurve.samples >= MIN_INTENT_SAMPLES ? intentCurve : model.global;
+    if (!curve) {
+      return { confidence: raw, rawConfidence: raw, source: 'uncalibrated' };
+    }
+
+    const confidence = Math.round(this.interpolate(curve, raw) * 100);
+    const holdout = confidence < ESCALATION_THRESHOLD && raw >= ESCALATION_THRESHOLD && Math.random() < this.holdoutRate;
+    return {
+      confidence,
+      rawConfidence: raw,
+      source: curve === intentCurve ? 'intent' : 'global',
+      holdout
+    };
+  }
+
+  /**
+   * Override the holdout share (tests); null restores the default
+   */
+  setHoldoutRate(rate: number | null): void {
+    this.holdoutRate = rate ?? HOLDOUT_RATE;
+  }
+
+  /**
+   * Calibrate every detected intent's confidence (the primary intent comes out equal to calibrate())
+   */
+  async calibrateIntents(userId: string | undefined, intents: DetectedIntent[]): Promise<DetectedIntent[]> {
+    return Promise.all(intents.map(async intent => ({
+      ...intent,
+      confidence: (await this.calibrate(userId, intent.intent, intent.confidence)).confidence
+    })));
+  }
+
+  async getModel(userId: string): Promise<CalibrationModel> {
+    const cached = this.models.get(userId);
+    if (cached && Date.now() - cached.builtAt < MODEL_TTL_MS) {
+      return cached;
+    }
+
+    const model = this.fit(await this.collectSamples(userId));
+    this.models.set(userId, model);
+    console.log(`[CALIBRATION] Built calibration for ${userId}: ${model.global?.samples || 0} samples, ${Object.keys(model.intents).length} intents`);
+    return model;
+  }
+
+  /**
+   * Drop the cached model so the next classification refits (after new outcomes are recorded)
+   */
+  invalidate(userId?: string): void {
+    if (userId) {
+      this.models.delete(userId);
+    } else {
+      this.models.clear();
+    }
+  }
+
+  /**
+   * Labeled samples from reviewed approval items and reclassified emails
+   */
+  async collectSamples(userId: string): Promise<CalibrationSample[]> {
+    const [approvalItems, emails] = await Promise.all([
+      storage.getAutomationApprovalQueue(userId),
+      storage.getEmails(userId)
+    ]);
+
+    const samples: CalibrationSample[] = [];
+    const reclassifiedEmailIds = new Set<string>();
+
+    for (const email of emails as any[]) {
+      const correction = email.metadata?.correctedClassification;
+      if (!correction || correction.from === correction.to) continue;
+
+      const raw = correction.rawConfidence ?? email.metadata?.rawConfidence;
+      if (typeof raw !== 'number') continue;
+
+      reclassifiedEmailIds.add(email.id);
+      samples.push({ intent: correction.from, rawConfidence: raw, correctness: OUTCOME_CORRECTNESS.reclassified, source: 'reclassified' });
+    }
+
+    for (const item of approvalItems as any[]) {
+      // A reclassified email already counts as wrong - its approval outcome would double count it
+      if (reclassifiedEmailIds.has(item.emailId)) continue;
+
+      const source = this.approvalOutcome(item);
+      const raw = item.metadata?.rawConfidence ?? item.metadata?.originalConfidence;
+      if (!source || typeof raw !== 'number') continue;
+
+      samples.push({ intent: item.classification, rawConfidence: raw, correctness: OUTCOME_CORRECTNESS[source], source });
+    }
+
+    return samples;
+  }
+
+  /**
+   * Reviewed approval items: approved as proposed, approved after edits, or rejected because
+   * the intent was wrong. A rejection for tone or content says nothing about the intent.
+   */
+  approvalOutcome(item: any): CalibrationSample['source'] | null {
+    if (item.status === 'rejected') {
+      const rejection = item.metadata?.rejection;
+      return rejection?.correctIntent || rejection?.classificationWrong ? 'rejected' : null;
+    }
+    if (item.status !== 'approved' && item.status !== 'sent') return null;
+
+    const finalText = item.metadata?.finalResponse ?? item.finalResponse;
+    if (typeof finalText === 'string' && this.normalize(finalText) !== this.normalize(item.proposedResponse || '')) {
+      return 'edited';
+    }
+    return 'approved';
+  }
+
+  fit(samples: CalibrationSample[]): CalibrationModel {
+    const byIntent = new Map<string, CalibrationSample[]>();
+    for (const sample of samples) {
+      byIntent.set(sample.intent, [...(byIntent.get(sample.intent) || []), sample]);
+    }
+
+    const intents: Record<string, CalibrationCurve> = {};
+    byIntent.forEach((intentSamples, intent) => {
+      intents[intent] = this.fitCurve(intentSamples);
+    });
+
+    return {
+      builtAt: Date.now(),
+      global: samples.length >= MIN_GLOBAL_SAMPLES ? this.fitCurve(samples) : null,
+      intents
+    };
+  }
+
+  /**
+   * Binned reliability curve, smoothed toward the raw confidence and made monotonic with
+   * pool-adjacent-violators so a higher raw confidence never maps lower
+   */
+  private fitCurve(samples: CalibrationSample[]): CalibrationCurve {
+    const width = 100 / BIN_COUNT;
+    const bins = Array.from({ length: BIN_COUNT }, (_, i) => ({ centre: i * width + width / 2, correct: 0, count: 0 }));
+
+    for (const sample of samples) {
+      const index = Math.min(BIN_COUNT - 1, Math.floor(sample.rawConfidence / width));
+      bins[index].correct += sample.correctness;
+      bins[index].count++;
+    }
+
+    const blocks = bins.map(bin => {
+      const weight = bin.count + PRIOR_STRENGTH;
+      return {
+        value: (bin.correct + PRIOR_STRENGTH * (bin.centre / 100)) / weight,
+        weight,
+        members: [bin]
+      };
+    });
+
+    for (let i = 0; i < blocks.length - 1;) {
+      if (blocks[i].value > blocks[i + 1].value) {
+        const weight = blocks[i].weight + blocks[i + 1].weight;
+        blocks.splice(i, 2, {
+          value: (blocks[i].value * blocks[i].weight + blocks[i + 1].value * blocks[i + 1].weight) / weight,
+          weight,
+          members: [...blocks[i].members, ...blocks[i + 1].members]
+        });
+        i = Math.max(0, i - 1);
+      } else {
+        i++;
+      }
+    }
+
+    return {
+      samples: samples.length,
+      points: blocks.flatMap(block => block.members.map(bin => ({
+        rawConfidence: bin.centre,
+        probability: Math.round(block.value * 1000) / 1000,
+        samples: bin.count
+      })))
+    };
+  }
+
+  private interpolate(curve: CalibrationCurve, raw: number): number {
+    const points = curve.points;
+    if (raw <= points[0].rawConfidence) return points[0].probability;
+    for (let i = 1; i < points.length; i++) {
+      if (raw <= points[i].rawConfidence) {
+        const a = points[i - 1];
+        const b = points[i];
+        return a.probability + ((raw - a.rawConfidence) / (b.rawConfidence - a.rawConfidence)) * (b.probability - a.probability);
+      }
+    }
+    return points[points.length - 1].probability;
+  }
+
+  private normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
+
+export const confidenceCalibrationService = new ConfidenceCalibrationService();
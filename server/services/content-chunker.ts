@@ -0,0 +1,486 @@
+import { getEncoding, type Tiktoken } from "js-tiktoken";
+
+export type ChunkContentType = 'html' | 'markdown' | 'text';
+
+export interface ContentChunk {
+  text: string;
+  headingPath: string[];    // e.g. ["Shipping Policy", "International"]
+  startOffset: number;      // Character offsets into the original content
+  endOffset: number;
+  tokenCount: number;
+}
+
+export interface ChunkOptions {
+  contentType?: ChunkContentType;
+  maxTokens?: number;
+  overlapTokens?: number;
+}
+
+type BlockType = 'heading' | 'paragraph' | 'list' | 'qa' | 'table';
+
+/**
+ * Normalized text with the source span of every character, so any range of it maps back
+ * to exact offsets in the original content
+ */
+interface MappedText {
+  text: string;
+  starts: number[];         // Source offset where each character begins
+  ends: number[];           // ...and where it ends (an entity or a tag spans several)
+}
+
+interface Block extends MappedText {
+  type: BlockType;
+  level?: number;           // Heading level (1-6)
+  start: number;
+  end: number;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", apos: "'"
+};
+const HTML_ENTITY_PATTERN = /&(nbsp|amp|lt|gt|quot|#39|apos);/y;
+
+function identity(text: string, offset: number = 0): MappedText {
+  return {
+    text,
+    starts: Array.from({ length: text.length }, (_, i) => offset + i),
+    ends: Array.from({ length: text.length }, (_, i) => offset + i + 1)
+  };
+}
+
+function slice(source: MappedText, from: number, to: number): MappedText {
+  return { text: source.text.slice(from, to), starts: source.starts.slice(from, to), ends: source.ends.slice(from, to) };
+}
+
+function trim(source: MappedText): MappedText {
+  const from = source.text.length - source.text.trimStart().length;
+  return slice(source, from, Math.max(from, source.text.trimEnd().length));
+}
+
+/**
+ * Separators have no source characters of their own - they get an empty span where the
+ * preceding part ends
+ */
+function join(parts: MappedText[], separator: string): MappedText {
+  const joined: MappedText = { text: '', starts: [], ends: [] };
+  parts.forEach((part, i) => {
+    if (i > 0) {
+      const at = joined.ends[joined.ends.length - 1] ?? part.starts[0] ?? 0;
+      joined.text += separator;
+      for (let k = 0; k < separator.length; k++) {
+        joined.starts.push(at);
+        joined.ends.push(at);
+      }
+    }
+    joined.text += part.text;
+    for (let k = 0; k < part.text.length; k++) {
+      joined.starts.push(part.starts[k]);
+      joined.ends.push(part.ends[k]);
+    }
+  });
+  return joined;
+}
+
+/**
+ * Source span of characters from..to (exclusive) of mapped text
+ */
+function span(source: MappedText, from: number, to: number): { start: number; end: number } {
+  return { start: source.starts[from], end: source.ends[to - 1] };
+}
+
+/**
+ * Structure-Aware Content Chunker
+ * Splits on headings and keeps FAQ question/answer pairs, list items and table rows intact.
+ * Sizes are measured in real model tokens (cl100k_base, used by text-embedding-3-small).
+ */
+class ContentChunker {
+  // Industry practice: 256-512 tokens with 50-100 token overlap
+  private readonly DEFAULTS = {
+    MAX_TOKENS: 400,
+    OVERLAP_TOKENS: 50
+  };
+
+  private encoder: Tiktoken | null = null;
+
+  /**
+   * Chunk content into retrieval units that never cross a heading boundary
+   */
+  chunk(content: string, options: ChunkOptions = {}): ContentChunk[] {
+    const contentType = options.contentType || this.detectContentType(content);
+    const maxTokens = options.maxTokens || this.DEFAULTS.MAX_TOKENS;
+    const overlapTokens = options.overlapTokens ?? this.DEFAULTS.OVERLAP_TOKENS;
+
+    const blocks = contentType === 'html'
+      ? this.parseHtml(content)
+      : this.parseText(identity(content));
+
+    const chunks: ContentChunk[] = [];
+    const headingStack: Array<{ level: number; text: string }> = [];
+    let current: Block[] = [];
+
+    // Measured on the joined text - the separators between blocks cost tokens too
+    const joinedTokens = (parts: Block[]) => this.countTokens(parts.map(b => b.text).join('\n\n'));
+
+    const flush = (carryOverlap: boolean) => {
+      if (current.length === 0) return;
+
+      const text = current.map(b => b.text).join('\n\n');
+      chunks.push({
+        text,
+        headingPath: headingStack.map(h => h.text),
+        startOffset: current[0].start,
+        endOffset: current[current.length - 1].end,
+        tokenCount: this.countTokens(text)
+      });
+
+      // Carry trailing whole blocks forward as overlap (never split a Q/A pair or row)
+      const carried: Block[] = [];
+      if (carryOverlap && overlapTokens > 0) {
+        for (let i = current.length - 1; i > 0; i--) {
+          if (joinedTokens([current[i], ...carried]) > overlapTokens) break;
+          carried.unshift(current[i]);
+        }
+      }
+      current = carried;
+    };
+
+    for (const block of blocks) {
+      if (block.type === 'heading') {
+        // A new section starts - its chunks get a new heading path
+        flush(false);
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= block.level!) {
+          headingStack.pop();
+        }
+        headingStack.push({ level: block.level!, text: block.text });
+        continue;
+      }
+
+      for (const unit of this.splitOversizedBlock(block, maxTokens)) {
+        if (current.length > 0 && joinedTokens([...current, unit]) > maxTokens) {
+          flush(true);
+          // Drop carried overlap that doesn't fit beside the next unit - flushing again would
+          // emit a chunk made only of overlap
+          while (current.length > 0 && joinedTokens([...current, unit]) > maxTokens) {
+            current.shift();
+          }
+        }
+        current.push(unit);
+      }
+    }
+    flush(false);
+
+    return chunks.filter(c => c.text.trim().length > 0);
+  }
+
+  countTokens(text: string): number {
+    if (!this.encoder) {
+      this.encoder = getEncoding('cl100k_base');
+    }
+    return this.encoder.encode(text).length;
+  }
+
+  private detectContentType(content: string): ChunkContentType {
+    if (/<(h[1-6]|p|li|table|tr|div|dl)\b[^>]*>/i.test(content)) {
+      return 'html';
+    }
+    if (/^#{1,6}\s+\S/m.test(content) || /^\s*[-*+]\s+\S/m.test(content)) {
+      return 'markdown';
+    }
+    return 'text';
+  }
+
+  /**
+   * Markdown and plain text: headings, lists, tables, FAQ pairs and paragraphs.
+   * Line positions are into source.text; block offsets go through its source map.
+   */
+  private parseText(source: MappedText): Block[] {
+    const blocks: Block[] = [];
+    const lines: Array<{ text: string; start: number; end: number }> = [];
+
+    let offset = 0;
+    for (const raw of source.text.split('\n')) {
+      lines.push({ text: raw.replace(/\r$/, ''), start: offset, end: offset + raw.length });
+      offset += raw.length + 1;
+    }
+
+    const lineText = (index: number) => trim(slice(source, lines[index].start, lines[index].end));
+    const joinLines = (from: number, to: number) => join(lines.slice(from, to).map((_, k) => lineText(from + k)), ' ');
+    const lineSpan = (from: number, to: number) => span(source, lines[from].start, lines[to].end);
+
+    let i = 0;
+    while (i < lines.length) {
+      const line = lines[i];
+      const trimmed = line.text.trim();
+
+      if (!trimmed) {
+        i++;
+        continue;
+      }
+
+      // ATX heading: "## Shipping"
+      const atx = trimmed.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+      if (atx) {
+        const heading = lineText(i);
+        const at = heading.text.indexOf(atx[2], atx[1].length);
+        blocks.push({ type: 'heading', level: atx[1].length, ...trim(slice(heading, at, at + atx[2].length)), ...lineSpan(i, i) });
+        i++;
+        continue;
+      }
+
+      // Setext heading: "Shipping\n========"
+      const next = lines[i + 1]?.text.trim() || '';
+      if (/^(=+|-+)$/.test(next) && next.length >= 3 && !/^[-*+]\s/.test(trimmed)) {
+        blocks.push({ type: 'heading', level: next.startsWith('=') ? 1 : 2, ...lineText(i), ...lineSpan(i, i + 1) });
+        i += 2;
+        continue;
+      }
+
+      // FAQ pair: "Q: ..." / "Question: ..." followed by the answer
+      if (/^(q|question)\s*[:.)-]/i.test(trimmed) || (/\?$/.test(trimmed) && trimmed.length < 200 && this.startsAnswer(lines, i + 1))) {
+        let j = i + 1;
+        while (j < lines.length && !lines[j].text.trim()) j++;
+        const answerStart = j;
+        while (j < lines.length && lines[j].text.trim() && !this.isStructuralLine(lines[j].text.trim())) j++;
+        if (answerStart < j) {
+          blocks.push({ type: 'qa', ...join([lineText(i), joinLines(answerStart, j)], '\n'), ...lineSpan(i, j - 1) });
+          i = j;
+          continue;
+        }
+      }
+
+      // Table: consecutive pipe rows, each row kept whole
+      if (/^\|.*\|$/.test(trimmed)) {
+        while (i < lines.length && /^\|.*\|$/.test(lines[i].text.trim())) {
+          const row = lines[i].text.trim();
+          if (!/^\|[\s:|-]+\|$/.test(row)) { // Skip separator rows
+            blocks.push({ type: 'table', ...lineText(i), ...lineSpan(i, i) });
+          }
+          i++;
+        }
+        continue;
+      }
+
+      // List item with its continuation lines
+      if (/^([-*+]|\d+[.)])\s+/.test(trimmed)) {
+        let j = i + 1;
+        while (j < lines.length && /^\s{2,}\S/.test(lines[j].text) && !/^\s*([-*+]|\d+[.)])\s+/.test(lines[j].text)) j++;
+        blocks.push({ type: 'list', ...joinLines(i, j), ...lineSpan(i, j - 1) });
+        i = j;
+        continue;
+      }
+
+      // Paragraph until blank line or structural line
+      let j = i + 1;
+      while (j < lines.length && lines[j].text.trim() && !this.isStructuralLine(lines[j].text.trim())) j++;
+      blocks.push({ type: 'paragraph', ...joinLines(i, j), ...lineSpan(i, j - 1) });
+      i = j;
+    }
+
+    return this.mergeHeadingFaqPairs(blocks);
+  }
+
+  private startsAnswer(lines: Array<{ text: string }>, index: number): boolean {
+    let j = index;
+    while (j < lines.length && !lines[j].text.trim()) j++;
+    const answer = lines[j]?.text.trim();
+    return !!answer && (/^(a|answer)\s*[:.)-]/i.test(answer) || !this.isStructuralLine(answer));
+  }
+
+  private isStructuralLine(trimmed: string): boolean {
+    return /^#{1,6}\s/.test(trimmed) ||
+      /^\|.*\|$/.test(trimmed) ||
+      /^([-*+]|\d+[.)])\s+/.test(trimmed) ||
+      /^(q|question)\s*[:.)-]/i.test(trimmed);
+  }
+
+  /**
+   * HTML: walk block-level elements in document order, keeping their source offsets.
+   * Text between them (bare text in divs, a page with no block markup at all) is parsed
+   * like plain text, so nothing outside a block element is lost.
+   */
+  private parseHtml(content: string): Block[] {
+    const blocks: Block[] = [];
+    const cleaned = content.replace(/<(head|script|style|noscript|template|nav|footer)\b[\s\S]*?<\/\1>/gi, match => ' '.repeat(match.length));
+    const elementPattern = /<(h[1-6]|p|li|tr|dt|dd|blockquote|pre)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+
+    let match: RegExpExecArray | null;
+    let pendingQuestion: Block | null = null;
+    let position = 0;
+
+    while ((match = elementPattern.exec(cleaned)) !== null) {
+      const tag = match[1].toLowerCase();
+      const start = match.index;
+      const end = match.index + match[0].length;
+      const innerStart = start + match[0].indexOf('>') + 1;
+
+      blocks.push(...this.parseLooseHtml(cleaned, position, start));
+      position = end;
+
+      const text = tag === 'tr'
+        ? join(Array.from(match[2].matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi))
+            .map(cell => this.htmlToText(cell[1], innerStart + cell.index! + cell[0].indexOf('>') + 1)), ' | ')
+        : this.htmlToText(match[2], innerStart);
+
+      if (!text.text) continue;
+
+      // A term without a definition is still content
+      if (pendingQuestion && tag !== 'dd') {
+        blocks.push({ ...pendingQuestion, type: 'paragraph' });
+        pendingQuestion = null;
+      }
+
+      if (tag.startsWith('h')) {
+        blocks.push({ type: 'heading', level: Number(tag[1]), ...text, start, end });
+      } else if (tag === 'dt') {
+        pendingQuestion = { type: 'qa', ...text, start, end };
+      } else if (tag === 'dd' && pendingQuestion) {
+        blocks.push({ ...pendingQuestion, ...join([pendingQuestion, text], '\n'), end });
+        pendingQuestion = null;
+      } else {
+        blocks.push({ type: tag === 'li' ? 'list' : tag === 'tr' ? 'table' : 'paragraph', ...text, start, end });
+      }
+    }
+
+    if (pendingQuestion) {
+      blocks.push({ ...pendingQuestion, type: 'paragraph' });
+    }
+    blocks.push(...this.parseLooseHtml(cleaned, position, cleaned.length));
+
+    return this.mergeHeadingFaqPairs(blocks);
+  }
+
+  /**
+   * Text of html[from..to] that sits outside any block element, split into blocks along its line breaks
+   */
+  private parseLooseHtml(html: string, from: number, to: number): Block[] {
+    if (from >= to) return [];
+    const text = this.htmlToText(html.slice(from, to), from, true);
+    return text.text ? this.parseText(text) : [];
+  }
+
+  /**
+   * "### Can I return sale items?" followed by "Yes, within 14 days." is a Q/A pair, not a section
+   */
+  private mergeHeadingFaqPairs(blocks: Block[]): Block[] {
+    const merged: Block[] = [];
+    for (let i = 0; i < blocks.length; i++) {
+      const block = blocks[i];
+      const answer = blocks[i + 1];
+      if (block.type === 'heading' && block.level! >= 3 && block.text.endsWith('?') && answer?.type === 'paragraph') {
+        merged.push({ type: 'qa', ...join([block, answer], '\n'), start: block.start, end: answer.end });
+        i++;
+        continue;
+      }
+      merged.push(block);
+    }
+    return merged;
+  }
+
+  /**
+   * Strip tags and decode entities, collapsing whitespace (or, with keepLines, keeping line breaks
+   * at block-level closing tags). offset is where html starts in the source content.
+   */
+  private htmlToText(html: string, offset: number, keepLines: boolean = false): MappedText {
+    const out: MappedText = { text: '', starts: [], ends: [] };
+    const last = () => out.text[out.text.length - 1];
+    const pop = () => {
+      out.text = out.text.slice(0, -1);
+      out.starts.pop();
+      out.ends.pop();
+    };
+    const emit = (char: string, from: number, to: number) => {
+      if (char === '\n' && keepLines) {
+        while (last() === ' ') pop();
+        // At most one blank line, and none at the start
+        if (!out.text || out.text.endsWith('\n\n')) return;
+      } else if (/\s/.test(char)) {
+        if (!out.text || last() === ' ' || last() === '\n') return;
+        char = ' ';
+      }
+      out.text += char;
+      out.starts.push(offset + from);
+      out.ends.push(offset + to);
+    };
+
+    let i = 0;
+    while (i < html.length) {
+      if (html[i] === '<') {
+        const close = html.indexOf('>', i);
+        if (close !== -1) {
+          const tag = html.slice(i, close + 1);
+          const lineBreak = /^<br\s*\/?>$/i.test(tag) || (keepLines && /^<\/(p|div|li|h[1-6]|tr)>$/i.test(tag));
+          emit(lineBreak ? '\n' : ' ', i, close + 1);
+          i = close + 1;
+          continue;
+        }
+      }
+      HTML_ENTITY_PATTERN.lastIndex = i;
+      const entity = html[i] === '&' ? HTML_ENTITY_PATTERN.exec(html) : null;
+      if (entity) {
+        emit(HTML_ENTITIES[entity[1]], i, i + entity[0].length);
+        i += entity[0].length;
+        continue;
+      }
+      emit(html[i], i, i + 1);
+      i++;
+    }
+
+    while (out.text && /\s/.test(last())) pop();
+    return out;
+  }
+
+  /**
+   * Split a block that alone exceeds the budget - by sentence, then by tokens as a last resort
+   */
+  private splitOversizedBlock(block: Block, maxTokens: number): Block[] {
+    if (this.countTokens(block.text) <= maxTokens) {
+      return [block];
+    }
+
+    const sentences = Array.from(block.text.matchAll(/[^.!?\n]+[.!?]*\s*/g));
+    if (sentences.length === 0) {
+      return [block];
+    }
+
+    const parts: Block[] = [];
+    let buffer = '';
+    let bufferFrom = 0;
+    let bufferTo = 0;
+
+    const push = (from: number, to: number) => {
+      const piece = trim(slice(block, from, to));
+      if (piece.text) {
+        parts.push({ ...block, ...piece, ...span(piece, 0, piece.text.length) });
+      }
+    };
+
+    for (const match of sentences) {
+      const sentence = match[0];
+      const at = match.index!;
+      if (this.countTokens(buffer + sentence) > maxTokens && buffer) {
+        push(bufferFrom, bufferTo);
+        buffer = '';
+      }
+      if (this.countTokens(sentence) > maxTokens) {
+        const tokens = this.encoder!.encode(sentence);
+        let position = at;
+        for (let i = 0; i < tokens.length; i += maxTokens) {
+          const length = this.encoder!.decode(tokens.slice(i, i + maxTokens)).length;
+          push(position, position + length);
+          position += length;
+        }
+        continue;
+      }
+      if (!buffer) {
+        bufferFrom = at;
+      }
+      buffer += sentence;
+      bufferTo = at + sentence.length;
+    }
+    push(bufferFrom, bufferTo);
+
+    return parts;
+  }
+}
+
+export const contentChunker = new ContentChunker();
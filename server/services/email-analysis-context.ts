@@ -0,0 +1,125 @@
+import { sentimentAnalysisService, type SentimentResult } from "./sentiment-analysis";
+import { hallucinationPreventionService, type KnowledgeResult } from "./hallucination-prevention";
+
+/**
+ * Details read from the raw email text before classification
+ */
+export interface EmailEntities {
+  orderNumber: string | null;
+}
+
+export interface AnalyzedEmail {
+  subject: string;
+  body: string;
+  fromEmail?: string;
+  messageId?: string;
+}
+
+const ORDER_NUMBER_PATTERNS = [
+  /order\s*#?\s*(\d+)/i,
+  /order\s*number\s*#?\s*(\d+)/i,
+  /#(\d{4,})/,
+  /\b(\d{4,6})\b/
+];
+
+/**
+ * Everything the pipeline derives from one email, computed at most once. Each analysis starts
+ * on first use and later callers share the same promise, so classification, rule matching,
+ * drafting and escalation all read the same sentiment, retrieval and thread context.
+ */
+export class EmailAnalysisContext {
+  readonly entities: EmailEntities;
+  readonly timings: Record<string, number> = {};
+
+  private sentimentPromise?: Promise<SentimentResult>;
+  private knowledgePromise?: Promise<KnowledgeResult>;
+  private threadPromise?: Promise<any | null>;
+
+  constructor(readonly userId: string, readonly email: AnalyzedEmail) {
+    this.entities = { orderNumber: extractOrderNumber(email.body) };
+  }
+
+  /**
+   * Retrieval query shared by classification and drafting
+   */
+  get query(): string {
+    return `${this.email.subject} ${this.email.body}`;
+  }
+
+  /**
+   * Start the independent analyses in parallel without waiting for them
+   */
+  prefetch(): this {
+    this.sentiment().catch(() => undefined);
+    this.knowledge();
+    return this;
+  }
+
+  /**
+   * Sentiment of the email body. A failure is remembered too - callers decide how to degrade.
+   */
+  sentiment(): Promise<SentimentResult> {
+    if (!this.sentimentPromise) {
+      this.sentimentPromise = this.timed('sentiment', () => sentimentAnalysisService.analyzeSentiment(this.email.body));
+    }
+    return this.sentimentPromise;
+  }
+
+  knowledge(): Promise<KnowledgeResult> {
+    if (!this.knowledgePromise) {
+      this.knowledgePromise = this.timed('retrieval', () => hallucinationPreventionService.getRelevantKnowledge(this.userId, this.query));
+    }
+    return this.knowledgePromise;
+  }
+
+  /**
+   * Thread history for the email. Call after the email is linked to its thread.
+   */
+  threadContext(): Promise<any | null> {
+    if (!this.threadPromise) {
+      this.threadPromise = this.timed('threadContext', async () => {
+        if (!this.email.messageId) return null;
+        try {
+          const { ThreadContextService } = await import('./thread-context');
+          return await ThreadContextService.getThreadContext(this.email.messageId);
+        } catch (error) {
+          console.warn('[EMAIL_ANALYSIS] Thread context unavailable:', error instanceof Error ? error.message : String(error));
+          return null;
+        }
+      });
+    }
+    return this.threadPromise;
+  }
+
+  private async timed<T>(stage: string, run: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    try {
+      return await run();
+    } finally {
+      this.timings[stage] = Date.now() - started;
+    }
+  }
+}
+
+/**
+ * Email Analysis Service
+ * Creates the per-email analysis context threaded through the auto-responder pipeline
+ */
+class EmailAnalysisService {
+
+  createContext(userId: string, email: AnalyzedEmail): EmailAnalysisContext {
+    return new EmailAnalysisContext(userId, email);
+  }
+}
+
+export function extractOrderNumber(text: string): string | null {
+  for (const pattern of ORDER_NUMBER_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+export const emailAnalysisService = new EmailAnalysisService();
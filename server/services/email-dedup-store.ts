@@ -0,0 +1,164 @@
+import { randomUUID } from "crypto";
+import { and, eq, lte, sql } from "drizzle-orm";
+import { emailDedupKeys, emailDedupLocks } from "../../shared/email-dedup-schema";
+import type { ProcessedEmail } from "./auto-responder";
+
+/**
+ * One ingested email under its dedup key. Unique per (userId, dedupKey).
+ */
+export interface DedupRecord {
+  userId: string;
+  dedupKey: string;
+  emailId: string;
+  jobId: string | null;            // Job driving the email through the pipeline, if any
+  result: ProcessedEmail | null;   // Set once routing finishes - null while the email is in flight
+  createdAt: Date;
+}
+
+/**
+ * Where dedup keys live. withLock() must hold across instances: while fn runs, no other
+ * delivery of the same key can run its own check-and-store.
+ */
+export interface EmailDedupStore {
+  withLock<T>(userId: string, dedupKey: string, fn: () => Promise<T>): Promise<T>;
+  find(userId: string, dedupKey: string): Promise<DedupRecord | undefined>;
+  // Insert, or replace the record an expired content hash left behind
+  save(record: Pick<DedupRecord, 'userId' | 'dedupKey' | 'emailId' | 'jobId'>): Promise<DedupRecord>;
+  // Only applies while the key still belongs to emailId
+  setResult(userId: string, dedupKey: string, emailId: string, result: ProcessedEmail): Promise<void>;
+}
+
+/**
+ * In-memory dedup store for tests and offline runs. Locks only hold within this process.
+ */
+export class MemoryDedupStore implements EmailDedupStore {
+  private records = new Map<string, DedupRecord>();
+  private locks = new Map<string, Promise<unknown>>();
+
+  reset(): void {
+    this.records.clear();
+  }
+
+  async withLock<T>(userId: string, dedupKey: string, fn: () => Promise<T>): Promise<T> {
+    const lockKey = `${userId}:${dedupKey}`;
+    const previous = this.locks.get(lockKey) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(fn);
+    this.locks.set(lockKey, current);
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(lockKey) === current) {
+        this.locks.delete(lockKey);
+      }
+    }
+  }
+
+  async find(userId: string, dedupKey: string): Promise<DedupRecord | undefined> {
+    const record = this.records.get(`${userId}:${dedupKey}`);
+    return record ? { ...record } : undefined;
+  }
+
+  async save(record: Pick<DedupRecord, 'userId' | 'dedupKey' | 'emailId' | 'jobId'>): Promise<DedupRecord> {
+    const saved: DedupRecord = { ...record, result: null, createdAt: new Date() };
+    this.records.set(`${record.userId}:${record.dedupKey}`, saved);
+    return { ...saved };
+  }
+
+  async setResult(userId: string, dedupKey: string, emailId: string, result: ProcessedEmail): Promise<void> {
+    const record = this.records.get(`${userId}:${dedupKey}`);
+    if (record && record.emailId === emailId) {
+      record.result = result;
+    }
+  }
+}
+
+// A lock whose holder died frees itself after this long - far longer than a check-and-store takes
+const LOCK_LEASE_MS = 60_000;
+// How long a delivery waits for another delivery of the same key before giving up (it is retried)
+const LOCK_WAIT_MS = 15_000;
+const LOCK_POLL_MS = 100;
+
+/**
+ * Postgres dedup store on the application's database. The email_dedup_keys and email_dedup_locks
+ * tables are defined in shared/email-dedup-schema.ts and created with the rest of the schema
+ * (npm run db:push).
+ */
+export class PostgresDedupStore implements EmailDedupStore {
+  /**
+   * Locks are lease rows taken with one conditional upsert, so no connection is held while fn runs
+   */
+  async withLock<T>(userId: string, dedupKey: string, fn: () => Promise<T>): Promise<T> {
+    const token = randomUUID();
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    while (!(await this.tryLock(userId, dedupKey, token))) {
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for the dedup lock on ${dedupKey}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_POLL_MS));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await this.unlock(userId, dedupKey, token)
+        .catch(error => console.warn(`[DEDUP] Failed to release lock on ${dedupKey}, it expires with its lease:`, error));
+    }
+  }
+
+  async find(userId: string, dedupKey: string): Promise<DedupRecord | undefined> {
+    const { db } = await import('../db');
+    const [row] = await db.select().from(emailDedupKeys)
+      .where(and(eq(emailDedupKeys.userId, userId), eq(emailDedupKeys.dedupKey, dedupKey)));
+    return row ? this.toRecord(row) : undefined;
+  }
+
+  async save(record: Pick<DedupRecord, 'userId' | 'dedupKey' | 'emailId' | 'jobId'>): Promise<DedupRecord> {
+    const { db } = await import('../db');
+    const [row] = await db.insert(emailDedupKeys)
+      .values(record)
+      .onConflictDoUpdate({
+        target: [emailDedupKeys.userId, emailDedupKeys.dedupKey],
+        set: { emailId: record.emailId, jobId: record.jobId, result: null, createdAt: sql`now()` }
+      })
+      .returning();
+    return this.toRecord(row);
+  }
+
+  async setResult(userId: string, dedupKey: string, emailId: string, result: ProcessedEmail): Promise<void> {
+    const { db } = await import('../db');
+    await db.update(emailDedupKeys)
+      .set({ result })
+      .where(and(
+        eq(emailDedupKeys.userId, userId),
+        eq(emailDedupKeys.dedupKey, dedupKey),
+        eq(emailDedupKeys.emailId, emailId)
+      ));
+  }
+
+  private async tryLock(userId: string, dedupKey: string, token: string): Promise<boolean> {
+    const { db } = await import('../db');
+    const lockedUntil = sql`now() + ${`${LOCK_LEASE_MS} milliseconds`}::interval`;
+    const [row] = await db.insert(emailDedupLocks)
+      .values({ userId, dedupKey, token, lockedUntil })
+      .onConflictDoUpdate({
+        target: [emailDedupLocks.userId, emailDedupLocks.dedupKey],
+        set: { token, lockedUntil },
+        setWhere: lte(emailDedupLocks.lockedUntil, sql`now()`)
+      })
+      .returning({ token: emailDedupLocks.token });
+    return !!row;
+  }
+
+  private async unlock(userId: string, dedupKey: string, token: string): Promise<void> {
+    const { db } = await import('../db');
+    await db.delete(emailDedupLocks).where(and(
+      eq(emailDedupLocks.userId, userId),
+      eq(emailDedupLocks.dedupKey, dedupKey),
+      eq(emailDedupLocks.token, token)
+    ));
+  }
+
+  private toRecord(row: typeof emailDedupKeys.$inferSelect): DedupRecord {
+    return { ...row, result: row.result as ProcessedEmail | null };
+  }
+}
@@ -0,0 +1,248 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import type { IncomingEmail, ProcessedEmail } from "./auto-responder";
+import { PostgresDedupStore, type DedupRecord, type EmailDedupStore } from "./email-dedup-store";
+
+export type DedupMatch = 'message_id' | 'content_hash';
+
+export interface DuplicateDelivery {
+  duplicateOf: string;  // Id of the stored email
+  matchedBy: DedupMatch;
+  mailbox: string;
+  source: string;       // 'inline' or 'queue'
+}
+
+export interface MailboxDuplicateStats {
+  mailbox: string;
+  duplicates: number;
+  byMessageId: number;
+  byContentHash: number;
+  emailsAffected: number;
+  lastSeenAt: string | null;
+}
+
+export interface DuplicateReport {
+  userId: string;
+  since: string | null;
+  totalDuplicates: number;
+  mailboxes: MailboxDuplicateStats[];
+}
+
+// Without a Message-ID, identical content is only a re-delivery if it arrives close together -
+// a customer sending the same "any update?" again next week is a new email
+export const CONTENT_HASH_WINDOW_MS = 24 * 60 * 60_000;
+
+// An email still without a result this long after it was stored, with no job behind it, was
+// dropped by a crashed delivery. Provider timeouts and retries end well before this.
+export const STALLED_AFTER_MS = 10 * 60_000;
+
+/**
+ * Email Deduplication
+ * Makes ingestion idempotent: each inbound email is keyed on its Message-ID (or a content hash
+ * when there isn't one) so webhook retries and mailbox re-syncs return the existing result
+ * instead of classifying, replying to or escalating the same message again.
+ */
+class EmailDedupService {
+  private store: EmailDedupStore | null = null;
+
+  /**
+   * Replace the dedup store (in-memory for tests and offline runs); null restores Postgres
+   */
+  setStore(store: EmailDedupStore | null): void {
+    this.store = store;
+  }
+
+  getStore(): EmailDedupStore {
+    if (!this.store) {
+      this.store = new PostgresDedupStore();
+    }
+    return this.store;
+  }
+
+  /**
+   * mid:<Message-ID> when present, otherwise hash:<sha256 of sender, recipient, subject and body>
+   */
+  dedupKey(emailData: IncomingEmail): { key: string; matchedBy: DedupMatch } {
+    const messageId = this.normalizeMessageId(emailData.messageId);
+    if (messageId) {
+      return { key: `mid:${messageId}`, matchedBy: 'message_id' };
+    }
+
+    const normalize = (value?: string) => (value || '').replace(/\s+/g, ' ').trim().toLowerCase();
+    const hash = createHash('sha256')
+      .update([emailData.fromEmail, emailData.toEmail, emailData.subject, emailData.body].map(normalize).join('\n'))
+      .digest('hex');
+    return { key: `hash:${hash}`, matchedBy: 'content_hash' };
+  }
+
+  /**
+   * The dedup record of the stored email this delivery duplicates, if any
+   */
+  async findExisting(userId: string, emailData: IncomingEmail): Promise<DedupRecord | undefined> {
+    const { key, matchedBy } = this.dedupKey(emailData);
+    const existing = await this.getStore().find(userId, key);
+    if (existing && matchedBy === 'content_hash' && existing.createdAt.getTime() < Date.now() - CONTENT_HASH_WINDOW_MS) {
+      return undefined;
+    }
+    return existing;
+  }
+
+  /**
+   * Run fn (the check-and-store step) with no other delivery of the same email in flight on any
+   * instance, so two simultaneous webhook calls can't both miss the existing record
+   */
+  async withLock<T>(userId: string, emailData: IncomingEmail, fn: () => Promise<T>): Promise<T> {
+    return this.getStore().withLock(userId, this.dedupKey(emailData).key, fn);
+  }
+
+  /**
+   * Key a newly stored email so later deliveries find it
+   */
+  async recordStored(userId: string, emailData: IncomingEmail, emailId: string, jobId: string | null = null): Promise<DedupRecord> {
+    return this.getStore().save({ userId, dedupKey: this.dedupKey(emailData).key, emailId, jobId });
+  }
+
+  /**
+   * A matched email with no result, no job behind it and stored long enough ago that inline
+   * processing can't still be running: the delivery that stored it crashed mid-pipeline, so a
+   * redelivery should finish it rather than be answered as a duplicate
+   */
+  async isStalled(existing: DedupRecord): Promise<boolean> {
+    if (existing.result || Date.now() - existing.createdAt.getTime() < STALLED_AFTER_MS) {
+      return false;
+    }
+    const { emailJobQueue } = await import('./email-job-queue');
+    const store = emailJobQueue.getStore();
+    const job = existing.jobId ? await store.get(existing.jobId) : await store.findByEmailId(existing.emailId);
+    return !job || job.status === 'completed';
+  }
+
+  /**
+   * Hand a stalled email to the given job
+   */
+  async resume(existing: DedupRecord, jobId: string): Promise<void> {
+    await this.getStore().save({ userId: existing.userId, dedupKey: existing.dedupKey, emailId: existing.emailId, jobId });
+    console.log(`[DEDUP] Redelivery resumes stalled email ${existing.emailId} for ${existing.userId} in job ${jobId}`);
+  }
+
+  /**
+   * Queue a stalled email to resume at classification (inline redeliveries have no job of their own)
+   */
+  async requeueStalled(userId: string, existing: DedupRecord, emailData: IncomingEmail): Promise<ProcessedEmail> {
+    const { emailJobQueue } = await import('./email-job-queue');
+    const job = await emailJobQueue.defer(userId, emailData, { emailId: existing.emailId }, 'classify', new Date());
+    await this.resume(existing, job.id);
+    return {
+      id: existing.emailId,
+      classification: 'unclassified',
+      confidence: 0,
+      autoResponseSent: false,
+      escalated: false,
+      deferred: true
+    };
+  }
+
+  /**
+   * Log a repeated delivery and return the original email's processing result. Logged as an
+   * activity rather than on the email - the original may still be mid-pipeline rewriting its metadata.
+   */
+  async recordDuplicate(userId: string, existing: DedupRecord, emailData: IncomingEmail, source: string): Promise<ProcessedEmail> {
+    const { matchedBy } = this.dedupKey(emailData);
+    const delivery: DuplicateDelivery = {
+      duplicateOf: existing.emailId,
+      matchedBy,
+      mailbox: (emailData.toEmail || 'unknown').toLowerCase(),
+      source
+    };
+
+    await storage.createActivityLog({
+      userId,
+      action: 'Ignored duplicate delivery',
+      type: 'email_processed',
+      executedBy: 'ai',
+      customerEmail: emailData.fromEmail,
+      details: `Duplicate of an email already received (matched by ${matchedBy === 'message_id' ? 'Message-ID' : 'content hash'})`,
+      status: 'completed',
+      metadata: { duplicateDelivery: delivery, messageId: emailData.messageId }
+    });
+    console.log(`[DEDUP] Duplicate delivery of email ${existing.emailId} for ${userId} (${matchedBy}, ${source})`);
+
+    return this.resultFor(existing);
+  }
+
+  /**
+   * Remember how an email was processed so duplicates can be answered with the same result
+   */
+  async recordResult(userId: string, email: any, result: ProcessedEmail): Promise<void> {
+    const dedupKey = email.metadata?.dedupKey;
+    if (!dedupKey) return;
+    await this.getStore().setResult(userId, dedupKey, email.id, result);
+  }
+
+  /**
+   * The stored result, or an in-flight placeholder while the original is still being processed
+   */
+  resultFor(existing: DedupRecord): ProcessedEmail {
+    if (existing.result) {
+      return { ...existing.result, duplicate: true };
+    }
+    return {
+      id: existing.emailId,
+      classification: 'unclassified',
+      confidence: 0,
+      autoResponseSent: false,
+      escalated: false,
+      duplicate: true
+    };
+  }
+
+  /**
+   * Duplicate deliveries per receiving mailbox, most affected first
+   */
+  async getDuplicateReport(userId: string, options: { since?: Date } = {}): Promise<DuplicateReport> {
+    const logs: any[] = await storage.getActivityLogs(userId);
+    const since = options.since?.getTime() ?? 0;
+    const byMailbox = new Map<string, MailboxDuplicateStats>();
+    const affected = new Map<string, Set<string>>();
+
+    for (const log of logs) {
+      const delivery: DuplicateDelivery | undefined = log.metadata?.duplicateDelivery;
+      const at = new Date(log.createdAt);
+      if (!delivery || at.getTime() < since) continue;
+
+      const stats = byMailbox.get(delivery.mailbox) || {
+        mailbox: delivery.mailbox,
+        duplicates: 0,
+        byMessageId: 0,
+        byContentHash: 0,
+        emailsAffected: 0,
+        lastSeenAt: null
+      };
+      stats.duplicates++;
+      if (delivery.matchedBy === 'message_id') stats.byMessageId++;
+      else stats.byContentHash++;
+      if (!stats.lastSeenAt || at.toISOString() > stats.lastSeenAt) stats.lastSeenAt = at.toISOString();
+
+      const emails = affected.get(delivery.mailbox) || new Set<string>();
+      emails.add(delivery.duplicateOf);
+      affected.set(delivery.mailbox, emails);
+      stats.emailsAffected = emails.size;
+      byMailbox.set(delivery.mailbox, stats);
+    }
+
+    const mailboxes = Array.from(byMailbox.values()).sort((a, b) => b.duplicates - a.duplicates);
+    return {
+      userId,
+      since: options.since?.toISOString() ?? null,
+      totalDuplicates: mailboxes.reduce((sum, m) => sum + m.duplicates, 0),
+      mailboxes
+    };
+  }
+
+  private normalizeMessageId(messageId?: string): string | undefined {
+    const normalized = messageId?.trim().replace(/^<|>$/g, '').trim();
+    return normalized || undefined;
+  }
+}
+
+export const emailDedupService = new EmailDedupService();
@@ -0,0 +1,391 @@
+import { storage } from "../storage";
+import { autoResponderService, type IncomingEmail, type ProcessedEmail } from "./auto-responder";
+import { emailAnalysisService, type EmailAnalysisContext } from "./email-analysis-context";
+import { isProviderUnavailable } from "./provider-resilience";
+import { emailDedupService } from "./email-dedup";
+import { mimeParser } from "./mime-parser";
+import {
+  PostgresJobStore,
+  type EmailJob,
+  type EmailJobStore,
+  type JobCheckpoint,
+  type PipelineStage
+} from "./email-job-store";
+
+export interface StageRetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface WorkerOptions {
+  pollIntervalMs?: number;
+  concurrency?: number;           // Jobs in flight per worker
+  perTenantConcurrency?: number;  // Jobs in flight per tenant across all workers
+  leaseMs?: number;               // A job whose worker dies is picked up again after this; renewed while a stage runs
+}
+
+const STAGES: PipelineStage[] = ['store', 'classify', 'route'];
+
+// Storing is cheap and must not be lost; classification waits out LLM outages; routing may send mail
+export const STAGE_RETRY_POLICIES: Record<PipelineStage, StageRetryPolicy> = {
+  store: { maxAttempts: 8, baseDelayMs: 1_000, maxDelayMs: 60_000 },
+  classify: { maxAttempts: 5, baseDelayMs: 5_000, maxDelayMs: 5 * 60_000 },
+  route: { maxAttempts: 4, baseDelayMs: 10_000, maxDelayMs: 10 * 60_000 }
+};
+
+const DEFAULT_WORKER_OPTIONS: Required<WorkerOptions> = {
+  pollIntervalMs: 1_000,
+  concurrency: 4,
+  perTenantConcurrency: 2,
+  leaseMs: 5 * 60_000
+};
+
+/**
+ * Email Job Queue
+ * Runs inbound email processing as a durable job: each pipeline stage (store, classify, route)
+ * checkpoints its output, failed stages retry with backoff, a crashed worker's jobs resume from
+ * the last completed stage, and jobs that keep failing land in a dead-letter list for re-drive.
+ */
+class EmailJobQueue {
+  private store: EmailJobStore | null = null;
+  private options: Required<WorkerOptions> = DEFAULT_WORKER_OPTIONS;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight = new Set<string>();
+  private running = false;
+
+  /**
+   * Replace the job store (in-memory for tests and offline runs); null restores Postgres
+   */
+  setStore(store: EmailJobStore | null): void {
+    this.store = store;
+  }
+
+  getStore(): EmailJobStore {
+    if (!this.store) {
+      this.store = new PostgresJobStore();
+    }
+    return this.store;
+  }
+
+  /**
+   * Queue an inbound email for processing. Call this instead of processIncomingEmail.
+   */
+  async enqueue(userId: string, emailData: IncomingEmail): Promise<EmailJob> {
+    const job = await this.getStore().enqueue(userId, emailData);
+    console.log(`[EMAIL_QUEUE] Queued job ${job.id} for ${userId}: ${emailData.subject}`);
+    if (this.running) {
+      this.poll();
+    }
+    return job;
+  }
+
+  /**
+   * Queue a full MIME message. Parsing happens here so the job payload is the normalized email.
+   */
+  async enqueueRaw(userId: string, raw: string | Buffer): Promise<EmailJob> {
+    return this.enqueue(userId, mimeParser.toIncomingEmail(mimeParser.parse(raw)));
+  }
+
+  /**
+   * Queue an email that inline processing couldn't finish because a provider was down.
+   * It resumes at the given stage no earlier than runAt.
+   */
+  async defer(userId: string, emailData: IncomingEmail, checkpoint: JobCheckpoint, stage: PipelineStage, runAt: Date): Promise<EmailJob> {
+    const store = this.getStore();
+    const queued = await store.enqueue(userId, emailData, checkpoint, stage);
+    const job = (await store.update(queued.id, { runAt }))!;
+    console.log(`[EMAIL_QUEUE] Deferred email ${checkpoint.emailId} for ${userId} at ${stage} until ${runAt.toISOString()}`);
+    return job;
+  }
+
+  start(options: WorkerOptions = {}): void {
+    if (this.running) return;
+    this.options = { ...DEFAULT_WORKER_OPTIONS, ...options };
+    this.running = true;
+    console.log(`[EMAIL_QUEUE] Worker started (concurrency ${this.options.concurrency}, per tenant ${this.options.perTenantConcurrency})`);
+    this.poll();
+  }
+
+  /**
+   * Stop polling and wait for in-flight jobs to reach a checkpoint
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    while (this.inFlight.size > 0) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  }
+
+  /**
+   * Claim and run whatever is runnable now. Returns the number of jobs run.
+   */
+  async runOnce(options: WorkerOptions = {}): Promise<number> {
+    const settings = { ...this.options, ...options };
+    const free = settings.concurrency - this.inFlight.size;
+    if (free <= 0) return 0;
+
+    const jobs = await this.getStore().claim({
+      limit: free,
+      perTenantLimit: settings.perTenantConcurrency,
+      leaseMs: settings.leaseMs
+    });
+
+    await Promise.all(jobs.map(job => this.runJob(job, settings.leaseMs)));
+    return jobs.length;
+  }
+
+  /**
+   * Run a claimed job from its current stage until it completes or a stage fails. The lease is
+   * renewed while a stage runs; if another worker reclaims the job anyway, this one stops writing.
+   */
+  async runJob(job: EmailJob, leaseMs = this.options.leaseMs): Promise<EmailJob> {
+    this.inFlight.add(job.id);
+    const store = this.getStore();
+    const lease = job.leaseToken;
+    const heartbeat = setInterval(() => {
+      store.update(job.id, { lockedUntil: new Date(Date.now() + leaseMs) }, lease)
+        .then(renewed => {
+          if (!renewed) console.warn(`[EMAIL_QUEUE] Could not renew lease on job ${job.id}: it was reclaimed`);
+        })
+        .catch(error => console.error(`[EMAIL_QUEUE] Lease renewal failed for job ${job.id}:`, error));
+    }, leaseMs / 3);
+    heartbeat.unref?.();
+
+    const analysis = emailAnalysisService.createContext(job.userId, job.payload);
+    // Nothing to analyze yet if the store stage turns out to be a duplicate delivery
+    if (job.stage !== 'store') {
+      analysis.prefetch();
+    }
+
+    let current = job;
+    try {
+      while (current.status === 'running') {
+        const stage = current.stage;
+        try {
+          const outcome = await this.runStage(current, analysis);
+          const next = outcome.done ? undefined : STAGES[STAGES.indexOf(stage) + 1];
+          if (stage === 'store' && next) {
+            analysis.prefetch();
+          }
+
+          const updated = await store.update(current.id, next
+            ? { stage: next, checkpoint: outcome.checkpoint, attempts: 0, lockedUntil: new Date(Date.now() + leaseMs) }
+            : { status: 'completed', checkpoint: outcome.checkpoint, attempts: 0, lockedUntil: null, result: outcome.result ?? null },
+            lease
+          );
+          if (!updated) {
+            return this.leaseLost(current);
+          }
+          current = updated;
+        } catch (error) {
+          const failed = await this.failStage(current, error, lease);
+          if (!failed) {
+            return this.leaseLost(current);
+          }
+          current = failed;
+        }
+      }
+
+      if (current.status === 'completed') {
+        console.log(`[EMAIL_QUEUE] Job ${current.id} completed (email ${current.checkpoint.emailId ?? current.result?.id})`);
+      }
+      return current;
+    } finally {
+      clearInterval(heartbeat);
+      this.inFlight.delete(job.id);
+    }
+  }
+
+  /**
+   * Jobs that exhausted their retries, most recent first
+   */
+  async getDeadLetters(userId?: string, limit = 100): Promise<EmailJob[]> {
+    return this.getStore().list({ status: 'dead', userId, limit });
+  }
+
+  /**
+   * Put dead jobs back on the queue. They resume at the stage that failed with a fresh retry budget.
+   */
+  async redrive(jobIds: string[]): Promise<EmailJob[]> {
+    const redriven: EmailJob[] = [];
+    for (const id of jobIds) {
+      const job = await this.getStore().get(id);
+      if (!job || job.status !== 'dead') {
+        console.warn(`[EMAIL_QUEUE] Not re-driving ${id}: ${job ? `status is ${job.status}` : 'not found'}`);
+        continue;
+      }
+      const updated = await this.getStore().update(id, { status: 'queued', attempts: 0, runAt: new Date(), lockedUntil: null, deadAt: null });
+      console.log(`[EMAIL_QUEUE] Re-driving job ${id} from stage ${job.stage}`);
+      redriven.push(updated!);
+    }
+    if (this.running && redriven.length > 0) {
+      this.poll();
+    }
+    return redriven;
+  }
+
+  async redriveAll(userId?: string): Promise<EmailJob[]> {
+    const dead = await this.getDeadLetters(userId, 1000);
+    return this.redrive(dead.map(job => job.id));
+  }
+
+  /**
+   * Emails left in 'processing' by inline processing that crashed before the queue existed (or
+   * outside it) get a job that resumes them at classification
+   */
+  async recoverStuckEmails(userId: string, olderThanMs = 15 * 60_000): Promise<EmailJob[]> {
+    const emails: any[] = await storage.getEmailsByStatus(userId, 'processing');
+    const cutoff = Date.now() - olderThanMs;
+    const recovered: EmailJob[] = [];
+
+    for (const email of emails) {
+      if (new Date(email.createdAt).getTime() > cutoff) continue;
+      if (await this.getStore().findByEmailId(email.id)) continue;
+
+      const payload: IncomingEmail = {
+        fromEmail: email.fromEmail,
+        toEmail: email.toEmail,
+        subject: email.subject,
+        body: email.body,
+        messageId: email.metadata?.messageId,
+        fromName: email.metadata?.fromName,
+        autoSubmitted: email.metadata?.autoSubmitted
+      };
+      recovered.push(await this.getStore().enqueue(userId, payload, { emailId: email.id }, 'classify'));
+    }
+
+    if (recovered.length > 0) {
+      console.log(`[EMAIL_QUEUE] Queued ${recovered.length} stuck emails for ${userId}`);
+    }
+    return recovered;
+  }
+
+  private async runStage(job: EmailJob, analysis: EmailAnalysisContext): Promise<{ checkpoint: JobCheckpoint; result?: ProcessedEmail; done?: boolean }> {
+    const { userId, payload, checkpoint } = job;
+
+    switch (job.stage) {
+      case 'store': {
+        const stored = await emailDedupService.withLock(userId, payload, async () => {
+          const existing = await emailDedupService.findExisting(userId, payload);
+          if (!existing) {
+            return { emailId: (await autoResponderService.storeIncomingEmail(userId, payload, { jobId: job.id })).id };
+          }
+          // Stored by an earlier attempt of this job whose checkpoint was lost - carry on with it
+          if (existing.jobId === job.id) {
+            return { emailId: existing.emailId };
+          }
+          // The delivery that stored it crashed mid-pipeline - this job finishes it
+          if (await emailDedupService.isStalled(existing)) {
+            await emailDedupService.resume(existing, job.id);
+            return { emailId: existing.emailId };
+          }
+          return { duplicate: await emailDedupService.recordDuplicate(userId, existing, payload, 'queue') };
+        });
+        if (stored.duplicate) {
+          console.log(`[EMAIL_QUEUE] Job ${job.id} is a duplicate delivery of email ${stored.duplicate.id}`);
+          return { checkpoint, result: stored.duplicate, done: true };
+        }
+        return { checkpoint: { ...checkpoint, emailId: stored.emailId } };
+      }
+
+      case 'classify': {
+        const email = await this.loadEmail(userId, checkpoint.emailId);
+        const { classification, sentimentResult } = await autoResponderService.classifyIncomingEmail(userId, email, payload, analysis);
+        return { checkpoint: { ...checkpoint, classification, sentiment: sentimentResult } };
+      }
+
+      case 'route': {
+        const email = await this.loadEmail(userId, checkpoint.emailId);
+        // Routing already ran (escalated, queued or sent) - finishing again would act twice
+        if (email.status !== 'processing') {
+          console.warn(`[EMAIL_QUEUE] Email ${email.id} already routed (${email.status}), completing job ${job.id}`);
+          return { checkpoint };
+        }
+        const result = await autoResponderService.routeIncomingEmail(
+          userId, email, payload, checkpoint.classification!, checkpoint.sentiment, analysis
+        );
+        return { checkpoint, result };
+      }
+    }
+  }
+
+  private async failStage(job: EmailJob, error: unknown, lease: string | null): Promise<EmailJob | undefined> {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // A provider outage isn't this email's fault: wait for the breaker without spending the retry budget
+    if (isProviderUnavailable(error)) {
+      const runAt = new Date(Math.max(error.retryAt.getTime(), Date.now() + 1_000));
+      console.warn(`[EMAIL_QUEUE] Job ${job.id} deferred at ${job.stage} until ${runAt.toISOString()}: ${message}`);
+      return this.getStore().update(job.id, {
+        status: 'queued', lastError: message, lockedUntil: null, runAt
+      }, lease);
+    }
+
+    const policy = STAGE_RETRY_POLICIES[job.stage];
+    const attempts = job.attempts + 1;
+    const errors = [...job.errors, { stage: job.stage, attempt: attempts, error: message, at: new Date().toISOString() }].slice(-20);
+
+    if (attempts >= policy.maxAttempts) {
+      console.error(`[EMAIL_QUEUE] Job ${job.id} dead after ${attempts} attempts at ${job.stage}: ${message}`);
+      return this.getStore().update(job.id, {
+        status: 'dead', attempts, errors, lastError: message, lockedUntil: null, deadAt: new Date()
+      }, lease);
+    }
+
+    const delay = this.backoff(policy, attempts);
+    console.warn(`[EMAIL_QUEUE] Job ${job.id} failed at ${job.stage} (attempt ${attempts}/${policy.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`);
+    return this.getStore().update(job.id, {
+      status: 'queued', attempts, errors, lastError: message, lockedUntil: null, runAt: new Date(Date.now() + delay)
+    }, lease);
+  }
+
+  /**
+   * The lease expired and another worker claimed the job - its result belongs to that worker
+   */
+  private leaseLost(job: EmailJob): EmailJob {
+    console.warn(`[EMAIL_QUEUE] Job ${job.id} lost its lease at ${job.stage}, leaving it to the worker that reclaimed it`);
+    return job;
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  backoff(policy: StageRetryPolicy, attempts: number): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempts - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  private async loadEmail(userId: string, emailId?: string): Promise<any> {
+    const email = emailId ? await storage.getEmail(emailId) : undefined;
+    if (!email || email.userId !== userId) {
+      throw new Error(`Email ${emailId} not found`);
+    }
+    return email;
+  }
+
+  private poll(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.runOnce()
+      .catch(error => console.error('[EMAIL_QUEUE] Poll failed:', error))
+      .finally(() => {
+        if (this.running && !this.timer) {
+          this.timer = setTimeout(() => {
+            this.timer = null;
+            this.poll();
+          }, this.options.pollIntervalMs);
+          this.timer.unref?.();
+        }
+      });
+  }
+}
+
+export const emailJobQueue = new EmailJobQueue();
@@ -0,0 +1,268 @@
+import { randomUUID } from "crypto";
+import { and, desc, eq, gt, inArray, lte, or, sql } from "drizzle-orm";
+import { emailJobs } from "../../shared/email-jobs-schema";
+import type { ClassificationResult, IncomingEmail, ProcessedEmail } from "./auto-responder";
+
+/**
+ * Pipeline stages in order. A job always records the next stage to run.
+ */
+export type PipelineStage = 'store' | 'classify' | 'route';
+
+export type EmailJobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+/**
+ * Outputs of completed stages - what a resumed job picks up from
+ */
+export interface JobCheckpoint {
+  emailId?: string;
+  classification?: ClassificationResult;
+  sentiment?: any;
+}
+
+export interface JobError {
+  stage: PipelineStage;
+  attempt: number;
+  error: string;
+  at: string;
+}
+
+export interface EmailJob {
+  id: string;
+  userId: string;
+  payload: IncomingEmail;
+  status: EmailJobStatus;
+  stage: PipelineStage;
+  checkpoint: JobCheckpoint;
+  attempts: number;             // Failed attempts at the current stage
+  runAt: Date;                  // Not before - pushed out by retry backoff
+  lockedUntil: Date | null;     // Lease of the worker running the job; expired leases are reclaimed
+  leaseToken: string | null;    // Issued on each claim - updates from a worker that lost its lease are refused
+  lastError: string | null;
+  errors: JobError[];
+  result: ProcessedEmail | null;
+  createdAt: Date;
+  updatedAt: Date;
+  deadAt: Date | null;
+}
+
+export type EmailJobUpdate = Partial<Pick<EmailJob,
+  'status' | 'stage' | 'checkpoint' | 'attempts' | 'runAt' | 'lockedUntil' | 'lastError' | 'errors' | 'result' | 'deadAt'
+>>;
+
+export interface ClaimOptions {
+  limit: number;
+  perTenantLimit: number;
+  leaseMs: number;
+}
+
+/**
+ * Where jobs live. claim() must be atomic across workers: a job is handed to one worker
+ * at a time, and no tenant ever has more than perTenantLimit jobs with a live lease.
+ * update() with a lease token only applies while that lease still holds the running job.
+ */
+export interface EmailJobStore {
+  enqueue(userId: string, payload: IncomingEmail, checkpoint?: JobCheckpoint, stage?: PipelineStage): Promise<EmailJob>;
+  claim(options: ClaimOptions): Promise<EmailJob[]>;
+  update(id: string, updates: EmailJobUpdate, leaseToken?: string | null): Promise<EmailJob | undefined>;
+  get(id: string): Promise<EmailJob | undefined>;
+  list(filter: { status?: EmailJobStatus; userId?: string; limit?: number }): Promise<EmailJob[]>;
+  findByEmailId(emailId: string): Promise<EmailJob | undefined>;
+}
+
+/**
+ * In-memory job store for tests and offline runs
+ */
+export class MemoryJobStore implements EmailJobStore {
+  private jobs = new Map<string, EmailJob>();
+
+  reset(): void {
+    this.jobs.clear();
+  }
+
+  async enqueue(userId: string, payload: IncomingEmail, checkpoint: JobCheckpoint = {}, stage: PipelineStage = 'store'): Promise<EmailJob> {
+    const now = new Date();
+    const job: EmailJob = {
+      id: randomUUID(),
+      userId,
+      payload,
+      status: 'queued',
+      stage,
+      checkpoint,
+      attempts: 0,
+      runAt: now,
+      lockedUntil: null,
+      leaseToken: null,
+      lastError: null,
+      errors: [],
+      result: null,
+      createdAt: now,
+      updatedAt: now,
+      deadAt: null
+    };
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async claim(options: ClaimOptions): Promise<EmailJob[]> {
+    const now = Date.now();
+    const isLive = (job: EmailJob) => job.status === 'running' && !!job.lockedUntil && job.lockedUntil.getTime() > now;
+    const running = new Map<string, number>();
+    this.jobs.forEach(job => {
+      if (isLive(job)) running.set(job.userId, (running.get(job.userId) || 0) + 1);
+    });
+
+    const runnable = Array.from(this.jobs.values())
+      .filter(job => (job.status === 'queued' && job.runAt.getTime() <= now) || (job.status === 'running' && !isLive(job)))
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+
+    const claimed: EmailJob[] = [];
+    for (const job of runnable) {
+      if (claimed.length >= options.limit) break;
+      const tenantRunning = running.get(job.userId) || 0;
+      if (tenantRunning >= options.perTenantLimit) continue;
+
+      running.set(job.userId, tenantRunning + 1);
+      Object.assign(job, { status: 'running', lockedUntil: new Date(now + options.leaseMs), leaseToken: randomUUID(), updatedAt: new Date(now) });
+      claimed.push({ ...job });
+    }
+    return claimed;
+  }
+
+  async update(id: string, updates: EmailJobUpdate, leaseToken?: string | null): Promise<EmailJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    if (leaseToken && (job.status !== 'running' || job.leaseToken !== leaseToken)) return undefined;
+    Object.assign(job, updates, { updatedAt: new Date() });
+    return { ...job };
+  }
+
+  async get(id: string): Promise<EmailJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  async list(filter: { status?: EmailJobStatus; userId?: string; limit?: number }): Promise<EmailJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => (!filter.status || job.status === filter.status) && (!filter.userId || job.userId === filter.userId))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, filter.limit ?? 100)
+      .map(job => ({ ...job }));
+  }
+
+  async findByEmailId(emailId: string): Promise<EmailJob | undefined> {
+    const job = Array.from(this.jobs.values()).find(j => j.checkpoint.emailId === emailId);
+    return job ? { ...job } : undefined;
+  }
+}
+
+// Serializes claims so per-tenant limits hold across workers (window functions can't take row locks)
+const CLAIM_LOCK_KEY = 72_401_003;
+
+/**
+ * Postgres job store on the application's database. The email_jobs table is defined in
+ * shared/email-jobs-schema.ts and created with the rest of the schema (npm run db:push).
+ */
+export class PostgresJobStore implements EmailJobStore {
+  async enqueue(userId: string, payload: IncomingEmail, checkpoint: JobCheckpoint = {}, stage: PipelineStage = 'store'): Promise<EmailJob> {
+    const { db } = await import('../db');
+    const [row] = await db.insert(emailJobs)
+      .values({ id: randomUUID(), userId, payload, status: 'queued', stage, checkpoint })
+      .returning();
+    return this.toJob(row);
+  }
+
+  async claim(options: ClaimOptions): Promise<EmailJob[]> {
+    const { db } = await import('../db');
+    return db.transaction(async tx => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`);
+
+      const running = tx.$with('running').as(
+        tx.select({ userId: emailJobs.userId, count: sql<number>`count(*)::int`.as('count') })
+          .from(emailJobs)
+          .where(and(eq(emailJobs.status, 'running'), gt(emailJobs.lockedUntil, sql`now()`)))
+          .groupBy(emailJobs.userId)
+      );
+      // Each runnable job's place in its tenant's line, after the jobs the tenant already has running
+      const candidates = tx.$with('candidates').as(
+        tx.select({
+          id: emailJobs.id,
+          runAt: emailJobs.runAt,
+          createdAt: emailJobs.createdAt,
+          slot: sql<number>`row_number() OVER (PARTITION BY ${emailJobs.userId} ORDER BY ${emailJobs.runAt}, ${emailJobs.createdAt}) + coalesce(${running.count}, 0)`.as('slot')
+        })
+          .from(emailJobs)
+          .leftJoin(running, eq(running.userId, emailJobs.userId))
+          .where(or(
+            and(eq(emailJobs.status, 'queued'), lte(emailJobs.runAt, sql`now()`)),
+            and(eq(emailJobs.status, 'running'), lte(emailJobs.lockedUntil, sql`now()`))
+          ))
+      );
+
+      const rows = await tx.with(running, candidates)
+        .update(emailJobs)
+        .set({
+          status: 'running',
+          lockedUntil: sql`now() + ${`${options.leaseMs} milliseconds`}::interval`,
+          leaseToken: sql`gen_random_uuid()::text`,
+          updatedAt: sql`now()`
+        })
+        .where(inArray(emailJobs.id, tx.select({ id: candidates.id })
+          .from(candidates)
+          .where(lte(candidates.slot, options.perTenantLimit))
+          .orderBy(candidates.runAt, candidates.createdAt)
+          .limit(options.limit)))
+        .returning();
+      return rows.map(row => this.toJob(row));
+    });
+  }
+
+  async update(id: string, updates: EmailJobUpdate, leaseToken?: string | null): Promise<EmailJob | undefined> {
+    const { db } = await import('../db');
+    const [row] = await db.update(emailJobs)
+      .set({ ...updates, updatedAt: sql`now()` })
+      .where(and(
+        eq(emailJobs.id, id),
+        leaseToken ? and(eq(emailJobs.status, 'running'), eq(emailJobs.leaseToken, leaseToken)) : undefined
+      ))
+      .returning();
+    return row ? this.toJob(row) : undefined;
+  }
+
+  async get(id: string): Promise<EmailJob | undefined> {
+    const { db } = await import('../db');
+    const [row] = await db.select().from(emailJobs).where(eq(emailJobs.id, id));
+    return row ? this.toJob(row) : undefined;
+  }
+
+  async list(filter: { status?: EmailJobStatus; userId?: string; limit?: number }): Promise<EmailJob[]> {
+    const { db } = await import('../db');
+    const rows = await db.select().from(emailJobs)
+      .where(and(
+        filter.status ? eq(emailJobs.status, filter.status) : undefined,
+        filter.userId ? eq(emailJobs.userId, filter.userId) : undefined
+      ))
+      .orderBy(desc(emailJobs.updatedAt))
+      .limit(filter.limit ?? 100);
+    return rows.map(row => this.toJob(row));
+  }
+
+  async findByEmailId(emailId: string): Promise<EmailJob | undefined> {
+    const { db } = await import('../db');
+    const [row] = await db.select().from(emailJobs)
+      .where(sql`${emailJobs.checkpoint}->>'emailId' = ${emailId}`)
+      .limit(1);
+    return row ? this.toJob(row) : undefined;
+  }
+
+  private toJob(row: typeof emailJobs.$inferSelect): EmailJob {
+    return {
+      ...row,
+      payload: row.payload as IncomingEmail,
+      status: row.status as EmailJobStatus,
+      stage: row.stage as PipelineStage,
+      checkpoint: (row.checkpoint || {}) as JobCheckpoint,
+      errors: (row.errors || []) as JobError[],
+      result: row.result as ProcessedEmail | null
+    };
+  }
+}
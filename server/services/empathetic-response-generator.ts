@@ -1,9 +1,9 @@
-import OpenAI from "openai";
 import { sentimentAnalysisService } from "./sentiment-analysis";
-import { hallucinationPreventionService } from "./hallucination-prevention";
+import { hallucinationPreventionService, type RetrievedChunk } from "./hallucination-prevention";
 import { aiAgentSignatureService } from "./ai-agent-signature";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { llmProviderService } from "./llm-provider";
+import { responseCitationService, CITATION_INSTRUCTIONS, type Citation } from "./response-citations";
+import type { EmailAnalysisContext } from "./email-analysis-context";
 
 interface EmpathyContext {
   sentiment: string;
@@ -23,6 +23,7 @@ interface ResponseContext {
   orderData?: any;
   productData?: any;
   cancellationData?: any;
+  promoRefundData?: any;
 }
 
 export interface EmpatheticResponse {
@@ -32,6 +33,8 @@ export interface EmpatheticResponse {
   tone: 'professional' | 'empathetic' | 'apologetic' | 'urgent';
   confidenceScore: number;
   emotionalAcknowledgment: string;
+  citations: Citation[];        // Knowledge chunks backing claims in the body
+  sources: RetrievedChunk[];    // Knowledge chunks the draft was generated from
 }
 
 class EmpatheticResponseGenerator {
@@ -47,7 +50,8 @@ class EmpatheticResponseGenerator {
     responseContext: ResponseContext,
     empathyLevel: number = 3,
     customerEmail?: string,
-    isFirstReply?: boolean
+    isFirstReply?: boolean,
+    options: { dryRun?: boolean; analysis?: EmailAnalysisContext } = {}
   ): Promise<EmpatheticResponse> {
     
     console.log('[EMPATHETIC_GENERATOR] Starting response generation:', {
@@ -56,30 +60,11 @@ class EmpatheticResponseGenerator {
       empathyLevel
     });
     
-    // Step 1: Analyze customer emotional state
-    const empathyContext = await this.analyzeCustomerEmotion(emailContent);
-    
-    // Step 2: Get grounded knowledge for accurate problem-solving
-    let groundedContext = {};
-    try {
-      console.log('[EMPATHETIC_GENERATOR] Fetching grounded context...');
-      const knowledgeBase = await hallucinationPreventionService.getRelevantKnowledge(
-        userId,
-        `${emailSubject} ${emailContent}`
-      );
-      groundedContext = { 
-        relevantContent: knowledgeBase.relevantContent.slice(0, 3),
-        hasTrainingData: knowledgeBase.hasTrainingData
-      };
-      console.log('[EMPATHETIC_GENERATOR] Grounded context received:', {
-        hasRelevantContent: !!(groundedContext?.relevantContent?.length > 0),
-        contentCount: groundedContext?.relevantContent?.length || 0,
-        hasTrainingData: groundedContext?.hasTrainingData
-      });
-    } catch (error) {
-      console.error('[EMPATHETIC_GENERATOR] Failed to retrieve grounded context:', error);
-      groundedContext = { relevantContent: [], hasTrainingData: false };
-    }
+    // Step 1 & 2: Customer emotional state and grounded knowledge are independent - fetch together
+    const [empathyContext, groundedContext] = await Promise.all([
+      this.analyzeCustomerEmotion(emailContent, options.analysis),
+      this.getGroundedContext(userId, emailSubject, emailContent, options.analysis)
+    ]);
     
     // Step 2.5: Check loyal customer status and settings if this is the first reply
     let loyalCustomerGreeting = '';
@@ -110,6 +95,11 @@ class EmpatheticResponseGenerator {
       userId
     );
     
+    // Dry runs (rule simulation) must not show up as agent activity
+    if (options.dryRun) {
+      return response;
+    }
+    
     // CRITICAL: Log AI agent activity for user visibility
     try {
       const { storage } = await import('../storage');
@@ -130,6 +120,7 @@ class EmpatheticResponseGenerator {
           urgencyLevel: empathyContext.urgencyLevel,
           empathyLevel,
           confidenceScore: response.confidenceScore,
+          citations: responseCitationService.summarizeCitations(response.citations),
           orderData: responseContext.orderData ? {
             hasOrderData: true,
             orderStatus: responseContext.orderData.status,
@@ -145,12 +136,40 @@ class EmpatheticResponseGenerator {
     return response;
   }
   
+  /**
+   * Get grounded knowledge for accurate problem-solving
+   */
+  private async getGroundedContext(userId: string, emailSubject: string, emailContent: string, analysis?: EmailAnalysisContext): Promise<any> {
+    try {
+      console.log('[EMPATHETIC_GENERATOR] Fetching grounded context...');
+      const knowledgeBase = analysis
+        ? await analysis.knowledge()
+        : await hallucinationPreventionService.getRelevantKnowledge(userId, `${emailSubject} ${emailContent}`);
+      const groundedContext = { 
+        relevantContent: knowledgeBase.relevantContent.slice(0, 3),
+        chunks: knowledgeBase.chunks.slice(0, 3),
+        hasTrainingData: knowledgeBase.hasTrainingData
+      };
+      console.log('[EMPATHETIC_GENERATOR] Grounded context received:', {
+        hasRelevantContent: groundedContext.relevantContent.length > 0,
+        contentCount: groundedContext.relevantContent.length,
+        hasTrainingData: groundedContext.hasTrainingData
+      });
+      return groundedContext;
+    } catch (error) {
+      console.error('[EMPATHETIC_GENERATOR] Failed to retrieve grounded context:', error);
+      return { relevantContent: [], chunks: [], hasTrainingData: false };
+    }
+  }
+
   /**
    * Analyze customer emotional state for empathy calibration
    */
-  private async analyzeCustomerEmotion(emailContent: string): Promise<EmpathyContext> {
-    // Get sentiment analysis from Amazon Comprehend
-    const sentiment = await sentimentAnalysisService.analyzeSentiment(emailContent);
+  private async analyzeCustomerEmotion(emailContent: string, analysis?: EmailAnalysisContext): Promise<EmpathyContext> {
+    // Get sentiment analysis from Amazon Comprehend (already computed for this email when there is an analysis context)
+    const sentiment = analysis
+      ? await analysis.sentiment()
+      : await sentimentAnalysisService.analyzeSentiment(emailContent);
     
     // Map sentiment to customer emotion levels
     let customerEmotion: EmpathyContext['customerEmotion'] = 'calm';
@@ -255,8 +274,10 @@ RESPONSE GUIDELINES:
    ${groundedContext.relevantContent && groundedContext.relevantContent.length > 0 ? `
    REAL TRAINING DATA (Use this specific information to answer the customer):
    ${groundedContext.relevantContent.map((content: any, index: number) => `
-   ${index + 1}. ${typeof content === 'string' ? content : content.content || content.text || JSON.stringify(content)}`).join('\n')}
+   [${index + 1}] (${groundedContext.chunks?.[index]?.url || 'company knowledge'}) ${typeof content === 'string' ? content : content.content || content.text || JSON.stringify(content)}`).join('\n')}
    CRITICAL: Answer using ONLY the above training data. Never use placeholders.
+
+   ${CITATION_INSTRUCTIONS.split('\n').join('\n   ')}
    ` : `
    NO TRAINING DATA AVAILABLE - Generate low confidence response and suggest escalation to human.
    `}
@@ -306,8 +327,8 @@ Respond with JSON:
   "emotionalAcknowledgment": "[Brief description of how you acknowledged their emotion]"
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const llm = await llmProviderService.getProvider(userId || undefined);
+    const responseContent = await llm.createChatCompletion({
       messages: [
         {
           role: "system",
@@ -318,24 +339,31 @@ Respond with JSON:
           content: prompt
         }
       ],
-      response_format: { type: "json_object" },
+      jsonResponse: true,
       temperature: 0.7 // Allow creativity for empathetic responses
     });
     
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(responseContent || '{}');
     
     // Generate personalized AI agent signature  
     const { aiAgentSignatureService } = await import('./ai-agent-signature');
     const aiSignature = await aiAgentSignatureService.generateAIAgentSignature(userId);
-    const bodyWithSignature = `${result.body}\n\n${aiSignature}`;
+    // Markers are for reviewers, not customers - strip them from the body before it is signed
+    const { text: body, citations } = responseCitationService.extractCitations(
+      result.body || '',
+      groundedContext.chunks || []
+    );
+    const bodyWithSignature = `${body}\n\n${aiSignature}`;
     
     return {
       subject: result.subject,
-      body: result.body,
+      body,
       bodyWithSignature,
       tone: result.tone,
       confidenceScore: result.confidenceScore,
-      emotionalAcknowledgment: result.emotionalAcknowledgment
+      emotionalAcknowledgment: result.emotionalAcknowledgment,
+      citations,
+      sources: groundedContext.chunks || []
     };
   }
   
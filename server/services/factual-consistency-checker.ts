@@ -0,0 +1,319 @@
+import type { RetrievedChunk } from "./hallucination-prevention";
+
+export type FactualClaimType =
+  | 'tracking_number'
+  | 'order_number'
+  | 'money'
+  | 'percentage'
+  | 'date'
+  | 'duration'
+  | 'url'
+  | 'policy';
+
+export interface ClaimCheck {
+  type: FactualClaimType;
+  text: string;             // Claim as it appears in the draft
+  supported: boolean;
+  source?: string;          // Evidence that backs it, e.g. "orderData" or "chunk:<id>"
+  severity: 'flag' | 'block';
+}
+
+export interface FactualConsistencyResult {
+  verdict: 'pass' | 'flag' | 'block';
+  claims: ClaimCheck[];
+  unsupported: ClaimCheck[];
+  summary: string;
+}
+
+/**
+ * Everything a draft is allowed to state as fact
+ */
+export interface FactCheckEvidence {
+  responseContext?: any;      // orderData, cancellationData, promoRefundData, productData, ...
+  chunks?: RetrievedChunk[];  // Knowledge the draft was generated from
+  customerEmail?: string;     // Order and tracking numbers the customer gave can be repeated back
+}
+
+interface EvidenceSource {
+  source: string;
+  text: string;
+  numbers: Set<string>;
+  dates: DateParts[];
+}
+
+interface DateParts {
+  month: number;
+  day: number;
+  year?: number;
+}
+
+// Wrong identifiers and amounts are harmful to send; soft facts go to a human to confirm
+const SEVERITY: Record<FactualClaimType, 'flag' | 'block'> = {
+  tracking_number: 'block',
+  order_number: 'block',
+  money: 'block',
+  percentage: 'flag',
+  date: 'flag',
+  duration: 'flag',
+  url: 'flag',
+  policy: 'flag'
+};
+
+// Policy terms a draft can only promise if the tenant's knowledge or the order data says so
+const POLICY_TERMS = [
+  'free shipping', 'free returns', 'free return shipping', 'prepaid return label', 'prepaid label',
+  'non-refundable', 'final sale', 'store credit', 'full refund', 'partial refund', 'restocking fee',
+  'free exchange', 'lifetime warranty', 'money-back guarantee', 'price match', 'price adjustment',
+  'international shipping', 'ship internationally', 'expedited shipping', 'overnight shipping',
+  'no questions asked'
+];
+
+// "We'll get back to you within 24 hours" is the generator's own service promise, not a claim about the order
+const RESPONSE_TIME_LEAD = /\b(respond|reply|get back|follow up|hear (?:back )?from|be in touch|reach out|update you|contact you|review)\w*\b[^.!?\n]{0,40}$/i;
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+const PATTERNS = {
+  url: /https?:\/\/[^\s)>\]"']+/gi,
+  money: /\$\s?(\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)|\b(\d+(?:\.\d{1,2})?)\s?(?:dollars|usd)\b/gi,
+  percentage: /\b(\d+(?:\.\d+)?)\s?(?:%|percent\b)/gi,
+  duration: /\b(\d+)(?:\s?(?:-|–|to)\s?(\d+))?\s?(business days?|working days?|days?|hours?|weeks?|months?|years?)\b/gi,
+  orderNumber: /(?:order\s*(?:number|no\.?)?\s*#?\s*|#)(\d{3,})\b/gi,
+  trackingNumber: /\b(?=[A-Z0-9]*\d[A-Z0-9]*\d)(?=[0-9]*[A-Z]|[0-9]{12,})[A-Z0-9]{10,34}\b/g,
+  isoDate: /\b(\d{4})-(\d{1,2})-(\d{1,2})(?=T|\b)/g,
+  slashDate: /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/g,
+  monthDay: new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'gi'),
+  dayMonth: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\.?(?:,?\\s+(\\d{4}))?\\b`, 'gi')
+};
+
+/**
+ * Factual Consistency Checker
+ * Verifies the tracking numbers, order numbers, amounts, dates and policy terms in a
+ * generated draft against the data it was generated from. Runs after generation and
+ * before the draft reaches the approval queue or the customer.
+ */
+class FactualConsistencyChecker {
+
+  checkDraft(draft: string, evidence: FactCheckEvidence): FactualConsistencyResult {
+    const sources = this.buildEvidence(evidence);
+    const claims = this.extractClaims(draft).map(claim => this.verifyClaim(claim, sources));
+    const unsupported = claims.filter(c => !c.supported);
+
+    const verdict: FactualConsistencyResult['verdict'] = unsupported.some(c => c.severity === 'block')
+      ? 'block'
+      : unsupported.length > 0 ? 'flag' : 'pass';
+
+    const summary = unsupported.length === 0
+      ? `All ${claims.length} factual claims supported`
+      : `Unsupported ${unsupported.map(c => `${c.type.replace('_', ' ')} "${c.text}"`).join(', ')}`;
+
+    if (verdict !== 'pass') {
+      console.log(`[FACT_CHECK] Draft ${verdict === 'block' ? 'blocked' : 'flagged'}: ${summary}`);
+    }
+
+    return { verdict, claims, unsupported, summary };
+  }
+
+  /**
+   * Pull checkable claims out of a draft. URLs are removed first so their digits
+   * are not read as amounts or identifiers.
+   */
+  private extractClaims(draft: string): Array<{ type: FactualClaimType; text: string; value: string }> {
+    const claims: Array<{ type: FactualClaimType; text: string; value: string }> = [];
+    const add = (type: FactualClaimType, text: string, value: string) => {
+      if (!claims.some(c => c.type === type && c.value === value)) {
+        claims.push({ type, text: text.trim(), value });
+      }
+    };
+
+    for (const match of Array.from(draft.matchAll(PATTERNS.url))) {
+      add('url', match[0], this.normalizeUrl(match[0]));
+    }
+    const text = draft.replace(PATTERNS.url, ' ');
+
+    for (const match of Array.from(text.matchAll(PATTERNS.orderNumber))) {
+      add('order_number', match[0], match[1]);
+    }
+    for (const match of Array.from(text.matchAll(PATTERNS.trackingNumber))) {
+      add('tracking_number', match[0], match[0].toLowerCase());
+    }
+    for (const match of Array.from(text.matchAll(PATTERNS.money))) {
+      add('money', match[0], this.canonicalNumber(match[1] || match[2]));
+    }
+    for (const match of Array.from(text.matchAll(PATTERNS.percentage))) {
+      add('percentage', match[0], this.canonicalNumber(match[1]));
+    }
+    for (const match of Array.from(text.matchAll(PATTERNS.duration))) {
+      if (RESPONSE_TIME_LEAD.test(text.slice(0, match.index))) continue;
+      add('duration', match[0], match[0].toLowerCase());
+    }
+    for (const term of POLICY_TERMS) {
+      const match = text.match(new RegExp(`\\b${this.termPattern(term)}\\b`, 'i'));
+      if (match) {
+        add('policy', match[0], this.compactTerm(term));
+      }
+    }
+    for (const { text: dateText, parts } of this.extractDates(text)) {
+      add('date', dateText, `${parts.year || ''}-${parts.month}-${parts.day}`);
+    }
+
+    return claims;
+  }
+
+  private verifyClaim(
+    claim: { type: FactualClaimType; text: string; value: string },
+    sources: EvidenceSource[]
+  ): ClaimCheck {
+    const backing = sources.find(source => this.supports(claim, source));
+    return {
+      type: claim.type,
+      text: claim.text,
+      supported: !!backing,
+      source: backing?.source,
+      severity: SEVERITY[claim.type]
+    };
+  }
+
+  private supports(claim: { type: FactualClaimType; text: string; value: string }, source: EvidenceSource): boolean {
+    // Echoing the customer's own order or tracking number is fine; an amount, date or policy
+    // they mention ("I was promised a full refund of $80") is not evidence
+    if (source.source === 'customer_email' && claim.type !== 'tracking_number' && claim.type !== 'order_number') {
+      return false;
+    }
+
+    switch (claim.type) {
+      case 'tracking_number':
+      case 'order_number': {
+        // Whole identifier only (#123 is not backed by #1234); spaces inside it are tolerated
+        const identifier = claim.value.toLowerCase().split('').join('\\s*');
+        return new RegExp(`(?<![a-z0-9])${identifier}(?![a-z0-9])`, 'i').test(source.text);
+      }
+      case 'url':
+        return source.text.toLowerCase().includes(claim.value);
+      case 'policy':
+        return this.compactTerm(source.text).includes(claim.value);
+      case 'money':
+      case 'percentage':
+        return source.numbers.has(claim.value);
+      case 'date': {
+        const [year, month, day] = claim.value.split('-');
+        return source.dates.some(d =>
+          d.month === Number(month) &&
+          d.day === Number(day) &&
+          (!year || !d.year || d.year === Number(year))
+        );
+      }
+      case 'duration': {
+        // Same numbers with the same unit, e.g. "3-5 business days" against "3 to 5 business days"
+        const match = claim.value.match(/(\d+)(?:\s?(?:-|–|to)\s?(\d+))?\s?([a-z ]+)/);
+        if (!match) return false;
+        const unit = match[3].trim().replace(/s$/, '');
+        const numbers = match[2] ? `${match[1]}\\s?(?:-|–|to)\\s?${match[2]}` : match[1];
+        return new RegExp(`\\b${numbers}\\s?(?:-\\s?)?${unit}`, 'i').test(source.text);
+      }
+    }
+  }
+
+  /**
+   * One evidence source per structured context field plus one per knowledge chunk
+   */
+  private buildEvidence(evidence: FactCheckEvidence): EvidenceSource[] {
+    const sources: EvidenceSource[] = [];
+
+    const context = evidence.responseContext || {};
+    for (const [key, value] of Object.entries(context)) {
+      if (value === undefined || value === null) continue;
+
+      const values = this.flattenValues(value);
+      // Promo refund values are stored as fractions (0.2 = 20%)
+      if (key === 'promoRefundData' && typeof value.refundValue === 'number' && value.refundValue < 1) {
+        values.push(String(value.refundValue * 100));
+      }
+      sources.push(this.toEvidence(key, values.join('\n')));
+    }
+
+    for (const chunk of evidence.chunks || []) {
+      sources.push(this.toEvidence(`chunk:${chunk.chunkId || chunk.url}`, `${chunk.url}\n${chunk.content}`));
+    }
+
+    if (evidence.customerEmail) {
+      sources.push(this.toEvidence('customer_email', evidence.customerEmail));
+    }
+
+    return sources;
+  }
+
+  private toEvidence(source: string, text: string): EvidenceSource {
+    const numbers = new Set<string>();
+    for (const match of Array.from(text.matchAll(/\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g))) {
+      numbers.add(this.canonicalNumber(match[0]));
+    }
+
+    return {
+      source,
+      text,
+      numbers,
+      dates: this.extractDates(text).map(d => d.parts)
+    };
+  }
+
+  private extractDates(text: string): Array<{ text: string; parts: DateParts }> {
+    const dates: Array<{ text: string; parts: DateParts }> = [];
+    const push = (dateText: string, month: number, day: number, year?: number) => {
+      if (month < 1 || month > 12 || day < 1 || day > 31) return;
+      if (year !== undefined && year < 100) year += 2000;
+      dates.push({ text: dateText, parts: { month, day, year } });
+    };
+
+    for (const m of Array.from(text.matchAll(PATTERNS.isoDate))) {
+      push(m[0], Number(m[2]), Number(m[3]), Number(m[1]));
+    }
+    for (const m of Array.from(text.matchAll(PATTERNS.slashDate))) {
+      // US format, matching toLocaleDateString() used for order data
+      push(m[0], Number(m[1]), Number(m[2]), m[3] ? Number(m[3]) : undefined);
+    }
+    for (const m of Array.from(text.matchAll(PATTERNS.monthDay))) {
+      push(m[0], this.monthNumber(m[1]), Number(m[2]), m[3] ? Number(m[3]) : undefined);
+    }
+    for (const m of Array.from(text.matchAll(PATTERNS.dayMonth))) {
+      push(m[0], this.monthNumber(m[2]), Number(m[1]), m[3] ? Number(m[3]) : undefined);
+    }
+
+    return dates;
+  }
+
+  private flattenValues(value: any): string[] {
+    if (value === undefined || value === null) return [];
+    if (value instanceof Date) return [value.toISOString().slice(0, 10)];
+    if (Array.isArray(value)) return value.flatMap(v => this.flattenValues(v));
+    if (typeof value === 'object') return Object.values(value).flatMap(v => this.flattenValues(v));
+    return [String(value)];
+  }
+
+  /**
+   * Regex for a policy term that tolerates hyphen and spacing variants ("money back guarantee")
+   */
+  private termPattern(term: string): string {
+    return term.split(/[\s-]+/).join('[\\s-]?');
+  }
+
+  private compactTerm(text: string): string {
+    return text.toLowerCase().replace(/[\s-]+/g, '');
+  }
+
+  private monthNumber(name: string): number {
+    const prefix = name.toLowerCase().slice(0, 3);
+    return MONTHS.findIndex(m => m.startsWith(prefix)) + 1;
+  }
+
+  private canonicalNumber(value: string): string {
+    return String(Number(value.replace(/,/g, '')));
+  }
+
+  private normalizeUrl(url: string): string {
+    return url.toLowerCase().replace(/[.,;:!?]+$/, '').replace(/\/$/, '');
+  }
+}
+
+export const factualConsistencyChecker = new FactualConsistencyChecker();
@@ -1,9 +1,14 @@
-import { storage } from "../storage";
-import OpenAI from "openai";
 import { vectorEmbeddingsService } from "./vector-embeddings";
 import { properVectorService } from "./vector-embeddings-proper";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { keywordSearchService } from "./keyword-search";
+import { llmProviderService } from "./llm-provider";
+import { isProviderUnavailable } from "./provider-resilience";
+import { responseCitationService, CITATION_INSTRUCTIONS, type Citation } from "./response-citations";
+import { intentExtractionService, MULTI_INTENT_INSTRUCTIONS, INTENTS_JSON_EXAMPLE, type DetectedIntent } from "./intent-extraction";
+import { intentTaxonomyService, type IntentTaxonomy } from "./intent-taxonomy";
+import { confidenceCalibrationService } from "./confidence-calibration";
+import { classificationFeedbackService } from "./classification-feedback";
+import type { EmailAnalysisContext } from "./email-analysis-context";
 
 export interface HallucinationCheck {
   isGrounded: boolean;
@@ -14,10 +19,47 @@ export interface HallucinationCheck {
   fallbackResponse?: string;
 }
 
+export type RetrievalSignal = 'vector' | 'keyword' | 'text';
+
+export interface RetrievedChunk {
+  chunkId?: string;             // Absent for text-matching fallback results
+  url: string;                  // Parent source URL
+  headingPath?: string[];       // e.g. ["Shipping Policy", "International"]
+  content: string;              // Chunk text, not the whole page
+  signals: RetrievalSignal[];   // Which retriever(s) surfaced this chunk
+  fusedScore: number;           // Reciprocal rank fusion score
+  similarity?: number;          // Cosine similarity (vector signal)
+  keywordScore?: number;        // BM25 score (keyword signal)
+  matchedTerms?: string[];
+  startOffset?: number;
+  endOffset?: number;
+}
+
+export interface KnowledgeResult {
+  relevantContent: string[];    // Chunk texts, aligned with chunks
+  sources: string[];            // Unique source URLs in rank order
+  chunks: RetrievedChunk[];
+  totalSources: number;
+  hasTrainingData: boolean;
+  method?: 'hybrid' | 'vector' | 'keyword' | 'text' | 'none';
+  avgSimilarity?: number;
+}
+
+/**
+ * Generated reply text (citation markers stripped) and the chunks it cites
+ */
+export interface GroundedResponse {
+  text: string;
+  citations: Citation[];
+}
+
 export interface ClassificationWithGrounding extends HallucinationCheck {
   classification: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   priorityReasoning: string;
+  intents: DetectedIntent[];    // Primary intent first, then any secondary requests
+  rawConfidence?: number;       // Model's self-reported confidence; confidence is calibrated
+  calibrationHoldout?: boolean;
 }
 
 /**
@@ -35,10 +77,19 @@ class HallucinationPreventionService {
     LOW: 50            // ML default threshold (0.5) - below this = escalate
   };
   
+  // Hybrid retrieval: k = 60 is the standard RRF constant (Cormack et al., 2009)
+  private readonly RETRIEVAL = {
+    RRF_K: 60,
+    VECTOR_CANDIDATES: 20,
+    KEYWORD_CANDIDATES: 20,
+    MAX_CHUNKS: 6,
+    MAX_CHUNK_CHARS: 4000      // Guard for oversized fallback content only - indexed chunks are smaller
+  };
+  
   /**
    * Phase 1: Apply confidence-based routing with "I don't know" responses
    */
-  checkConfidenceThreshold(confidence: number, classification: string): {
+  checkConfidenceThreshold(confidence: number, classification: string, taxonomy?: IntentTaxonomy): {
     shouldEscalate: boolean;
     fallbackResponse?: string;
     reasoning: string;
@@ -61,7 +112,7 @@ class HallucinationPreventionService {
     // Below ML standard threshold - provide "I don't know" response
     return {
       shouldEscalate: true,
-      fallbackResponse: this.generateFallbackResponse(classification),
+      fallbackResponse: this.generateFallbackResponse(classification, taxonomy),
       reasoning: `Below ML threshold (${confidence}% < 50%) - escalating with industry-standard fallback`
     };
   }
@@ -69,69 +120,95 @@ class HallucinationPreventionService {
   /**
    * Generate appropriate "I don't know" responses based on classification attempt
    */
-  private generateFallbackResponse(classification: string): string {
-    const fallbackResponses = {
-      order_status: "I don't have enough information to provide accurate details about your order status. Let me connect you with a human agent who can look up your specific order and provide you with the most current information.",
-      
-      promo_refund: "I want to make sure I handle your billing concern correctly. Let me connect you with a human agent who can review your account details and provide the most accurate assistance with your refund request.",
-      
-      order_cancellation: "To ensure your order is cancelled properly and on time, let me connect you with a human agent who can immediately process your cancellation request and confirm the details.",
-      
-      return_request: "I want to make sure we handle your return correctly. Let me connect you with a human agent who can review your order details and guide you through the return process.",
-      
-      subscription_changes: "To avoid any issues with your subscription, let me connect you with a human agent who can safely make the changes you need to your account.",
-      
-      address_change: "To ensure your order is delivered to the correct address, let me connect you with a human agent who can update your shipping information right away.",
-      
-      payment_issues: "I want to make sure we resolve your payment concern properly. Let me connect you with a human agent who can securely review your account and payment details.",
-      
-      product: "I don't have enough information to answer your product question accurately. Let me connect you with a human agent who can provide you with detailed product information.",
-      
-      general: "I want to make sure I understand your request correctly and provide you with the most helpful response. Let me connect you with a human agent who can assist you properly."
-    };
-    
-    return fallbackResponses[classification as keyof typeof fallbackResponses] || fallbackResponses.general;
+  private generateFallbackResponse(classification: string, taxonomy: IntentTaxonomy = intentTaxonomyService.getDefault()): string {
+    return taxonomy.fallbackResponse(classification);
   }
   
   /**
-   * Phase 2: Knowledge Grounding - NOW WITH VECTOR EMBEDDINGS!
-   * Retrieve relevant training content using semantic similarity
+   * Phase 2: Knowledge Grounding - HYBRID RETRIEVAL
+   * Fuses vector similarity with BM25 keyword matching (reciprocal rank fusion)
+   * so exact terms like SKUs, promo codes and policy names are never lost
    */
-  async getRelevantKnowledge(userId: string, query: string): Promise<{
-    relevantContent: string[];
-    sources: string[];
-    totalSources: number;
-    hasTrainingData: boolean;
-    method?: 'vector' | 'text' | 'none';
-    avgSimilarity?: number;
-  }> {
+  async getRelevantKnowledge(userId: string, query: string): Promise<KnowledgeResult> {
     try {
-      // Industry standard vector embeddings implementation
-      console.log('[HALLUCINATION_PREVENTION] Using industry-standard vector embeddings');
-      const searchResult = await properVectorService.semanticSearch(userId, query, 'balanced');
+      // Both signals run over the same indexed chunks
+      const searchable = await properVectorService.loadSearchableContent(userId);
+      const searchResult = await properVectorService.semanticSearch(userId, query, 'balanced', searchable, this.RETRIEVAL.VECTOR_CANDIDATES);
+      const keywordResults = keywordSearchService.search(userId, searchable.chunks, query, this.RETRIEVAL.KEYWORD_CANDIDATES);
+      
+      const fused = new Map<string, RetrievedChunk>();
+      const addRank = (chunkId: string, rank: number, signal: RetrievalSignal, base: Omit<RetrievedChunk, 'signals' | 'fusedScore'>) => {
+        const entry = fused.get(chunkId) || { ...base, signals: [], fusedScore: 0 };
+        entry.fusedScore += 1 / (this.RETRIEVAL.RRF_K + rank + 1);
+        entry.signals.push(signal);
+        fused.set(chunkId, entry);
+        return entry;
+      };
       
-      if (searchResult.results.length > 0) {
-        const avgSimilarity = searchResult.results.reduce((sum, r) => sum + r.similarity, 0) / searchResult.results.length;
+      searchResult.results.forEach((r, rank) => {
+        const entry = addRank(r.chunkId, rank, 'vector', {
+          chunkId: r.chunkId,
+          url: r.url,
+          headingPath: r.headingPath,
+          content: r.content,
+          startOffset: r.startOffset,
+          endOffset: r.endOffset
+        });
+        entry.similarity = Math.round(r.similarity * 1000) / 1000;
+      });
+      
+      keywordResults.forEach((k, rank) => {
+        const entry = addRank(k.chunk.id, rank, 'keyword', {
+          chunkId: k.chunk.id,
+          url: k.chunk.sourceUrl,
+          headingPath: k.chunk.headingPath || [],
+          content: k.chunk.content,
+          startOffset: k.chunk.startOffset,
+          endOffset: k.chunk.endOffset
+        });
+        entry.keywordScore = Math.round(k.score * 1000) / 1000;
+        entry.matchedTerms = k.matchedTerms;
+      });
+      
+      const ranked = Array.from(fused.values())
+        .sort((a, b) => b.fusedScore - a.fusedScore)
+        .slice(0, this.RETRIEVAL.MAX_CHUNKS)
+        .map(chunk => ({ ...chunk, fusedScore: Math.round(chunk.fusedScore * 10000) / 10000 }));
+      
+      if (ranked.length > 0) {
+        const vectorHits = ranked.filter(r => r.similarity !== undefined);
+        const avgSimilarity = vectorHits.length > 0
+          ? vectorHits.reduce((sum, r) => sum + (r.similarity || 0), 0) / vectorHits.length
+          : undefined;
+        const usedVector = vectorHits.length > 0;
+        const usedKeyword = ranked.some(r => r.signals.includes('keyword'));
         
-        console.log(`[VECTOR_STANDARD] Found ${searchResult.results.length} matches, avg similarity: ${avgSimilarity.toFixed(3)}, threshold: ${searchResult.threshold}`);
+        console.log(`[HYBRID_RETRIEVAL] ${ranked.length} chunks (vector: ${searchResult.results.length}, keyword: ${keywordResults.length}), threshold: ${searchResult.threshold}`);
         
         return {
-          relevantContent: searchResult.results.map(r => r.chunk || r.content),
-          sources: searchResult.results.map(r => r.url),
-          totalSources: searchResult.totalSources,
-          hasTrainingData: searchResult.totalSources > 0,
-          method: 'vector',
-          avgSimilarity: Math.round(avgSimilarity * 1000) / 1000
+          relevantContent: ranked.map(r => r.content),
+          sources: Array.from(new Set(ranked.map(r => r.url))),
+          chunks: ranked,
+          totalSources: searchable.sources.length,
+          hasTrainingData: searchable.sources.length > 0,
+          method: usedVector && usedKeyword ? 'hybrid' : usedVector ? 'vector' : 'keyword',
+          avgSimilarity: avgSimilarity !== undefined ? Math.round(avgSimilarity * 1000) / 1000 : undefined
         };
       }
       
       // Fallback to text matching for comprehensive coverage
-      console.log('[HALLUCINATION_PREVENTION] Vector similarity below threshold, using text matching');
+      console.log('[HALLUCINATION_PREVENTION] No vector or keyword matches, using text matching');
       const textResult = await vectorEmbeddingsService.getEnhancedRelevantKnowledge(userId, query);
       
       return {
         relevantContent: textResult.relevantContent,
         sources: textResult.sources,
+        chunks: textResult.relevantContent.map((content: string, index: number) => ({
+          url: textResult.sources[index],
+          content,
+          signals: ['text' as const],
+          fusedScore: 0
+        })),
         totalSources: textResult.totalSources,
         hasTrainingData: textResult.hasTrainingData,
         method: textResult.method,
@@ -143,6 +220,7 @@ class HallucinationPreventionService {
       return {
         relevantContent: [],
         sources: [],
+        chunks: [],
         totalSources: 0,
         hasTrainingData: false,
         method: 'none'
@@ -156,48 +234,67 @@ class HallucinationPreventionService {
   async classifyWithGrounding(
     userId: string,
     emailContent: string,
-    subject: string
+    subject: string,
+    analysis?: EmailAnalysisContext
   ): Promise<ClassificationWithGrounding> {
     
-    // Phase 2: Get relevant knowledge for grounding using vector embeddings
-    const knowledgeBase = await this.getRelevantKnowledge(userId, `${subject} ${emailContent}`);
+    // Phase 2: Get relevant knowledge for grounding using vector embeddings (shared with drafting via the analysis context)
+    const [knowledgeBase, taxonomy, corrections] = await Promise.all([
+      analysis ? analysis.knowledge() : this.getRelevantKnowledge(userId, `${subject} ${emailContent}`),
+      intentTaxonomyService.getTaxonomy(userId),
+      this.getCorrectedExamples(userId, emailContent, subject)
+    ]);
     
     // Create grounded prompt
     const groundedPrompt = this.createGroundedPrompt(
       emailContent,
       subject,
-      knowledgeBase.relevantContent
+      knowledgeBase.chunks,
+      taxonomy,
+      corrections
     );
     
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const llm = await llmProviderService.getProvider(userId);
+      const responseContent = await llm.createChatCompletion({
         messages: [{ role: "user", content: groundedPrompt }],
         temperature: 0.2, // Lower temperature for more consistent results
-        max_tokens: 500,
+        maxTokens: 500,
       });
 
-      const responseContent = completion.choices[0]?.message?.content;
       if (!responseContent) {
-        throw new Error("No response from OpenAI");
+        throw new Error("No response from LLM provider");
       }
 
       // Clean the response to handle markdown-wrapped JSON
       const cleanedResponse = responseContent.replace(/```json\s*|\s*```/g, '').trim();
       const result = JSON.parse(cleanedResponse);
+      const classification = taxonomy.canonicalName(result.classification);
+
+      // Thresholds apply to the calibrated probability, not the model's self-reported confidence
+      const calibrated = await confidenceCalibrationService.calibrate(userId, classification, result.confidence);
       
       // Phase 1: Apply confidence threshold checks
       const confidenceCheck = this.checkConfidenceThreshold(
-        result.confidence,
-        result.classification
+        calibrated.confidence,
+        classification,
+        taxonomy
       );
       
       return {
-        classification: result.classification,
-        confidence: result.confidence,
+        classification,
+        confidence: calibrated.confidence,
+        rawConfidence: calibrated.rawConfidence,
+        calibrationHoldout: calibrated.holdout,
         reasoning: result.reasoning,
         priority: result.priority,
         priorityReasoning: result.priorityReasoning,
+        intents: await confidenceCalibrationService.calibrateIntents(userId, intentExtractionService.normalizeIntents(
+          result.intents,
+          classification,
+          calibrated.rawConfidence,
+          name => taxonomy.canonicalName(name)
+        )),
         isGrounded: knowledgeBase.relevantContent.length > 0,
         sources: knowledgeBase.sources,
         shouldEscalate: confidenceCheck.shouldEscalate,
@@ -205,6 +302,10 @@ class HallucinationPreventionService {
       };
       
     } catch (error) {
+      // Let the caller defer during an outage instead of escalating every email
+      if (isProviderUnavailable(error)) {
+        throw error;
+      }
       console.error('Error in grounded classification:', error);
       
       // Fallback to escalation
@@ -214,10 +315,11 @@ class HallucinationPreventionService {
         reasoning: 'Classification failed - escalating to human',
         priority: 'medium',
         priorityReasoning: 'System error requires human review',
+        intents: [{ intent: 'general', confidence: 0, entities: {} }],
         isGrounded: false,
         sources: [],
         shouldEscalate: true,
-        fallbackResponse: this.generateFallbackResponse('general')
+        fallbackResponse: this.generateFallbackResponse('general', taxonomy)
       };
     }
   }
@@ -230,7 +332,7 @@ class HallucinationPreventionService {
     query: string,
     classification: string,
     userId: string
-  ): Promise<string | null> {
+  ): Promise<GroundedResponse | null> {
     
     const knowledgeBase = await this.getRelevantKnowledge(userId, query);
     
@@ -241,29 +343,35 @@ class HallucinationPreventionService {
     }
     
     if (knowledgeBase.relevantContent.length === 0) {
-      // Training data exists but none relevant - force AI to use whatever training data is available
+      // Training data exists but none relevant - force AI to use the closest chunks available
       console.log('[HALLUCINATION_PREVENTION] Training data exists but low relevance - forcing knowledge grounding');
-      const allTrainingUrls = await storage.getTrainingUrls(userId);
-      const allTrainingContent = allTrainingUrls
-        .filter(url => url.status === 'completed' && url.crawledContent)
-        .map(url => url.crawledContent)
-        .slice(0, 5); // Use first 5 sources to avoid token limits
+      const nearest = await properVectorService.nearestChunks(userId, query, 5);
+      const nearestChunks: RetrievedChunk[] = nearest.map(r => ({
+        chunkId: r.chunkId,
+        url: r.url,
+        headingPath: r.headingPath,
+        content: r.content,
+        signals: ['vector'],
+        fusedScore: 0,
+        similarity: Math.round(r.similarity * 1000) / 1000,
+        startOffset: r.startOffset,
+        endOffset: r.endOffset
+      }));
       
-      if (allTrainingContent.length === 0) {
+      if (nearestChunks.length === 0) {
         return null; // No usable training data
       }
       
-      const forceGroundedPrompt = this.createForceGroundedPrompt(query, classification, allTrainingContent);
+      const forceGroundedPrompt = this.createForceGroundedPrompt(query, classification, nearestChunks);
       
       try {
-        const completion = await openai.chat.completions.create({
-          model: "gpt-4o",
+        const llm = await llmProviderService.getProvider(userId);
+        const draft = await llm.createChatCompletion({
           messages: [{ role: "user", content: forceGroundedPrompt }],
           temperature: 0.2, // Lower temperature for more focused responses
-          max_tokens: 400,
+          maxTokens: 400,
         });
-
-        return completion.choices[0]?.message?.content || null;
+        return draft ? responseCitationService.extractCitations(draft, nearestChunks) : null;
         
       } catch (error) {
         console.error('Error generating force-grounded response:', error);
@@ -272,17 +380,16 @@ class HallucinationPreventionService {
     }
     
     // Relevant training content found - use it
-    const prompt = this.createResponsePrompt(query, classification, knowledgeBase.relevantContent);
+    const prompt = this.createResponsePrompt(query, classification, knowledgeBase.chunks);
     
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const llm = await llmProviderService.getProvider(userId);
+      const draft = await llm.createChatCompletion({
         messages: [{ role: "user", content: prompt }],
         temperature: 0.3,
-        max_tokens: 400,
+        maxTokens: 400,
       });
-
-      return completion.choices[0]?.message?.content || null;
+      return draft ? responseCitationService.extractCitations(draft, knowledgeBase.chunks) : null;
       
     } catch (error) {
       console.error('Error generating grounded response:', error);
@@ -290,23 +397,38 @@ class HallucinationPreventionService {
     }
   }
   
+  /**
+   * Format retrieved chunks for prompts - each chunk is cited with its parent URL and section
+   */
+  private formatKnowledgeChunks(chunks: RetrievedChunk[]): string {
+    return chunks.map((chunk, index) => {
+      const content = chunk.content.length > this.RETRIEVAL.MAX_CHUNK_CHARS
+        ? `${chunk.content.substring(0, this.RETRIEVAL.MAX_CHUNK_CHARS)}...`
+        : chunk.content;
+      const section = chunk.headingPath && chunk.headingPath.length > 0
+        ? ` — ${chunk.headingPath.join(' › ')}`
+        : '';
+      return `
+Source ${index + 1} (${chunk.url}${section}):
+${content}
+`;
+    }).join('\n');
+  }
+  
   /**
    * Create prompt that forces AI to answer based ONLY on training data
    */
   private createForceGroundedPrompt(
     query: string,
     classification: string,
-    trainingContent: string[]
+    trainingChunks: RetrievedChunk[]
   ): string {
     return `You are a customer service AI assistant. You MUST ONLY use the provided company information to answer questions. Never use general knowledge or make assumptions.
 
 STRICT INSTRUCTION: You can ONLY provide information that is explicitly stated in the company knowledge base below. If the answer is not in the knowledge base, you MUST say "I don't have specific information about this in our current documentation."
 
 COMPANY KNOWLEDGE BASE:
-${trainingContent.map((content, index) => `
-Source ${index + 1}:
-${content.substring(0, 1500)}${content.length > 1500 ? '...' : ''}
-`).join('\n')}
+${this.formatKnowledgeChunks(trainingChunks)}
 
 CUSTOMER QUESTION (${classification}): ${query}
 
@@ -317,6 +439,8 @@ REQUIREMENTS:
 - Keep response under 200 words
 - Be specific and cite relevant details from the knowledge base
 
+${CITATION_INSTRUCTIONS}
+
 Your response:`;
   }
   
@@ -326,15 +450,12 @@ Your response:`;
   private createResponsePrompt(
     query: string,
     classification: string,
-    relevantContent: string[]
+    relevantChunks: RetrievedChunk[]
   ): string {
     return `You are a helpful customer service AI assistant. Use the provided company information to give accurate, specific answers.
 
 COMPANY INFORMATION:
-${relevantContent.map((content, index) => `
-Source ${index + 1}:
-${content.substring(0, 1500)}${content.length > 1500 ? '...' : ''}
-`).join('\n')}
+${this.formatKnowledgeChunks(relevantChunks)}
 
 CUSTOMER QUESTION (${classification}): ${query}
 
@@ -345,6 +466,8 @@ INSTRUCTIONS:
 - Use a professional, friendly tone
 - Keep response under 200 words
 
+${CITATION_INSTRUCTIONS}
+
 Your response:`;
   }
   
@@ -363,6 +486,7 @@ Your response:`;
     confidence: number;
     isGrounded: boolean;
     reasoning: string;
+    citations: Citation[];
   }> {
     
     const knowledgeBase = await this.getRelevantKnowledge(userId, `${subject} ${emailContent}`);
@@ -373,7 +497,8 @@ Your response:`;
         suggestion: "I recommend connecting this customer with a human agent, as I don't have specific company information to provide an accurate response.",
         confidence: 30,
         isGrounded: false,
-        reasoning: "No training data available - escalation recommended"
+        reasoning: "No training data available - escalation recommended",
+        citations: []
       };
     }
     
@@ -390,32 +515,36 @@ Your response:`;
       emailContent, 
       subject, 
       classification, 
-      knowledgeBase.relevantContent,
+      knowledgeBase.chunks,
       userEmpathyLevel
     );
     
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const llm = await llmProviderService.getProvider(userId);
+      const responseContent = await llm.createChatCompletion({
         messages: [{ role: "user", content: suggestionPrompt }],
         temperature: 0.3,
-        max_tokens: 300,
+        maxTokens: 300,
       });
 
-      const responseContent = completion.choices[0]?.message?.content;
       if (!responseContent) {
-        throw new Error("No response from OpenAI");
+        throw new Error("No response from LLM provider");
       }
 
       // Clean the response to handle markdown-wrapped JSON
       const cleanedResponse = responseContent.replace(/```json\s*|\s*```/g, '').trim();
       const result = JSON.parse(cleanedResponse);
+      const { text: suggestion, citations } = responseCitationService.extractCitations(
+        result.suggestion || "",
+        knowledgeBase.chunks
+      );
       
       return {
-        suggestion: result.suggestion || "Unable to generate suggestion",
+        suggestion: suggestion || "Unable to generate suggestion",
         confidence: Math.max(0, Math.min(100, result.confidence || 50)),
         isGrounded: knowledgeBase.relevantContent.length > 0,
-        reasoning: result.reasoning || "AI assistant suggestion based on available data"
+        reasoning: result.reasoning || "AI assistant suggestion based on available data",
+        citations
       };
       
     } catch (error) {
@@ -424,7 +553,8 @@ Your response:`;
         suggestion: "I recommend reviewing this email manually due to processing difficulties.",
         confidence: 20,
         isGrounded: false,
-        reasoning: "Error in AI processing - manual review recommended"
+        reasoning: "Error in AI processing - manual review recommended",
+        citations: []
       };
     }
   }
@@ -436,7 +566,7 @@ Your response:`;
     emailContent: string,
     subject: string,
     classification: string,
-    knowledgeBase: string[],
+    knowledgeBase: RetrievedChunk[],
     empathyLevel: number = 3
   ): string {
     
@@ -444,10 +574,7 @@ Your response:`;
     
     const knowledgeSection = hasKnowledge ? `
 COMPANY KNOWLEDGE BASE:
-${knowledgeBase.map((content, index) => `
-Source ${index + 1}:
-${content.substring(0, 1000)}${content.length > 1000 ? '...' : ''}
-`).join('\n')}` : "No specific company knowledge available.";
+${this.formatKnowledgeChunks(knowledgeBase)}` : "No specific company knowledge available.";
 
     // Get empathy guidance for the specified level
     const getEmpathyGuidance = (level: number): string => {
@@ -488,7 +615,7 @@ INSTRUCTIONS:
 - Provide confidence level based on how well the knowledge base addresses the question
 - Keep suggestion professional and concise (under 150 words)
 - Match the emotional tone to the empathy level: ${empathyGuidance}
-
+${hasKnowledge ? `\n${CITATION_INSTRUCTIONS}\n` : ''}
 Respond with valid JSON:
 {
   "suggestion": "Your suggested response text here",
@@ -497,13 +624,31 @@ Respond with valid JSON:
 }`;
   }
   
+  /**
+   * Few-shot section built from this tenant's agent corrections of similar emails
+   */
+  private async getCorrectedExamples(userId: string, emailContent: string, subject: string): Promise<string> {
+    try {
+      const matches = await classificationFeedbackService.findSimilarExamples(userId, subject, emailContent);
+      if (matches.length > 0) {
+        console.log(`[HALLUCINATION_PREVENTION] Using ${matches.length} corrected examples for classification`);
+      }
+      return classificationFeedbackService.formatFewShotExamples(matches);
+    } catch (error) {
+      console.warn('[HALLUCINATION_PREVENTION] Corrected examples unavailable:', error instanceof Error ? error.message : String(error));
+      return '';
+    }
+  }
+
   /**
    * Create knowledge-grounded prompt for classification
    */
   private createGroundedPrompt(
     emailContent: string,
     subject: string,
-    knowledgeBase: string[]
+    knowledgeBase: RetrievedChunk[],
+    taxonomy: IntentTaxonomy,
+    corrections = ''
   ): string {
     
     const hasKnowledge = knowledgeBase.length > 0;
@@ -512,10 +657,7 @@ Respond with valid JSON:
 KNOWLEDGE BASE CONTEXT:
 Based on the following company information and policies:
 
-${knowledgeBase.map((content, index) => `
-Source ${index + 1}:
-${content.substring(0, 1000)}${content.length > 1000 ? '...' : ''}
-`).join('\n')}
+${this.formatKnowledgeChunks(knowledgeBase)}
 
 Use this information to improve classification accuracy. If the email relates to topics covered in the knowledge base, increase your confidence. If it asks about topics not covered, be more cautious.` : `
 KNOWLEDGE BASE: No specific company knowledge available. Base classification on general customer service patterns only.`;
@@ -525,17 +667,8 @@ KNOWLEDGE BASE: No specific company knowledge available. Base classification on
 ${knowledgeSection}
 
 CUSTOMER INTENT CATEGORIES:
-1. **order_status** (WISMO) - Customer wants order/delivery information
-2. **promo_refund** - Billing, payment, or refund concerns  
-3. **order_cancellation** - Stop order before shipping
-4. **return_request** - Exchange or return received products
-5. **subscription_changes** - Modify existing subscription
-6. **cancellation_requests** - End subscription/account permanently
-7. **payment_issues** - Payment processing problems
-8. **address_change** - Update shipping address
-9. **product** - Product features or specifications
-10. **general** - Everything else
-
+${taxonomy.promptCategories('compact')}
+${corrections ? `\n${corrections}\n` : ''}
 EMAIL TO CLASSIFY:
 Subject: ${subject}
 Body: ${emailContent}
@@ -548,13 +681,16 @@ INSTRUCTIONS:
 - Medium confidence (60-79%) if reasonably sure but some ambiguity exists
 - Low confidence (0-59%) if unclear or ambiguous
 
+${MULTI_INTENT_INSTRUCTIONS}
+
 Respond with valid JSON:
 {
   "classification": "category_name",
   "confidence": 85,
   "reasoning": "Detailed explanation of why this classification was chosen${hasKnowledge ? ' and how knowledge base informed the decision' : ''}",
   "priority": "medium",
-  "priorityReasoning": "Explanation of urgency level"
+  "priorityReasoning": "Explanation of urgency level",
+  ${INTENTS_JSON_EXAMPLE}
 }`;
   }
 }
@@ -0,0 +1,119 @@
+/**
+ * Details the classifier pulled out of the email for one intent
+ */
+export interface IntentEntities {
+  orderNumbers?: string[];
+  trackingNumbers?: string[];
+  addresses?: string[];
+  promoCodes?: string[];
+  products?: string[];
+  dates?: string[];
+  amounts?: string[];
+}
+
+/**
+ * One request within an email. The primary intent is always first.
+ */
+export interface DetectedIntent {
+  intent: string;
+  confidence: number;
+  summary?: string;           // What the customer wants under this intent, e.g. "Cancel order 1234"
+  entities: IntentEntities;
+}
+
+const ENTITY_KEYS: Array<keyof IntentEntities> = [
+  'orderNumbers', 'trackingNumbers', 'addresses', 'promoCodes', 'products', 'dates', 'amounts'
+];
+
+// Secondary intents below this are usually the model hedging, not a second request
+const MIN_SECONDARY_CONFIDENCE = 50;
+
+/**
+ * Prompt section shared by the classifiers: ask for every request, not just the first
+ */
+export const MULTI_INTENT_INSTRUCTIONS = `MULTIPLE REQUESTS:
+- Customers often ask for more than one thing ("cancel order 1234 and also update my address")
+- List EVERY distinct request in "intents", most important first; the first entry must match "classification"
+- Give each intent its own confidence and the entities that belong to it (order numbers, addresses, codes...)
+- Do not add a second intent for background details that need no action`;
+
+export const INTENTS_JSON_EXAMPLE = `"intents": [
+    { "intent": "category_name", "confidence": 85, "summary": "What the customer wants", "entities": { "orderNumbers": ["1234"], "trackingNumbers": [], "addresses": [], "promoCodes": [], "products": [], "dates": [], "amounts": [] } }
+  ]`;
+
+/**
+ * Intent Extraction Service
+ * Normalizes the classifier's intent list so downstream workflows can rely on it
+ */
+class IntentExtractionService {
+
+  /**
+   * Clean up the model's "intents" array: primary first, one entry per intent,
+   * confidences clamped, low-confidence secondary intents dropped.
+   * canonicalName maps aliases/unknown names onto the tenant's taxonomy.
+   */
+  normalizeIntents(
+    raw: any,
+    primary: string,
+    primaryConfidence: number,
+    canonicalName: (name: string) => string = name => name
+  ): DetectedIntent[] {
+    const byIntent = new Map<string, DetectedIntent>();
+
+    for (const item of Array.isArray(raw) ? raw : []) {
+      if (!item || typeof item.intent !== 'string' || !item.intent.trim()) continue;
+
+      const intent: DetectedIntent = {
+        intent: canonicalName(item.intent.trim()),
+        confidence: Math.max(0, Math.min(100, Number(item.confidence) || 0)),
+        summary: typeof item.summary === 'string' ? item.summary : undefined,
+        entities: this.normalizeEntities(item.entities)
+      };
+
+      const existing = byIntent.get(intent.intent);
+      if (existing) {
+        existing.confidence = Math.max(existing.confidence, intent.confidence);
+        existing.entities = this.mergeEntities(existing.entities, intent.entities);
+      } else {
+        byIntent.set(intent.intent, intent);
+      }
+    }
+
+    const primaryIntent = byIntent.get(primary) || { intent: primary, confidence: primaryConfidence, entities: {} };
+    primaryIntent.confidence = primaryConfidence;
+    byIntent.delete(primary);
+
+    const secondary = Array.from(byIntent.values())
+      .filter(i => i.intent !== 'general' && i.confidence >= MIN_SECONDARY_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    return [primaryIntent, ...secondary];
+  }
+
+  private normalizeEntities(raw: any): IntentEntities {
+    const entities: IntentEntities = {};
+    if (!raw || typeof raw !== 'object') return entities;
+
+    for (const key of ENTITY_KEYS) {
+      const values = (Array.isArray(raw[key]) ? raw[key] : raw[key] ? [raw[key]] : [])
+        .map((v: any) => String(v).trim())
+        .filter(Boolean);
+      if (values.length > 0) {
+        entities[key] = Array.from(new Set<string>(values));
+      }
+    }
+    return entities;
+  }
+
+  private mergeEntities(a: IntentEntities, b: IntentEntities): IntentEntities {
+    const merged: IntentEntities = { ...a };
+    for (const key of ENTITY_KEYS) {
+      if (b[key]) {
+        merged[key] = Array.from(new Set([...(a[key] || []), ...b[key]!]));
+      }
+    }
+    return merged;
+  }
+}
+
+export const intentExtractionService = new IntentExtractionService();
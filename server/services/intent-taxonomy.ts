@@ -0,0 +1,351 @@
+import { z } from "zod";
+import { storage } from "../storage";
+
+const prioritySchema = z.enum(['low', 'medium', 'high', 'urgent']);
+const intentNameSchema = z.string().regex(/^[a-z][a-z0-9_]*$/, 'Intent names must be lower_snake_case');
+
+export const intentDefinitionSchema = z.object({
+  name: intentNameSchema,
+  label: z.string().optional(),                       // Short gloss for prompts, e.g. "WISMO - Where Is My Order"
+  description: z.string().min(1),                     // What the customer wants
+  context: z.string().optional(),                     // Signals that point to this intent
+  examples: z.array(z.string()).default([]),
+  defaultPriority: prioritySchema.default('medium'),
+  specificIssue: z.string().min(1),                   // Issue summary handed to the response generator
+  actions: z.array(z.string()).min(1),                // What the AI agent can offer the customer
+  escalationActions: z.array(z.string()).default([]), // Suggested next steps for a human agent
+  escalationNotes: z.string().optional(),
+  escalateByDefault: z.boolean().default(false),      // Fallback escalation analysis always escalates
+  fallbackResponse: z.string().min(1),                // "I don't know" reply when confidence is too low
+  aliases: z.array(intentNameSchema).default([]),     // Legacy or model-invented names that mean this intent
+  offerToClassifier: z.boolean().default(true)        // false: known to escalation analysis but left out of classifier prompts
+});
+
+export const intentTaxonomySchema = z.object({
+  intents: z.array(intentDefinitionSchema).min(1)
+}).superRefine((taxonomy, ctx) => {
+  const seen = new Map<string, string>();
+  for (const intent of taxonomy.intents) {
+    for (const name of [intent.name, ...intent.aliases]) {
+      const owner = seen.get(name);
+      if (owner) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `"${name}" is used by both ${owner} and ${intent.name}`
+        });
+      }
+      seen.set(name, intent.name);
+    }
+  }
+
+  // Routing relies on these two existing in every taxonomy
+  for (const required of ['general', 'escalation']) {
+    if (!taxonomy.intents.some(i => i.name === required)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Taxonomy must define the "${required}" intent` });
+    }
+  }
+});
+
+export type IntentDefinition = z.infer<typeof intentDefinitionSchema>;
+export type IntentTaxonomyConfig = z.input<typeof intentTaxonomySchema>;
+
+export class IntentTaxonomyError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid intent taxonomy: ${issues.join('; ')}`);
+    this.name = 'IntentTaxonomyError';
+  }
+}
+
+/**
+ * A validated taxonomy. Every classifier prompt and per-intent map is generated from this.
+ */
+export class IntentTaxonomy {
+  private byName = new Map<string, IntentDefinition>();
+
+  constructor(public readonly intents: IntentDefinition[]) {
+    for (const intent of intents) {
+      this.byName.set(intent.name, intent);
+      for (const alias of intent.aliases) {
+        this.byName.set(alias, intent);
+      }
+    }
+  }
+
+  get names(): string[] {
+    return this.intents.map(i => i.name);
+  }
+
+  get(name: string): IntentDefinition | undefined {
+    return this.byName.get(name?.trim().toLowerCase());
+  }
+
+  /**
+   * Map aliases to their intent and unknown names to "general"
+   */
+  canonicalName(name: string): string {
+    return this.get(name)?.name || 'general';
+  }
+
+  specificIssue(name: string): string {
+    return (this.get(name) || this.get('general')!).specificIssue;
+  }
+
+  actions(name: string): string[] {
+    return (this.get(name) || this.get('general')!).actions;
+  }
+
+  escalationActions(name: string): string[] {
+    const intent = this.get(name);
+    return intent && intent.escalationActions.length > 0
+      ? intent.escalationActions
+      : ['Review customer request', 'Provide personalized response'];
+  }
+
+  fallbackResponse(name: string): string {
+    return (this.get(name) || this.get('general')!).fallbackResponse;
+  }
+
+  /**
+   * Category list for classifier prompts. Detailed form includes context, examples and priority.
+   */
+  promptCategories(format: 'detailed' | 'compact' = 'compact'): string {
+    return this.intents.filter(i => i.offerToClassifier).map((intent, index) => {
+      const heading = `${index + 1}. **${intent.name}**${intent.label ? ` (${intent.label})` : ''}`;
+
+      if (format === 'compact') {
+        return `${heading} - ${intent.description}`;
+      }
+
+      const lines = [heading, `   - Intent: ${intent.description}`];
+      if (intent.context) {
+        lines.push(`   - Context: ${intent.context}`);
+      }
+      if (intent.examples.length > 0) {
+        lines.push(`   - Examples: ${intent.examples.map(e => `"${e}"`).join(', ')}`);
+      }
+      lines.push(`   - Default priority: ${intent.defaultPriority}`);
+      return lines.join('\n');
+    }).join(format === 'detailed' ? '\n\n' : '\n');
+  }
+}
+
+export const DEFAULT_INTENT_TAXONOMY: IntentTaxonomyConfig = {
+  intents: [
+    {
+      name: 'order_status',
+      label: 'WISMO - Where Is My Order',
+      description: 'Customer wants to know where their order is, when it will arrive, or why it hasn\'t arrived',
+      context: 'Any concern about order location, delivery timing, shipping progress',
+      examples: ['Where is my order?', 'Expected yesterday but not here', 'Haven\'t received my package', 'Order #123 status?'],
+      defaultPriority: 'medium',
+      specificIssue: 'Order delivery delay or tracking concerns',
+      actions: ['Check tracking information', 'Provide delivery update', 'Offer expedited shipping'],
+      escalationActions: ['Check order tracking', 'Contact fulfillment', 'Provide status update'],
+      escalationNotes: 'Delivery inquiry - check tracking and fulfillment status',
+      fallbackResponse: 'I don\'t have enough information to provide accurate details about your order status. Let me connect you with a human agent who can look up your specific order and provide you with the most current information.'
+    },
+    {
+      name: 'promo_refund',
+      description: 'Customer wants money back or has billing/payment concerns',
+      context: 'Financial disputes, refund requests, charge issues, promo codes that did not apply',
+      defaultPriority: 'high',
+      specificIssue: 'Promotional code or billing issue',
+      actions: ['Validate promo code', 'Process refund', 'Apply manual discount'],
+      escalationActions: ['Process refund request', 'Verify promo code validity', 'Apply discount retroactively'],
+      escalationNotes: 'Discount code issue - verify promotion validity and process refund if applicable',
+      escalateByDefault: true,
+      fallbackResponse: 'I want to make sure I handle your billing concern correctly. Let me connect you with a human agent who can review your account details and provide the most accurate assistance with your refund request.',
+      aliases: ['refund_request']
+    },
+    {
+      name: 'billing_dispute',
+      description: 'Customer disputes a charge on their account',
+      context: 'Unrecognized or incorrect charges, chargeback threats',
+      defaultPriority: 'urgent',
+      specificIssue: 'Disputed charge on the customer account',
+      actions: ['Review the disputed charge', 'Connect with the billing team'],
+      escalationActions: ['Review billing history', 'Contact billing team', 'Investigate charge'],
+      escalationNotes: 'Requires billing team review and potential refund processing',
+      escalateByDefault: true,
+      fallbackResponse: 'I want to make sure your billing concern is reviewed carefully. Let me connect you with a human agent from our billing team who can look into this charge for you.',
+      offerToClassifier: false
+    },
+    {
+      name: 'order_cancellation',
+      description: 'Customer wants to stop an order before it ships',
+      context: 'Prevent shipment, cancel before processing',
+      defaultPriority: 'high',
+      specificIssue: 'Request to cancel pending order',
+      actions: ['Cancel order if possible', 'Process refund', 'Stop shipment'],
+      fallbackResponse: 'To ensure your order is cancelled properly and on time, let me connect you with a human agent who can immediately process your cancellation request and confirm the details.'
+    },
+    {
+      name: 'return_request',
+      description: 'Customer wants to exchange or return a received product',
+      context: 'Product exchanges, returns (not necessarily for refund)',
+      defaultPriority: 'medium',
+      specificIssue: 'Product return or exchange request',
+      actions: ['Generate return label', 'Process exchange', 'Initiate refund'],
+      fallbackResponse: 'I want to make sure we handle your return correctly. Let me connect you with a human agent who can review your order details and guide you through the return process.'
+    },
+    {
+      name: 'subscription_changes',
+      description: 'Customer wants to modify their ongoing subscription',
+      context: 'Pause, resume, change contents, modify schedule',
+      defaultPriority: 'medium',
+      specificIssue: 'Subscription billing or modification concern',
+      actions: ['Modify subscription', 'Update billing', 'Adjust delivery schedule'],
+      escalationActions: ['Review subscription details', 'Process plan change', 'Check billing status'],
+      escalationNotes: 'Account modification required - verify current plan and billing status',
+      escalateByDefault: true,
+      fallbackResponse: 'To avoid any issues with your subscription, let me connect you with a human agent who can safely make the changes you need to your account.',
+      aliases: ['subscription_management']
+    },
+    {
+      name: 'cancellation_requests',
+      description: 'Customer wants to end their subscription/account permanently',
+      context: 'Terminate service, close account',
+      defaultPriority: 'medium',
+      specificIssue: 'Request to end subscription or close account',
+      actions: ['Cancel subscription', 'Confirm final billing date', 'Offer pause as an alternative'],
+      fallbackResponse: 'To make sure your cancellation is handled correctly, let me connect you with a human agent who can review your account and confirm everything with you.',
+      aliases: ['subscription_cancellation']
+    },
+    {
+      name: 'payment_issues',
+      description: 'Customer has problems with payment processing',
+      context: 'Failed payments, payment method issues',
+      defaultPriority: 'high',
+      specificIssue: 'Payment processing problem',
+      actions: ['Check payment status', 'Update payment method', 'Retry payment'],
+      fallbackResponse: 'I want to make sure we resolve your payment concern properly. Let me connect you with a human agent who can securely review your account and payment details.'
+    },
+    {
+      name: 'address_change',
+      description: 'Customer wants to change shipping address',
+      context: 'Update delivery location',
+      defaultPriority: 'high',
+      specificIssue: 'Shipping address update needed',
+      actions: ['Update shipping address', 'Confirm new delivery location'],
+      fallbackResponse: 'To ensure your order is delivered to the correct address, let me connect you with a human agent who can update your shipping information right away.'
+    },
+    {
+      name: 'product',
+      description: 'Customer has questions about product features or specifications',
+      context: 'Product information, compatibility, usage',
+      defaultPriority: 'low',
+      specificIssue: 'Product information or compatibility question',
+      actions: ['Provide product information', 'Check compatibility', 'Recommend alternatives'],
+      fallbackResponse: 'I don\'t have enough information to answer your product question accurately. Let me connect you with a human agent who can provide you with detailed product information.'
+    },
+    {
+      name: 'escalation',
+      description: 'Customer is frustrated, threatening, or has complex multi-issue problems',
+      context: 'Complaints, legal threats, multiple failed attempts',
+      defaultPriority: 'high',
+      specificIssue: 'Complex or sensitive issue requiring human attention',
+      actions: ['Acknowledge the concern', 'Connect with a human agent'],
+      escalationActions: ['Review full conversation history', 'Contact customer personally'],
+      escalateByDefault: true,
+      fallbackResponse: 'I want to make sure this gets the attention it deserves. Let me connect you with a human agent who can review everything and help you personally.',
+      aliases: ['complaint']
+    },
+    {
+      name: 'technical_issue',
+      description: 'Customer has a problem with the website, app or their account login',
+      context: 'Errors, broken pages, login failures',
+      defaultPriority: 'medium',
+      specificIssue: 'Technical problem with the website or account',
+      actions: ['Gather more details', 'Connect with technical support'],
+      escalationActions: ['Escalate to technical support', 'Gather more details', 'Test functionality'],
+      escalateByDefault: true,
+      fallbackResponse: 'I want to make sure this technical problem gets fixed properly. Let me connect you with a human agent who can look into it with our technical team.',
+      offerToClassifier: false
+    },
+    {
+      name: 'general',
+      description: 'Simple questions, compliments, basic inquiries',
+      context: 'Only use if no specific intent is clear',
+      defaultPriority: 'low',
+      specificIssue: 'General customer service inquiry',
+      actions: ['Provide customer assistance', 'Address customer concern'],
+      fallbackResponse: 'I want to make sure I understand your request correctly and provide you with the most helpful response. Let me connect you with a human agent who can assist you properly.'
+    }
+  ]
+};
+
+/**
+ * Intent Taxonomy Service
+ * Loads each tenant's taxonomy (settings.intentTaxonomy, falling back to the default)
+ * and validates it when it is loaded.
+ */
+class IntentTaxonomyService {
+  private readonly defaultTaxonomy = this.parse(DEFAULT_INTENT_TAXONOMY); // Throws at startup if the default is broken
+  private cache = new Map<string, { signature: string; taxonomy: IntentTaxonomy }>();
+
+  getDefault(): IntentTaxonomy {
+    return this.defaultTaxonomy;
+  }
+
+  async getTaxonomy(userId?: string): Promise<IntentTaxonomy> {
+    if (!userId) {
+      return this.defaultTaxonomy;
+    }
+
+    const settings = await storage.getSystemSettings(userId);
+    const config = settings?.intentTaxonomy;
+    if (!config) {
+      return this.defaultTaxonomy;
+    }
+
+    const signature = JSON.stringify(config);
+    const cached = this.cache.get(userId);
+    if (cached && cached.signature === signature) {
+      return cached.taxonomy;
+    }
+
+    let taxonomy: IntentTaxonomy;
+    try {
+      taxonomy = this.parse(config);
+    } catch (error) {
+      // A broken tenant taxonomy must not stop email processing. Cached under its signature
+      // so it is reported once, not on every email, until the settings change.
+      console.error(`[INTENT_TAXONOMY] Invalid taxonomy for user ${userId}, using default:`, error instanceof Error ? error.message : String(error));
+      taxonomy = this.defaultTaxonomy;
+    }
+    this.cache.set(userId, { signature, taxonomy });
+    return taxonomy;
+  }
+
+  /**
+   * Validate a taxonomy before saving it to settings
+   */
+  validate(config: unknown): { valid: boolean; errors: string[] } {
+    const result = intentTaxonomySchema.safeParse(config);
+    return result.success
+      ? { valid: true, errors: [] }
+      : { valid: false, errors: this.formatIssues(result.error) };
+  }
+
+  parse(config: unknown): IntentTaxonomy {
+    const result = intentTaxonomySchema.safeParse(config);
+    if (!result.success) {
+      throw new IntentTaxonomyError(this.formatIssues(result.error));
+    }
+    return new IntentTaxonomy(result.data.intents);
+  }
+
+  clearCache(userId?: string): void {
+    if (userId) {
+      this.cache.delete(userId);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private formatIssues(error: z.ZodError): string[] {
+    return error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+  }
+}
+
+export const intentTaxonomyService = new IntentTaxonomyService();
@@ -0,0 +1,126 @@
+import type { KnowledgeChunk } from "./knowledge-chunk-index";
+
+export interface KeywordSearchResult {
+  chunk: KnowledgeChunk;
+  score: number;
+  matchedTerms: string[];
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'has', 'have',
+  'hi', 'hello', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or',
+  'our', 'please', 'so', 'that', 'the', 'their', 'there', 'this', 'to', 'was', 'we', 'what', 'when',
+  'where', 'which', 'will', 'with', 'would', 'you', 'your'
+]);
+
+/**
+ * Okapi BM25 index over knowledge chunks
+ * Standard parameters (k1 = 1.2, b = 0.75) from the Robertson/Zaragoza formulation
+ */
+class Bm25Index {
+  private readonly k1 = 1.2;
+  private readonly b = 0.75;
+  private termFrequencies: Array<Map<string, number>> = [];
+  private documentFrequency = new Map<string, number>();
+  private lengths: number[] = [];
+  private avgLength = 0;
+
+  constructor(private chunks: KnowledgeChunk[]) {
+    for (const chunk of chunks) {
+      // Section headings count as terms too ("Returns Policy" finds its chunks)
+      const tokens = tokenize(`${(chunk.headingPath || []).join(' ')} ${chunk.content}`);
+      const tf = new Map<string, number>();
+      for (const token of tokens) {
+        tf.set(token, (tf.get(token) || 0) + 1);
+      }
+      for (const term of Array.from(tf.keys())) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+      this.termFrequencies.push(tf);
+      this.lengths.push(tokens.length);
+    }
+
+    const total = this.lengths.reduce((sum, length) => sum + length, 0);
+    this.avgLength = chunks.length > 0 ? total / chunks.length : 0;
+  }
+
+  search(query: string, limit: number): KeywordSearchResult[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const n = this.chunks.length;
+    const results: KeywordSearchResult[] = [];
+
+    for (let i = 0; i < n; i++) {
+      const tf = this.termFrequencies[i];
+      let score = 0;
+      const matchedTerms: string[] = [];
+
+      for (const term of queryTerms) {
+        const freq = tf.get(term);
+        if (!freq) continue;
+
+        const df = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        const norm = freq + this.k1 * (1 - this.b + this.b * (this.lengths[i] / (this.avgLength || 1)));
+        score += idf * ((freq * (this.k1 + 1)) / norm);
+        matchedTerms.push(term);
+      }
+
+      if (score > 0) {
+        results.push({ chunk: this.chunks[i], score, matchedTerms });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+/**
+ * Tokenize for exact-term matching. Compound tokens (SKU-123, SAVE20, return_policy)
+ * are kept whole and also split, so both "SKU-123" and "123" match.
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const matches = text.toLowerCase().match(/[a-z0-9]+(?:[-_.][a-z0-9]+)*/g) || [];
+
+  for (const match of matches) {
+    if (!STOPWORDS.has(match)) {
+      tokens.push(match);
+    }
+    const parts = match.split(/[-_.]/);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        if (part && !STOPWORDS.has(part)) {
+          tokens.push(part);
+        }
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Keyword (BM25) retrieval over the same chunks as the vector index.
+ * Indexes are cached per tenant and rebuilt when the chunk set changes.
+ */
+class KeywordSearchService {
+  private indexes = new Map<string, { signature: string; index: Bm25Index }>();
+
+  search(userId: string, chunks: KnowledgeChunk[], query: string, limit: number = 10): KeywordSearchResult[] {
+    const signature = chunks.map(c => c.id).join('|');
+    let cached = this.indexes.get(userId);
+
+    if (!cached || cached.signature !== signature) {
+      cached = { signature, index: new Bm25Index(chunks) };
+      this.indexes.set(userId, cached);
+    }
+
+    return cached.index.search(query, limit);
+  }
+
+  clearCache(): void {
+    this.indexes.clear();
+  }
+}
+
+export const keywordSearchService = new KeywordSearchService();
@@ -0,0 +1,252 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { llmProviderService } from "./llm-provider";
+import { contentChunker, type ChunkContentType } from "./content-chunker";
+
+/**
+ * Persisted chunk of training content with its embedding.
+ * Chunks are keyed by content hash so identical text is embedded once per tenant.
+ */
+export interface KnowledgeChunk {
+  id: string;
+  userId: string;
+  sourceId: string;
+  sourceType: KnowledgeSourceType;
+  sourceUrl: string;
+  sourceHash: string;       // Hash of the full source content when it was indexed
+  chunkIndex: number;
+  headingPath: string[];    // Section path, e.g. ["Shipping Policy", "International"]
+  tokenCount: number;
+  startOffset: number;      // Character offsets into the source content
+  endOffset: number;
+  contentHash: string;
+  content: string;
+  embedding: number[];
+  embeddingModel: string;
+  chunkerVersion: number;
+  createdAt?: Date;
+}
+
+export type KnowledgeSourceType = 'training_url' | 'document';
+
+/**
+ * What a source was last indexed from, kept on the training URL or document record.
+ * Lets a source that produced no chunks count as indexed.
+ */
+export interface KnowledgeIndexState {
+  sourceHash: string;
+  embeddingModel: string;
+  chunkerVersion: number;
+  chunkCount: number;
+  indexedAt: string;
+}
+
+/**
+ * Anything retrieval can read: crawled training URLs and uploaded documents
+ */
+export interface KnowledgeSource {
+  id: string;
+  sourceType: KnowledgeSourceType;
+  url: string;              // Crawled URL, or upload://<filename> for documents
+  content: string;
+  contentType?: ChunkContentType;
+  indexState?: KnowledgeIndexState;
+}
+
+// Bump when chunking changes so existing indexes are rebuilt on next sync
+const CHUNKER_VERSION = 5;
+
+/**
+ * Knowledge Chunk Index
+ * Embeds training content once when a URL finishes crawling (or a document is uploaded)
+ * instead of on every query. Re-crawled URLs are detected by content hash and re-indexed;
+ * unchanged chunks keep their vectors.
+ */
+class KnowledgeChunkIndex {
+
+  /**
+   * Index a crawled training URL. Call when a crawl completes (including re-crawls).
+   */
+  async indexTrainingUrl(userId: string, trainingUrl: any): Promise<number> {
+    if (trainingUrl.status !== 'completed' || !trainingUrl.crawledContent) {
+      await this.invalidateSource(userId, trainingUrl.id);
+      return 0;
+    }
+
+    return this.indexSource(userId, this.fromTrainingUrl(trainingUrl));
+  }
+
+  /**
+   * Index an uploaded knowledge document. Call after ingestion stores it.
+   */
+  async indexDocument(userId: string, document: any): Promise<number> {
+    if (document.status !== 'completed' || !document.content) {
+      await this.invalidateSource(userId, document.id);
+      return 0;
+    }
+
+    return this.indexSource(userId, this.fromDocument(document));
+  }
+
+  fromTrainingUrl(trainingUrl: any): KnowledgeSource {
+    return {
+      id: trainingUrl.id,
+      sourceType: 'training_url',
+      url: trainingUrl.url as string,
+      content: trainingUrl.crawledContent,
+      indexState: trainingUrl.indexState
+    };
+  }
+
+  fromDocument(document: any): KnowledgeSource {
+    return {
+      id: document.id,
+      sourceType: 'document',
+      url: `upload://${document.filename}`,
+      content: document.content,
+      contentType: document.contentType,
+      indexState: document.indexState
+    };
+  }
+
+  /**
+   * Drop all chunks for a source (URL deleted, re-crawl started or failed)
+   */
+  async invalidateSource(userId: string, sourceId: string): Promise<void> {
+    await storage.deleteKnowledgeChunks(userId, sourceId);
+  }
+
+  /**
+   * Bring the index in line with the tenant's completed knowledge sources.
+   * Cheap when nothing changed: only hashes are compared, nothing is embedded.
+   */
+  async syncSources(userId: string, sources: KnowledgeSource[]): Promise<KnowledgeChunk[]> {
+    let chunks: KnowledgeChunk[] = await storage.getKnowledgeChunks(userId);
+    const llm = await llmProviderService.getProvider(userId);
+
+    const indexedHashes = new Map<string, KnowledgeChunk>();
+    for (const chunk of chunks) {
+      indexedHashes.set(chunk.sourceId, chunk);
+    }
+
+    let changed = false;
+    const liveSourceIds = new Set<string>();
+
+    for (const source of sources) {
+      liveSourceIds.add(source.id);
+      const indexed = indexedHashes.get(source.id);
+      // A source that chunked to nothing has no chunks to compare - its index state says it's done
+      const current = indexed || (source.indexState?.chunkCount === 0 ? source.indexState : undefined);
+
+      const isFresh = current &&
+        current.sourceHash === this.hash(source.content) &&
+        current.embeddingModel === llm.embeddingModel &&
+        current.chunkerVersion === CHUNKER_VERSION;
+
+      if (!isFresh) {
+        console.log(`[CHUNK_INDEX] ${indexed ? 'Re-indexing changed' : 'Indexing new'} source ${source.url}`);
+        try {
+          await this.indexSource(userId, source);
+          changed = true;
+        } catch (error) {
+          // Keep serving the previous chunks (if any) - the next sync retries
+          console.error(`[CHUNK_INDEX] Error indexing ${source.url}:`, error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+
+    // Remove chunks whose source is gone or no longer completed
+    for (const sourceId of Array.from(indexedHashes.keys())) {
+      if (!liveSourceIds.has(sourceId)) {
+        await this.invalidateSource(userId, sourceId);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      chunks = await storage.getKnowledgeChunks(userId);
+    }
+
+    return chunks;
+  }
+
+  private async indexSource(userId: string, source: KnowledgeSource): Promise<number> {
+    const llm = await llmProviderService.getProvider(userId);
+    const sourceHash = this.hash(source.content);
+
+    // Reuse vectors for any chunk text this tenant has already embedded with the same model
+    const existing: KnowledgeChunk[] = await storage.getKnowledgeChunks(userId);
+    const knownEmbeddings = new Map<string, number[]>();
+    for (const chunk of existing) {
+      if (chunk.embeddingModel === llm.embeddingModel) {
+        knownEmbeddings.set(chunk.contentHash, chunk.embedding);
+      }
+    }
+
+    const spans = contentChunker.chunk(source.content, { contentType: source.contentType });
+
+    const chunks: KnowledgeChunk[] = [];
+    const seen = new Set<string>();
+    let embedded = 0;
+
+    for (const { text, headingPath, tokenCount, startOffset, endOffset } of spans) {
+      // Heading path is part of what gets embedded, so identical text under different sections stays distinct
+      const embeddingInput = headingPath.length > 0 ? `${headingPath.join(' › ')}\n${text}` : text;
+      const contentHash = this.hash(embeddingInput);
+      if (seen.has(contentHash)) continue; // Duplicate block within the same page
+      seen.add(contentHash);
+
+      let embedding = knownEmbeddings.get(contentHash);
+      if (!embedding) {
+        embedding = await llm.createEmbedding(embeddingInput);
+        knownEmbeddings.set(contentHash, embedding);
+        embedded++;
+      }
+
+      chunks.push({
+        id: `${source.id}:${contentHash}`,
+        userId,
+        sourceId: source.id,
+        sourceType: source.sourceType,
+        sourceUrl: source.url,
+        sourceHash,
+        chunkIndex: chunks.length,
+        headingPath,
+        tokenCount,
+        startOffset,
+        endOffset,
+        contentHash,
+        content: text,
+        embedding,
+        embeddingModel: llm.embeddingModel,
+        chunkerVersion: CHUNKER_VERSION
+      });
+    }
+
+    await storage.replaceKnowledgeChunks(userId, source.id, chunks);
+    await this.recordIndexState(source, {
+      sourceHash,
+      embeddingModel: llm.embeddingModel,
+      chunkerVersion: CHUNKER_VERSION,
+      chunkCount: chunks.length,
+      indexedAt: new Date().toISOString()
+    });
+
+    console.log(`[CHUNK_INDEX] Indexed ${source.url}: ${chunks.length} chunks (${embedded} newly embedded)`);
+    return chunks.length;
+  }
+
+  private async recordIndexState(source: KnowledgeSource, indexState: KnowledgeIndexState): Promise<void> {
+    if (source.sourceType === 'training_url') {
+      await storage.updateTrainingUrl(source.id, { indexState });
+    } else {
+      await storage.updateKnowledgeDocument(source.id, { indexState });
+    }
+  }
+
+  private hash(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
+  }
+}
+
+export const knowledgeChunkIndex = new KnowledgeChunkIndex();
@@ -0,0 +1,303 @@
+import { storage } from "../storage";
+import { knowledgeChunkIndex } from "./knowledge-chunk-index";
+import type { ChunkContentType } from "./content-chunker";
+
+export type KnowledgeDocumentFormat = 'markdown' | 'text' | 'html' | 'pdf' | 'csv';
+
+export interface KnowledgeUpload {
+  filename: string;
+  data: Buffer | string;
+  mimeType?: string;
+  title?: string;
+}
+
+export interface IngestionResult {
+  success: boolean;
+  documentId?: string;
+  format?: KnowledgeDocumentFormat;
+  chunkCount: number;
+  error?: string;
+}
+
+const EXTENSION_FORMATS: Record<string, KnowledgeDocumentFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  html: 'html',
+  htm: 'html',
+  pdf: 'pdf',
+  csv: 'csv'
+};
+
+const MIME_FORMATS: Record<string, KnowledgeDocumentFormat> = {
+  'text/markdown': 'markdown',
+  'text/plain': 'text',
+  'text/html': 'html',
+  'application/pdf': 'pdf',
+  'text/csv': 'csv'
+};
+
+// CSV FAQ exports use many column names for the same thing
+const QUESTION_COLUMNS = ['question', 'q', 'faq', 'title', 'query', 'prompt'];
+const ANSWER_COLUMNS = ['answer', 'a', 'response', 'reply', 'body', 'content'];
+const CATEGORY_COLUMNS = ['category', 'topic', 'section', 'group'];
+
+/**
+ * Knowledge Ingestion Service
+ * Turns uploaded policy documents into knowledge sources that go through the same
+ * chunking/embedding path as crawled training URLs.
+ */
+class KnowledgeIngestionService {
+
+  /**
+   * Ingest an uploaded document: extract text, store it, and index its chunks
+   */
+  async ingestDocument(userId: string, upload: KnowledgeUpload): Promise<IngestionResult> {
+    const format = this.detectFormat(upload.filename, upload.mimeType);
+    if (!format) {
+      return { success: false, chunkCount: 0, error: `Unsupported document type: ${upload.filename}` };
+    }
+
+    let document: any = null;
+    try {
+      const { content, contentType } = await this.extractContent(upload.data, format);
+
+      if (!content.trim()) {
+        return { success: false, format, chunkCount: 0, error: 'Document contains no extractable text' };
+      }
+
+      document = await storage.createKnowledgeDocument({
+        userId,
+        title: upload.title || upload.filename.replace(/\.[^.]+$/, ''),
+        filename: upload.filename,
+        format,
+        contentType,
+        content,
+        status: 'completed'
+      });
+
+      const chunkCount = await knowledgeChunkIndex.indexDocument(userId, document);
+
+      await storage.createActivityLog({
+        userId,
+        action: 'Ingested knowledge document',
+        type: 'ai_training',
+        executedBy: 'human',
+        customerEmail: 'system',
+        details: `Added ${upload.filename} (${format}) to AI knowledge: ${chunkCount} chunks indexed`,
+        status: 'completed',
+        metadata: {
+          documentId: document.id,
+          filename: upload.filename,
+          format,
+          chunkCount
+        }
+      });
+
+      console.log(`[KNOWLEDGE_INGESTION] Ingested ${upload.filename} as ${format}: ${chunkCount} chunks`);
+      return { success: true, documentId: document.id, format, chunkCount };
+
+    } catch (error) {
+      console.error(`[KNOWLEDGE_INGESTION] Failed to ingest ${upload.filename}:`, error);
+
+      if (document) {
+        // Stored but not indexed - mark failed so retrieval ignores it
+        try {
+          await storage.updateKnowledgeDocument(document.id, {
+            status: 'failed',
+            errorMessage: error instanceof Error ? error.message : String(error)
+          });
+        } catch (updateError) {
+          console.error(`[KNOWLEDGE_INGESTION] Could not mark ${upload.filename} as failed:`, updateError);
+        }
+      }
+
+      return {
+        success: false,
+        documentId: document?.id,
+        format,
+        chunkCount: 0,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Store a finished crawl and index it right away, so retrieval never embeds page content
+   * at query time. The crawler calls this for first crawls and re-crawls alike.
+   */
+  async completeCrawl(userId: string, trainingUrlId: string, crawledContent: string): Promise<number> {
+    const trainingUrl = await storage.updateTrainingUrl(trainingUrlId, {
+      status: 'completed',
+      crawledContent
+    });
+    if (!trainingUrl) {
+      throw new Error(`Training URL ${trainingUrlId} not found`);
+    }
+
+    try {
+      const chunkCount = await knowledgeChunkIndex.indexTrainingUrl(userId, trainingUrl);
+      console.log(`[KNOWLEDGE_INGESTION] Indexed crawl of ${trainingUrl.url}: ${chunkCount} chunks`);
+      return chunkCount;
+    } catch (error) {
+      // The crawl itself succeeded - the next retrieval sync retries the indexing
+      console.error(`[KNOWLEDGE_INGESTION] Failed to index crawl of ${trainingUrl.url}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Remove a document and its indexed chunks
+   */
+  async deleteDocument(userId: string, documentId: string): Promise<void> {
+    await knowledgeChunkIndex.invalidateSource(userId, documentId);
+    await storage.deleteKnowledgeDocument(documentId);
+  }
+
+  detectFormat(filename: string, mimeType?: string): KnowledgeDocumentFormat | null {
+    const extension = filename.split('.').pop()?.toLowerCase() || '';
+    if (EXTENSION_FORMATS[extension]) {
+      return EXTENSION_FORMATS[extension];
+    }
+
+    const mime = mimeType?.split(';')[0].trim().toLowerCase();
+    return (mime && MIME_FORMATS[mime]) || null;
+  }
+
+  private async extractContent(
+    data: Buffer | string,
+    format: KnowledgeDocumentFormat
+  ): Promise<{ content: string; contentType: ChunkContentType }> {
+    switch (format) {
+      case 'markdown':
+        return { content: this.toText(data), contentType: 'markdown' };
+      case 'text':
+        return { content: this.toText(data), contentType: 'text' };
+      case 'html':
+        return { content: this.toText(data), contentType: 'html' };
+      case 'pdf': {
+        const pdfParse = (await import('pdf-parse')).default;
+        const parsed = await pdfParse(typeof data === 'string' ? Buffer.from(data, 'binary') : data);
+        return { content: this.normalizePdfText(parsed.text), contentType: 'text' };
+      }
+      case 'csv':
+        return { content: this.csvToFaqMarkdown(this.toText(data)), contentType: 'markdown' };
+    }
+  }
+
+  private toText(data: Buffer | string): string {
+    const text = typeof data === 'string' ? data : data.toString('utf-8');
+    return text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  }
+
+  /**
+   * PDF text comes out hard-wrapped - rejoin wrapped lines but keep paragraph breaks
+   */
+  private normalizePdfText(text: string): string {
+    return text
+      .replace(/\r\n/g, '\n')
+      .replace(/-\n(?=[a-z])/g, '')             // De-hyphenate words split across lines
+      .replace(/([^\n.:?!])\n(?=[a-z])/g, '$1 ') // Join lines that continue a sentence
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Convert a CSV FAQ export to markdown Q/A pairs (grouped by category when present)
+   * so the chunker keeps each question with its answer
+   */
+  private csvToFaqMarkdown(csv: string): string {
+    const rows = this.parseCsv(csv);
+    if (rows.length < 2) {
+      throw new Error('CSV must have a header row and at least one Q/A row');
+    }
+
+    const header = rows[0].map(h => h.trim().toLowerCase());
+    const questionIndex = header.findIndex(h => QUESTION_COLUMNS.includes(h));
+    const answerIndex = header.findIndex(h => ANSWER_COLUMNS.includes(h));
+    const categoryIndex = header.findIndex(h => CATEGORY_COLUMNS.includes(h));
+
+    // Headerless two-column exports: first column question, second answer
+    const hasHeader = questionIndex >= 0 && answerIndex >= 0;
+    const qIdx = hasHeader ? questionIndex : 0;
+    const aIdx = hasHeader ? answerIndex : 1;
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+
+    const byCategory = new Map<string, Array<{ question: string; answer: string }>>();
+    for (const row of dataRows) {
+      const question = row[qIdx]?.trim();
+      const answer = row[aIdx]?.trim();
+      if (!question || !answer) continue;
+
+      const category = (categoryIndex >= 0 && hasHeader ? row[categoryIndex]?.trim() : '') || 'FAQ';
+      if (!byCategory.has(category)) {
+        byCategory.set(category, []);
+      }
+      byCategory.get(category)!.push({ question, answer });
+    }
+
+    if (byCategory.size === 0) {
+      throw new Error('No question/answer rows found in CSV');
+    }
+
+    const sections: string[] = [];
+    for (const [category, pairs] of Array.from(byCategory.entries())) {
+      sections.push(`# ${category}`);
+      for (const { question, answer } of pairs) {
+        sections.push(`Q: ${question.replace(/\s+/g, ' ')}\nA: ${answer.replace(/\s+/g, ' ')}`);
+      }
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * RFC 4180 CSV parsing (quoted fields, escaped quotes, embedded newlines)
+   */
+  private parseCsv(csv: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < csv.length; i++) {
+      const char = csv[i];
+
+      if (inQuotes) {
+        if (char === '"' && csv[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows.filter(r => r.some(cell => cell.trim()));
+  }
+}
+
+export const knowledgeIngestionService = new KnowledgeIngestionService();
@@ -0,0 +1,267 @@
+import OpenAI from "openai";
+import { readFileSync } from "fs";
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { providerResilience } from "./provider-resilience";
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionOptions {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonResponse?: boolean; // Ask the provider for a JSON object response
+  model?: string;         // Overrides the provider's configured chat model
+}
+
+/**
+ * Provider-agnostic interface for chat completions and embeddings.
+ * Services must go through this instead of constructing their own OpenAI client.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderType;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+  createChatCompletion(options: ChatCompletionOptions): Promise<string | null>;
+  createEmbedding(text: string): Promise<number[]>;
+}
+
+export type LLMProviderType = 'openai' | 'openai_compatible' | 'stub';
+
+export interface LLMProviderConfig {
+  type: LLMProviderType;
+  apiKey?: string;
+  baseURL?: string;         // Required for openai_compatible (e.g. http://localhost:11434/v1)
+  chatModel?: string;
+  embeddingModel?: string;
+  stubScriptPath?: string;  // JSON script for the stub provider
+}
+
+/**
+ * Scripted responses for the stub provider. JSON-friendly so CI can load it from a file.
+ * Completions are resolved against the last user message: exact prompt first, then
+ * substring, then regular expression. Unmatched prompts get defaultCompletion.
+ */
+export interface StubScript {
+  completions?: Array<{
+    prompt?: string;
+    contains?: string;
+    pattern?: string;
+    response: string;
+  }>;
+  defaultCompletion?: string;
+  embeddings?: Record<string, number[]>;
+  dimensions?: number;
+}
+
+const DEFAULT_CHAT_MODEL = "gpt-4o";
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/**
+ * OpenAI and OpenAI-compatible servers (vLLM, Ollama, LM Studio) share the same wire format
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderType;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+  private client: OpenAI;
+  private breakerKey: string;
+
+  constructor(config: LLMProviderConfig) {
+    this.name = config.type === 'openai_compatible' ? 'openai_compatible' : 'openai';
+    this.chatModel = config.chatModel || DEFAULT_CHAT_MODEL;
+    this.embeddingModel = config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+
+    if (this.name === 'openai_compatible' && !config.baseURL) {
+      throw new Error('openai_compatible provider requires a baseURL');
+    }
+
+    // One breaker per endpoint, so a tenant's self-hosted server going down doesn't trip OpenAI's
+    this.breakerKey = config.baseURL ? `llm:${new URL(config.baseURL).host}` : 'llm:openai';
+    this.client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK refuses an empty one
+      apiKey: config.apiKey || (this.name === 'openai_compatible' ? 'not-needed' : process.env.OPENAI_API_KEY),
+      baseURL: config.baseURL,
+      // Timeouts and retries are owned by providerResilience
+      maxRetries: 0
+    });
+  }
+
+  async createChatCompletion(options: ChatCompletionOptions): Promise<string | null> {
+    const completion = await providerResilience.execute(this.breakerKey, 'llm', signal =>
+      this.client.chat.completions.create({
+        model: options.model || this.chatModel,
+        messages: options.messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        ...(options.jsonResponse ? { response_format: { type: "json_object" as const } } : {})
+      }, { signal })
+    );
+
+    return completion.choices[0]?.message?.content || null;
+  }
+
+  async createEmbedding(text: string): Promise<number[]> {
+    const response = await providerResilience.execute(this.breakerKey, 'llm', signal =>
+      this.client.embeddings.create({
+        model: this.embeddingModel,
+        input: text.substring(0, 8191), // Model's max token limit
+        encoding_format: "float"
+      }, { signal })
+    );
+
+    return response.data[0].embedding;
+  }
+}
+
+/**
+ * Deterministic scripted provider for CI and offline runs - never touches the network
+ */
+export class StubLLMProvider implements LLMProvider {
+  readonly name: LLMProviderType = 'stub';
+  readonly chatModel = 'stub-chat';
+  readonly embeddingModel = 'stub-embedding';
+  private script: StubScript;
+  readonly calls: ChatCompletionOptions[] = [];
+
+  constructor(script: StubScript = {}) {
+    this.script = {
+      completions: [...(script.completions || [])],
+      defaultCompletion: script.defaultCompletion ?? '{}',
+      embeddings: { ...(script.embeddings || {}) },
+      dimensions: script.dimensions || 256
+    };
+  }
+
+  static fromFile(path: string): StubLLMProvider {
+    return new StubLLMProvider(JSON.parse(readFileSync(path, 'utf-8')));
+  }
+
+  /**
+   * Register a canned completion; later registrations take precedence
+   */
+  addCompletion(entry: { prompt?: string; contains?: string; pattern?: string; response: string }): void {
+    this.script.completions!.unshift(entry);
+  }
+
+  addEmbedding(text: string, embedding: number[]): void {
+    this.script.embeddings![text] = embedding;
+  }
+
+  async createChatCompletion(options: ChatCompletionOptions): Promise<string | null> {
+    this.calls.push(options);
+
+    const prompt = [...options.messages].reverse().find(m => m.role === 'user')?.content || '';
+    const completions = this.script.completions!;
+
+    const match =
+      completions.find(c => c.prompt !== undefined && c.prompt === prompt) ||
+      completions.find(c => c.contains !== undefined && prompt.includes(c.contains)) ||
+      completions.find(c => c.pattern !== undefined && new RegExp(c.pattern, 'i').test(prompt));
+
+    return match ? match.response : this.script.defaultCompletion!;
+  }
+
+  async createEmbedding(text: string): Promise<number[]> {
+    const canned = this.script.embeddings![text];
+    if (canned) {
+      return canned;
+    }
+
+    // Hashed bag-of-words: texts sharing vocabulary land close together,
+    // which keeps similarity search meaningful without a real model
+    const dimensions = this.script.dimensions!;
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+    for (const token of tokens) {
+      const digest = createHash('md5').update(token).digest();
+      const index = digest.readUInt32BE(0) % dimensions;
+      vector[index] += digest[4] % 2 === 0 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+}
+
+/**
+ * Resolves the LLM provider for a tenant from system settings, falling back to environment defaults
+ */
+class LLMProviderService {
+  private providers = new Map<string, LLMProvider>();
+  private override: LLMProvider | null = null;
+
+  /**
+   * Get the provider configured for a tenant (or the environment default when no userId)
+   */
+  async getProvider(userId?: string): Promise<LLMProvider> {
+    if (this.override) {
+      return this.override;
+    }
+
+    const config = await this.resolveConfig(userId);
+    const cacheKey = JSON.stringify(config);
+
+    let provider = this.providers.get(cacheKey);
+    if (!provider) {
+      provider = this.createProvider(config);
+      this.providers.set(cacheKey, provider);
+      console.log(`[LLM_PROVIDER] Initialized ${provider.name} provider (chat: ${provider.chatModel}, embeddings: ${provider.embeddingModel})`);
+    }
+
+    return provider;
+  }
+
+  createProvider(config: LLMProviderConfig): LLMProvider {
+    switch (config.type) {
+      case 'stub':
+        return config.stubScriptPath
+          ? StubLLMProvider.fromFile(config.stubScriptPath)
+          : new StubLLMProvider();
+      case 'openai':
+      case 'openai_compatible':
+        return new OpenAIProvider(config);
+      default:
+        throw new Error(`Unknown LLM provider type: ${(config as LLMProviderConfig).type}`);
+    }
+  }
+
+  /**
+   * Force every tenant onto one provider (CI, offline replay). Pass null to restore.
+   */
+  setOverride(provider: LLMProvider | null): void {
+    this.override = provider;
+  }
+
+  clearCache(): void {
+    this.providers.clear();
+  }
+
+  private async resolveConfig(userId?: string): Promise<LLMProviderConfig> {
+    let settings: any = null;
+    if (userId) {
+      try {
+        settings = await storage.getSystemSettings(userId);
+      } catch (error) {
+        console.warn('[LLM_PROVIDER] Could not load tenant settings, using environment defaults:', error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const type = (settings?.llmProvider || process.env.LLM_PROVIDER || 'openai') as LLMProviderType;
+
+    return {
+      type,
+      apiKey: settings?.llmApiKey || process.env.LLM_API_KEY || undefined,
+      baseURL: settings?.llmBaseUrl || process.env.LLM_BASE_URL || undefined,
+      chatModel: settings?.llmChatModel || process.env.LLM_CHAT_MODEL || undefined,
+      embeddingModel: settings?.llmEmbeddingModel || process.env.LLM_EMBEDDING_MODEL || undefined,
+      stubScriptPath: type === 'stub' ? process.env.LLM_STUB_SCRIPT : undefined
+    };
+  }
+}
+
+export const llmProviderService = new LLMProviderService();
@@ -0,0 +1,393 @@
+import type { IncomingEmail } from "./auto-responder";
+
+export interface EmailAddress {
+  name?: string;
+  address: string;
+}
+
+export interface MimeAttachment {
+  filename?: string;
+  contentType: string;
+  size: number;
+  contentId?: string;
+  inline: boolean;       // Referenced from the HTML body (Content-Disposition: inline, or a related image)
+  content: Buffer;
+}
+
+/**
+ * A parsed RFC 5322 message
+ */
+export interface ParsedEmail {
+  headers: Record<string, string>;  // Lower-cased names, decoded values; first occurrence of repeated headers
+  from: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  replyTo?: EmailAddress;
+  deliveredTo?: string;
+  subject: string;
+  date?: Date;
+  messageId?: string;               // Without angle brackets
+  inReplyTo?: string;
+  references: string[];
+  text: string;                     // text/plain parts, or text derived from the HTML when there are none
+  html?: string;
+  attachments: MimeAttachment[];
+  autoSubmitted?: string;           // Why the message looks machine-generated (RFC 3834); unset for human mail
+}
+
+interface MimePart {
+  headers: Record<string, string>;  // Raw (binary) values, unfolded
+  contentType: HeaderValue;
+  disposition?: HeaderValue;
+  body: string;                     // Binary string: one char per byte
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", hellip: '…', mdash: '—', ndash: '–',
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', copy: '©', reg: '®', euro: '€', pound: '£'
+};
+
+/**
+ * MIME Parser
+ * Turns a raw message (webhook payload, IMAP fetch, .eml file) into the text, HTML, headers,
+ * addresses, attachments and thread references the pipeline works from. Handles multipart
+ * nesting, quoted-printable and base64 bodies, RFC 2047 encoded headers and RFC 2231 filenames.
+ */
+class MimeParser {
+  parse(raw: string | Buffer): ParsedEmail {
+    // Work on one char per byte so charsets can be decoded per part
+    const binary = (typeof raw === 'string' ? Buffer.from(raw, 'utf-8') : raw).toString('latin1').replace(/\r\n/g, '\n');
+    const root = this.parsePart(binary);
+
+    const texts: string[] = [];
+    const htmls: string[] = [];
+    const attachments: MimeAttachment[] = [];
+    this.collect(root, texts, htmls, attachments);
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(root.headers)) {
+      headers[name] = this.decodeHeader(value);
+    }
+
+    const html = htmls.length > 0 ? htmls.join('\n') : undefined;
+    const text = texts.length > 0 ? texts.join('\n\n') : html ? this.htmlToText(html) : '';
+    const from = this.parseAddressList(root.headers['from'] || '')[0] || { address: '' };
+    const date = headers['date'] ? new Date(headers['date']) : undefined;
+
+    return {
+      headers,
+      from,
+      to: this.parseAddressList(root.headers['to'] || ''),
+      cc: this.parseAddressList(root.headers['cc'] || ''),
+      replyTo: this.parseAddressList(root.headers['reply-to'] || '')[0],
+      deliveredTo: this.parseAddressList(root.headers['delivered-to'] || root.headers['x-original-to'] || '')[0]?.address,
+      subject: headers['subject'] || '',
+      date: date && !isNaN(date.getTime()) ? date : undefined,
+      messageId: this.messageIds(headers['message-id'])[0],
+      inReplyTo: this.messageIds(headers['in-reply-to'])[0],
+      references: this.messageIds(headers['references']),
+      text: text.trim(),
+      html,
+      attachments,
+      autoSubmitted: this.autoSubmitted(headers, from.address)
+    };
+  }
+
+  /**
+   * The pipeline's input shape. Attachment content is dropped - only what it was is kept.
+   */
+  toIncomingEmail(parsed: ParsedEmail): IncomingEmail {
+    return {
+      fromEmail: parsed.from.address,
+      fromName: parsed.from.name,
+      toEmail: parsed.deliveredTo || parsed.to[0]?.address || '',
+      subject: parsed.subject,
+      body: parsed.text,
+      html: parsed.html,
+      messageId: parsed.messageId,
+      inReplyTo: parsed.inReplyTo,
+      references: parsed.references.length > 0 ? parsed.references : undefined,
+      autoSubmitted: parsed.autoSubmitted,
+      attachments: parsed.attachments.length > 0
+        ? parsed.attachments.map(({ filename, contentType, size }) => ({ filename, contentType, size }))
+        : undefined
+    };
+  }
+
+  /**
+   * Plain text from an HTML body: block elements become line breaks, tags and entities go
+   */
+  htmlToText(html: string): string {
+    return html
+      .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>|<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+          const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+          return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+        }
+        return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      })
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private parsePart(binary: string): MimePart {
+    const separator = binary.startsWith('\n') ? 0 : binary.indexOf('\n\n');
+    const headerBlock = separator >= 0 ? binary.slice(0, separator) : binary;
+    const headers: Record<string, string> = {};
+
+    for (const line of headerBlock.replace(/\n[ \t]+/g, ' ').split('\n')) {
+      const colon = line.indexOf(':');
+      if (colon <= 0) continue;
+      const name = line.slice(0, colon).trim().toLowerCase();
+      if (!(name in headers)) {
+        headers[name] = line.slice(colon + 1).trim();
+      }
+    }
+
+    return {
+      headers,
+      contentType: this.parseHeaderValue(headers['content-type'] || 'text/plain'),
+      disposition: headers['content-disposition'] ? this.parseHeaderValue(headers['content-disposition']) : undefined,
+      body: separator >= 0 ? binary.slice(separator + (separator === 0 ? 1 : 2)) : ''
+    };
+  }
+
+  private collect(part: MimePart, texts: string[], htmls: string[], attachments: MimeAttachment[]): void {
+    const type = part.contentType.value;
+    const boundary = part.contentType.params['boundary'];
+
+    if (type.startsWith('multipart/') && boundary) {
+      const children = this.splitMultipart(part.body, boundary).map(body => this.parsePart(body));
+      if (type === 'multipart/alternative') {
+        // Alternatives are the same content - keep the best plain and best HTML rendering only
+        const plain = children.filter(c => c.contentType.value === 'text/plain' && !this.isAttachment(c)).pop();
+        const rich = children.filter(c => c.contentType.value === 'text/html' && !this.isAttachment(c)).pop();
+        const nested = children.filter(c => c.contentType.value.startsWith('multipart/'));
+        for (const child of [plain, rich, ...nested]) {
+          if (child) this.collect(child, texts, htmls, attachments);
+        }
+        return;
+      }
+      for (const child of children) {
+        this.collect(child, texts, htmls, attachments);
+      }
+      return;
+    }
+
+    const content = this.decodeBody(part.body, part.headers['content-transfer-encoding']);
+    if (!this.isAttachment(part) && (type === 'text/plain' || type === 'text/html')) {
+      const decoded = this.decodeCharset(content, part.contentType.params['charset']);
+      (type === 'text/html' ? htmls : texts).push(decoded);
+      return;
+    }
+
+    attachments.push({
+      filename: part.disposition?.params['filename'] || part.contentType.params['name'],
+      contentType: type,
+      size: content.length,
+      contentId: part.headers['content-id']?.replace(/^<|>$/g, ''),
+      inline: part.disposition?.value !== 'attachment',
+      content
+    });
+  }
+
+  private isAttachment(part: MimePart): boolean {
+    return part.disposition?.value === 'attachment' || !!part.disposition?.params['filename'];
+  }
+
+  private splitMultipart(body: string, boundary: string): string[] {
+    const delimiter = `--${boundary}`;
+    const parts: string[] = [];
+    let current: string[] | null = null;
+
+    for (const line of body.split('\n')) {
+      if (line.startsWith(delimiter)) {
+        const rest = line.slice(delimiter.length);
+        if (rest.startsWith('--')) break;
+        if (rest.trim() === '') {
+          if (current) parts.push(current.join('\n'));
+          current = [];
+          continue;
+        }
+      }
+      current?.push(line);
+    }
+    if (current) parts.push(current.join('\n'));
+    return parts;
+  }
+
+  private decodeBody(body: string, encoding = ''): Buffer {
+    switch (encoding.trim().toLowerCase()) {
+      case 'quoted-printable':
+        return Buffer.from(
+          body.replace(/=[ \t]*\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+          'latin1'
+        );
+      case 'base64':
+        return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+      default:
+        return Buffer.from(body, 'latin1');
+    }
+  }
+
+  private decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+    const normalized = charset.trim().toLowerCase();
+    if (['utf-8', 'utf8', 'us-ascii', 'ascii'].includes(normalized)) {
+      return bytes.toString('utf-8');
+    }
+    try {
+      return new TextDecoder(normalized).decode(bytes);
+    } catch {
+      // Unknown charset label: latin1 never fails and keeps ASCII intact
+      return bytes.toString('latin1');
+    }
+  }
+
+  /**
+   * Raw header value to text: 8-bit bytes as UTF-8 (RFC 6532), then RFC 2047 encoded words
+   */
+  private decodeHeader(value: string): string {
+    return Buffer.from(value, 'latin1').toString('utf-8')
+      // Whitespace between adjacent encoded words isn't part of the text
+      .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+      .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+        const bytes = encoding.toUpperCase() === 'B'
+          ? Buffer.from(text, 'base64')
+          : Buffer.from(text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+        return this.decodeCharset(bytes, charset.split('*')[0]);
+      });
+  }
+
+  /**
+   * "value; name=param; filename*=utf-8''na%C3%AFve.pdf" with RFC 2231 continuations and charsets
+   */
+  private parseHeaderValue(raw: string): HeaderValue {
+    const [value = '', ...rest] = this.splitOutsideQuotes(raw, ';');
+    const pieces: Record<string, { index: number; extended: boolean; text: string }[]> = {};
+
+    for (const segment of rest) {
+      const eq = segment.indexOf('=');
+      if (eq <= 0) continue;
+      const key = segment.slice(0, eq).trim().toLowerCase();
+      let text = segment.slice(eq + 1).trim();
+      if (text.startsWith('"') && text.endsWith('"')) {
+        text = text.slice(1, -1).replace(/\\(.)/g, '$1');
+      }
+      const match = key.match(/^([^*]+)(?:\*(\d+))?(\*)?$/);
+      if (!match) continue;
+      (pieces[match[1]] ||= []).push({ index: Number(match[2] || 0), extended: !!match[3], text });
+    }
+
+    const params: Record<string, string> = {};
+    for (const [name, parts] of Object.entries(pieces)) {
+      parts.sort((a, b) => a.index - b.index);
+      let charset = 'utf-8';
+      const bytes: Buffer[] = [];
+      for (const part of parts) {
+        let text = part.text;
+        if (part.extended) {
+          if (part.index === 0) {
+            const [declared, , encoded] = text.split("'");
+            if (encoded !== undefined) {
+              charset = declared || charset;
+              text = encoded;
+            }
+          }
+          bytes.push(Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1'));
+        } else {
+          bytes.push(Buffer.from(text, 'latin1'));
+        }
+      }
+      const joined = Buffer.concat(bytes);
+      params[name] = parts.some(p => p.extended)
+        ? this.decodeCharset(joined, charset)
+        : this.decodeHeader(joined.toString('latin1'));
+    }
+
+    return { value: value.trim().toLowerCase(), params };
+  }
+
+  /**
+   * Address lists: display names (quoted, encoded or in comments), angle-bracket addresses and groups
+   */
+  private parseAddressList(raw: string): EmailAddress[] {
+    const addresses: EmailAddress[] = [];
+    // Groups ("undisclosed-recipients: a@b, c@d;") - the group name isn't an address
+    const flattened = raw.replace(/^[^"<>@,]*:/, '').replace(/;\s*$/, '');
+
+    for (const entry of this.splitOutsideQuotes(flattened, ',')) {
+      const angle = entry.match(/<([^>]*)>/);
+      let address: string;
+      let name: string | undefined;
+      if (angle) {
+        address = angle[1];
+        name = entry.slice(0, angle.index).trim();
+      } else {
+        address = entry.replace(/\([^)]*\)/g, '');
+        name = entry.match(/\(([^)]*)\)/)?.[1];
+      }
+
+      address = address.trim().toLowerCase();
+      if (!address.includes('@')) continue;
+      name = name ? this.decodeHeader(name.replace(/^"|"$/g, '').replace(/\\(.)/g, '$1')).trim() : undefined;
+      addresses.push({ name: name || undefined, address });
+    }
+    return addresses;
+  }
+
+  private messageIds(value?: string): string[] {
+    return Array.from((value || '').matchAll(/<([^<>\s]+)>/g), match => match[1]);
+  }
+
+  /**
+   * RFC 3834 Auto-Submitted, plus the conventions autoresponders and bounces use without it
+   */
+  private autoSubmitted(headers: Record<string, string>, from: string): string | undefined {
+    const autoSubmitted = headers['auto-submitted']?.split(';')[0].trim().toLowerCase();
+    if (autoSubmitted && autoSubmitted !== 'no') return autoSubmitted;
+    if (headers['x-autoreply'] || headers['x-autorespond']) return 'auto-replied';
+    const precedence = headers['precedence']?.trim().toLowerCase();
+    if (precedence && ['bulk', 'junk', 'auto_reply'].includes(precedence)) return `precedence-${precedence}`;
+    if (/^(mailer-daemon|postmaster)@/i.test(from)) return 'delivery-status';
+    return undefined;
+  }
+
+  private splitOutsideQuotes(value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quoted = false;
+    let angle = 0;
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      if (char === '\\' && quoted) {
+        current += char + (value[++i] ?? '');
+        continue;
+      }
+      if (char === '"') quoted = !quoted;
+      else if (!quoted && char === '<') angle++;
+      else if (!quoted && char === '>') angle = Math.max(0, angle - 1);
+      if (char === separator && !quoted && angle === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(Boolean);
+  }
+}
+
+export const mimeParser = new MimeParser();
@@ -0,0 +1,371 @@
+export type ProviderKind = 'llm' | 'comprehend' | 'email';
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface ResiliencePolicy {
+  timeoutMs: number;
+  maxRetries: number;         // Retries after the first attempt, retryable errors only
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOnTimeout: boolean;    // False where a call that reached the provider may have taken effect (sending mail)
+  failureThreshold: number;   // Consecutive provider failures that open the breaker
+  cooldownMs: number;         // How long the breaker stays open before letting a probe through
+}
+
+export interface ProviderHealth {
+  provider: string;
+  kind: ProviderKind;
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  calls: number;
+  failures: number;
+  timeouts: number;
+  retries: number;
+  rejected: number;           // Calls refused while the breaker was open
+}
+
+export interface HealthReport {
+  status: 'ok' | 'degraded';
+  checkedAt: string;
+  providers: ProviderHealth[];
+}
+
+export const RESILIENCE_POLICIES: Record<ProviderKind, ResiliencePolicy> = {
+  llm: { timeoutMs: 60_000, maxRetries: 3, baseDelayMs: 1_000, maxDelayMs: 20_000, retryOnTimeout: true, failureThreshold: 5, cooldownMs: 30_000 },
+  comprehend: { timeoutMs: 5_000, maxRetries: 2, baseDelayMs: 250, maxDelayMs: 2_000, retryOnTimeout: true, failureThreshold: 5, cooldownMs: 30_000 },
+  email: { timeoutMs: 30_000, maxRetries: 2, baseDelayMs: 2_000, maxDelayMs: 15_000, retryOnTimeout: false, failureThreshold: 3, cooldownMs: 60_000 }
+};
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+const RETRYABLE_NAMES = new Set([
+  'APIConnectionError', 'APIConnectionTimeoutError', 'RateLimitError', 'InternalServerError',
+  'ThrottlingException', 'TooManyRequestsException', 'ServiceUnavailableException', 'InternalServerException', 'RequestTimeout', 'TimeoutError'
+]);
+// Failures where the request never reached the provider or was turned away unprocessed, so it
+// can be retried even where acting twice matters. Resets, 5xx and timeouts may follow a send.
+const UNDELIVERED_STATUS = new Set([425, 429]);
+const UNDELIVERED_CODES = new Set(['ECONNREFUSED', 'EAI_AGAIN', 'ENETUNREACH', 'UND_ERR_CONNECT_TIMEOUT']);
+const UNDELIVERED_NAMES = new Set(['RateLimitError', 'ThrottlingException', 'TooManyRequestsException']);
+
+/**
+ * The provider can't serve requests right now (breaker open or retries exhausted).
+ * Callers should defer the work until retryAt rather than fall back to a degraded answer.
+ */
+export class ProviderUnavailableError extends Error {
+  constructor(
+    readonly provider: string,
+    message: string,
+    readonly retryAt: Date,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+export class CircuitOpenError extends ProviderUnavailableError {
+  constructor(provider: string, retryAt: Date) {
+    super(provider, `${provider} circuit breaker is open until ${retryAt.toISOString()}`, retryAt);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * A call that isn't retried on timeout (sending mail) timed out or failed after reaching the
+ * provider, so it may still have taken effect. Deferring or retrying it could act twice -
+ * callers hand it to a human instead.
+ */
+export class ProviderOutcomeUnknownError extends Error {
+  constructor(
+    readonly provider: string,
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ProviderOutcomeUnknownError';
+  }
+}
+
+export class ProviderTimeoutError extends Error {
+  constructor(readonly provider: string, readonly timeoutMs: number) {
+    super(`${provider} did not respond within ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+interface Breaker {
+  kind: ProviderKind;
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  retryAt: number | null;
+  probeInFlight: boolean;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  calls: number;
+  failures: number;
+  timeouts: number;
+  retries: number;
+  rejected: number;
+}
+
+/**
+ * Provider Resilience
+ * Shared timeout, retry and circuit-breaker policy for calls to external providers
+ * (LLM, Comprehend, outbound mail). Breakers are per provider key so one tenant's broken
+ * mailbox or self-hosted model doesn't block everyone else.
+ */
+class ProviderResilienceService {
+  private breakers = new Map<string, Breaker>();
+
+  /**
+   * Run a provider call under its kind's policy. fn receives an AbortSignal that fires on timeout.
+   * Non-retryable errors (bad request, auth) are rethrown as-is and don't count against the breaker.
+   */
+  async execute<T>(provider: string, kind: ProviderKind, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const policy = RESILIENCE_POLICIES[kind];
+    const breaker = this.getBreaker(provider, kind);
+
+    for (let attempt = 0; ; attempt++) {
+      this.admit(provider, breaker);
+      breaker.calls++;
+
+      try {
+        const result = await this.withTimeout(provider, policy.timeoutMs, fn);
+        this.recordSuccess(breaker);
+        return result;
+      } catch (error) {
+        if (!this.isRetryable(error)) {
+          // The provider answered; the request itself was bad
+          breaker.probeInFlight = false;
+          throw error;
+        }
+
+        this.recordFailure(provider, breaker, policy, error);
+
+        if (!policy.retryOnTimeout && !this.isUndelivered(error)) {
+          throw new ProviderOutcomeUnknownError(
+            provider,
+            `${provider} failed and may have completed anyway: ${this.describe(error)}`,
+            error
+          );
+        }
+
+        if (attempt >= policy.maxRetries) {
+          const retryAt = new Date(breaker.retryAt ?? Date.now() + this.backoff(policy, attempt + 1));
+          throw new ProviderUnavailableError(
+            provider,
+            `${provider} unavailable after ${attempt + 1} attempt(s): ${this.describe(error)}`,
+            retryAt,
+            error
+          );
+        }
+
+        breaker.retries++;
+        const delay = this.retryAfter(error) ?? this.backoff(policy, attempt + 1);
+        console.warn(`[RESILIENCE] ${provider} attempt ${attempt + 1} failed (${this.describe(error)}), retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  isAvailable(provider: string): boolean {
+    const breaker = this.breakers.get(provider);
+    return !breaker || breaker.state !== 'open' || (breaker.retryAt !== null && Date.now() >= breaker.retryAt);
+  }
+
+  getHealth(): ProviderHealth[] {
+    const iso = (time: number | null) => time === null ? null : new Date(time).toISOString();
+    return Array.from(this.breakers.entries()).map(([provider, b]) => ({
+      provider,
+      kind: b.kind,
+      state: b.state,
+      consecutiveFailures: b.consecutiveFailures,
+      openedAt: iso(b.openedAt),
+      retryAt: iso(b.retryAt),
+      lastError: b.lastError,
+      lastFailureAt: iso(b.lastFailureAt),
+      lastSuccessAt: iso(b.lastSuccessAt),
+      calls: b.calls,
+      failures: b.failures,
+      timeouts: b.timeouts,
+      retries: b.retries,
+      rejected: b.rejected
+    }));
+  }
+
+  /**
+   * Payload for the health endpoint: degraded while any breaker is not closed
+   */
+  getHealthReport(): HealthReport {
+    const providers = this.getHealth();
+    return {
+      status: providers.some(p => p.state !== 'closed') ? 'degraded' : 'ok',
+      checkedAt: new Date().toISOString(),
+      providers
+    };
+  }
+
+  /**
+   * Forget breaker state (tests, or after fixing a tenant's credentials)
+   */
+  reset(provider?: string): void {
+    if (provider) {
+      this.breakers.delete(provider);
+    } else {
+      this.breakers.clear();
+    }
+  }
+
+  isRetryable(error: any): boolean {
+    if (!error) return false;
+    if (error instanceof ProviderTimeoutError) return true;
+
+    const status = error.status ?? error.statusCode ?? error.$metadata?.httpStatusCode;
+    if (typeof status === 'number') {
+      return RETRYABLE_STATUS.has(status);
+    }
+    return RETRYABLE_CODES.has(error.code) || RETRYABLE_CODES.has(error.cause?.code) || RETRYABLE_NAMES.has(error.name);
+  }
+
+  /**
+   * The request provably never took effect (refused connection, DNS failure, rate limit)
+   */
+  private isUndelivered(error: any): boolean {
+    const status = error.status ?? error.statusCode ?? error.$metadata?.httpStatusCode;
+    if (typeof status === 'number') {
+      return UNDELIVERED_STATUS.has(status);
+    }
+    return UNDELIVERED_CODES.has(error.code) || UNDELIVERED_CODES.has(error.cause?.code) || UNDELIVERED_NAMES.has(error.name);
+  }
+
+  private admit(provider: string, breaker: Breaker): void {
+    if (breaker.state === 'closed') return;
+
+    const now = Date.now();
+    if (breaker.state === 'open' && breaker.retryAt !== null && now >= breaker.retryAt) {
+      breaker.state = 'half_open';
+      console.log(`[RESILIENCE] ${provider} breaker half-open, sending a probe`);
+    }
+
+    // Half-open lets exactly one probe through; everyone else waits for its verdict
+    if (breaker.state === 'half_open' && !breaker.probeInFlight) {
+      breaker.probeInFlight = true;
+      return;
+    }
+
+    breaker.rejected++;
+    throw new CircuitOpenError(provider, new Date(breaker.retryAt ?? now + RESILIENCE_POLICIES[breaker.kind].cooldownMs));
+  }
+
+  private recordSuccess(breaker: Breaker): void {
+    breaker.state = 'closed';
+    breaker.consecutiveFailures = 0;
+    breaker.openedAt = null;
+    breaker.retryAt = null;
+    breaker.probeInFlight = false;
+    breaker.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(provider: string, breaker: Breaker, policy: ResiliencePolicy, error: unknown): void {
+    const now = Date.now();
+    breaker.failures++;
+    breaker.consecutiveFailures++;
+    breaker.lastError = this.describe(error);
+    breaker.lastFailureAt = now;
+    if (error instanceof ProviderTimeoutError) breaker.timeouts++;
+
+    const probeFailed = breaker.state === 'half_open';
+    breaker.probeInFlight = false;
+    if (probeFailed || breaker.consecutiveFailures >= policy.failureThreshold) {
+      breaker.state = 'open';
+      breaker.openedAt = now;
+      breaker.retryAt = now + policy.cooldownMs;
+      console.error(`[RESILIENCE] ${provider} breaker OPEN for ${policy.cooldownMs / 1000}s after ${breaker.consecutiveFailures} consecutive failures: ${breaker.lastError}`);
+    }
+  }
+
+  private async withTimeout<T>(provider: string, timeoutMs: number, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new ProviderTimeoutError(provider, timeoutMs));
+      }, timeoutMs);
+    });
+
+    try {
+      // Race as well as abort - not every client honours the signal
+      return await Promise.race([fn(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter
+   */
+  private backoff(policy: ResiliencePolicy, attempt: number): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Honour a provider's Retry-After header (seconds or HTTP date), capped at a minute
+   */
+  private retryAfter(error: any): number | undefined {
+    const headers = error?.headers;
+    const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : new Date(value).getTime() - Date.now();
+    return Number.isFinite(delay) && delay >= 0 ? Math.min(delay, 60_000) : undefined;
+  }
+
+  private getBreaker(provider: string, kind: ProviderKind): Breaker {
+    let breaker = this.breakers.get(provider);
+    if (!breaker) {
+      breaker = {
+        kind,
+        state: 'closed',
+        consecutiveFailures: 0,
+        openedAt: null,
+        retryAt: null,
+        probeInFlight: false,
+        lastError: null,
+        lastFailureAt: null,
+        lastSuccessAt: null,
+        calls: 0,
+        failures: 0,
+        timeouts: 0,
+        retries: 0,
+        rejected: 0
+      };
+      this.breakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function isProviderUnavailable(error: unknown): error is ProviderUnavailableError {
+  return error instanceof ProviderUnavailableError;
+}
+
+export function isOutcomeUnknown(error: unknown): error is ProviderOutcomeUnknownError {
+  return error instanceof ProviderOutcomeUnknownError;
+}
+
+export const providerResilience = new ProviderResilienceService();
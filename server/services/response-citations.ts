@@ -0,0 +1,96 @@
+import type { RetrievedChunk } from "./hallucination-prevention";
+
+/**
+ * One claim in a generated reply and the knowledge chunk that backs it
+ */
+export interface Citation {
+  marker: number;           // Source number the model cited ([n] in the raw draft)
+  chunkId?: string;
+  url: string;
+  headingPath?: string[];
+  claim: string;            // Sentence the citation supports, as sent to the customer
+}
+
+const MARKER_PATTERN = /\s*\[(\d+(?:\s*,\s*\d+)*)\]/g;
+// A marker plus any spaces it leaves before punctuation ("30 days [2] ." would become "30 days .")
+const STRIPPABLE_MARKER_PATTERN = /\s*\[(\d+(?:\s*,\s*\d+)*)\](?:[ \t]+(?=[.,!?;:]))?/g;
+
+/**
+ * Prompt instruction shared by every generator that receives numbered knowledge sources
+ */
+export const CITATION_INSTRUCTIONS = `CITATIONS:
+- After each sentence that uses company knowledge, add the source number(s) in square brackets, e.g. "Returns are accepted within 30 days [2]."
+- Cite only the numbered sources you were given; never invent source numbers
+- Sentences that do not rely on the sources (greetings, empathy) get no citation`;
+
+/**
+ * Response Citation Service
+ * Maps the [n] source markers generators emit to the knowledge chunks behind each claim
+ */
+class ResponseCitationService {
+
+  /**
+   * Strip [n] markers from a draft and map each cited sentence to its chunk.
+   * Brackets that don't point at a provided source (e.g. "order [12345]") are left in the text.
+   */
+  extractCitations(
+    text: string,
+    chunks: RetrievedChunk[]
+  ): { text: string; citations: Citation[] } {
+    if (!text) {
+      return { text, citations: [] };
+    }
+
+    const citations: Citation[] = [];
+    const sentences = text.match(/[^.!?\n]+(?:[.!?]+|\n|$)(?:\s*\[\d+(?:\s*,\s*\d+)*\])*/g) || [text];
+
+    for (const sentence of sentences) {
+      const markers = Array.from(sentence.matchAll(MARKER_PATTERN))
+        .flatMap(m => m[1].split(',').map(n => Number(n.trim())));
+
+      if (markers.length === 0) continue;
+
+      const claim = this.cleanMarkers(sentence, chunks.length).trim();
+      for (const marker of Array.from(new Set(markers))) {
+        const chunk = chunks[marker - 1];
+        if (!chunk) continue;
+
+        citations.push({
+          marker,
+          chunkId: chunk.chunkId,
+          url: chunk.url,
+          headingPath: chunk.headingPath,
+          claim
+        });
+      }
+    }
+
+    return { text: this.cleanMarkers(text, chunks.length), citations };
+  }
+
+  /**
+   * Unique cited sources, for compact activity log entries
+   */
+  summarizeCitations(citations: Citation[]): Array<{ chunkId?: string; url: string; claims: number }> {
+    const summary = new Map<string, { chunkId?: string; url: string; claims: number }>();
+    for (const citation of citations) {
+      const key = citation.chunkId || citation.url;
+      const entry = summary.get(key) || { chunkId: citation.chunkId, url: citation.url, claims: 0 };
+      entry.claims++;
+      summary.set(key, entry);
+    }
+    return Array.from(summary.values());
+  }
+
+  /**
+   * Remove markers that cite a provided source; the rest of the draft is left as written
+   */
+  private cleanMarkers(text: string, sourceCount: number): string {
+    return text.replace(STRIPPABLE_MARKER_PATTERN, (marker, numbers: string) => {
+      const cited = numbers.split(',').every(n => Number(n) >= 1 && Number(n) <= sourceCount);
+      return cited ? '' : marker;
+    });
+  }
+}
+
+export const responseCitationService = new ResponseCitationService();
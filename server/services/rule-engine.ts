@@ -0,0 +1,433 @@
+import { z } from "zod";
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be HH:MM (24h)');
+
+/**
+ * Conditions a rule can require, evaluated in the order they are listed
+ */
+export const ruleConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('sender'),
+    domains: z.array(z.string()).optional(),           // example.com also matches mail.example.com
+    pattern: z.string().optional(),                    // Regex against the full sender address
+    negate: z.boolean().optional()
+  }),
+  z.object({
+    type: z.literal('keywords'),
+    any: z.array(z.string()).optional(),
+    all: z.array(z.string()).optional(),
+    none: z.array(z.string()).optional()
+  }),
+  z.object({
+    type: z.literal('priority'),
+    in: z.array(z.enum(['low', 'medium', 'high', 'urgent'])).min(1)
+  }),
+  z.object({
+    type: z.literal('sentiment'),
+    bands: z.array(z.enum(['positive', 'neutral', 'mixed', 'negative', 'very_negative'])).min(1)
+  }),
+  z.object({
+    type: z.literal('confidence'),
+    min: z.number().min(0).max(100).optional(),
+    max: z.number().min(0).max(100).optional()
+  }),
+  z.object({
+    type: z.literal('order_value'),
+    min: z.number().min(0).optional(),
+    max: z.number().min(0).optional()
+  }),
+  z.object({
+    type: z.literal('customer_tier'),
+    in: z.array(z.string()).min(1)                     // e.g. ["new"], ["repeat", "vip"]
+  }),
+  z.object({
+    type: z.literal('time_of_day'),
+    start: timeSchema,
+    end: timeSchema,                                   // May wrap past midnight (22:00-06:00)
+    days: z.array(z.number().int().min(0).max(6)).optional(), // 0 = Sunday
+    timezone: z.string().optional()
+  })
+]);
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type SentimentBand = 'positive' | 'neutral' | 'mixed' | 'negative' | 'very_negative';
+
+/**
+ * What a rule is evaluated against. Order value and customer tier need lookups, so they
+ * are loaded lazily - only when a candidate rule has that condition.
+ */
+export interface RuleEvaluationContext {
+  classification: string;
+  confidence: number;
+  priority?: 'low' | 'medium' | 'high' | 'urgent';
+  fromEmail?: string;
+  subject?: string;
+  body?: string;
+  sentiment?: { sentiment: string; scores?: { negative?: number } };
+  timezone?: string;                                   // Tenant default for time_of_day conditions
+  now?: Date;
+  loadOrderValue?: () => Promise<number | undefined>;
+  loadCustomerTier?: () => Promise<string | undefined>;
+}
+
+export interface ConditionResult {
+  type: RuleCondition['type'] | 'classification';
+  passed: boolean;
+  detail: string;
+}
+
+export interface RuleTrace {
+  ruleId: string;
+  ruleName: string;
+  precedence: number;
+  matched: boolean;
+  stopProcessing?: boolean;
+  skippedReason?: string;
+  conditions: ConditionResult[];
+}
+
+export interface RuleMatchResult {
+  rule: any | null;                 // Rule to apply (first match by precedence)
+  stopProcessing: boolean;          // The rule applied has stopProcessing - no further rules apply to the email
+  usedGeneralFallback: boolean;
+  trace: RuleTrace[];
+  explanation: string;
+}
+
+const DEFAULT_PRECEDENCE = 100;
+const GENERAL_FALLBACK_MAX_CONFIDENCE = 70;
+const VERY_NEGATIVE_SCORE = 75;
+
+/**
+ * Rule Engine
+ * Picks the auto-responder rule for a classified email. Rules are evaluated by precedence
+ * (lower number first); each rule's conditions are checked in order and the first failure
+ * skips the rule. The first matching rule is the one applied, so evaluation ends there.
+ * A rule with stopProcessing is the last rule applied to the email: when it matches, an
+ * email with several requests gets no rules for the requests after it.
+ * Every decision is recorded in a trace so routing can be debugged.
+ */
+class RuleEngine {
+
+  async evaluate(rules: any[], context: RuleEvaluationContext): Promise<RuleMatchResult> {
+    const loaded = this.memoizeLoaders(context);
+    const ordered = rules
+      .map((rule, index) => ({ rule, index }))
+      .sort((a, b) => this.precedence(a.rule) - this.precedence(b.rule) || a.index - b.index)
+      .map(({ rule }) => rule);
+
+    const trace: RuleTrace[] = [];
+    let rule: any = null;
+
+    for (const candidate of ordered) {
+      if (rule) {
+        trace.push(this.skipped(candidate, `Not evaluated - "${rule.name}" ${rule.stopProcessing ? 'stops processing' : 'already matched'}`));
+        continue;
+      }
+
+      const result = await this.evaluateRule(candidate, context.classification, loaded);
+      trace.push(result);
+
+      if (result.matched) {
+        rule = candidate;
+      }
+    }
+
+    // Low-confidence classifications may use a general rule when nothing specific matched
+    let usedGeneralFallback = false;
+    if (!rule && context.classification !== 'general' && context.confidence < GENERAL_FALLBACK_MAX_CONFIDENCE) {
+      for (const candidate of ordered.filter(r => r.classification === 'general')) {
+        const result = await this.evaluateRule(candidate, 'general', loaded);
+        result.conditions.unshift({
+          type: 'classification',
+          passed: true,
+          detail: `general fallback (confidence ${context.confidence}% < ${GENERAL_FALLBACK_MAX_CONFIDENCE}%)`
+        });
+        trace.push(result);
+
+        if (result.matched) {
+          rule = candidate;
+          usedGeneralFallback = true;
+          break;
+        }
+      }
+    }
+
+    return {
+      rule,
+      stopProcessing: !!rule?.stopProcessing,
+      usedGeneralFallback,
+      trace,
+      explanation: this.explain(rule, trace)
+    };
+  }
+
+  /**
+   * Result for a request that was never evaluated because an earlier rule stopped processing
+   */
+  stoppedBy(rule: any): RuleMatchResult {
+    return {
+      rule: null,
+      stopProcessing: false,
+      usedGeneralFallback: false,
+      trace: [],
+      explanation: `Not evaluated - "${rule.name}" stops processing`
+    };
+  }
+
+  /**
+   * Validate a rule's conditions before saving it
+   */
+  validateConditions(conditions: unknown): { valid: boolean; errors: string[] } {
+    const result = z.array(ruleConditionSchema).safeParse(conditions ?? []);
+    return result.success
+      ? { valid: true, errors: [] }
+      : { valid: false, errors: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`) };
+  }
+
+  private async evaluateRule(rule: any, classification: string, context: RuleEvaluationContext): Promise<RuleTrace> {
+    if (!rule.isActive) {
+      return this.skipped(rule, 'Rule is inactive');
+    }
+    if (rule.classification !== classification) {
+      return this.skipped(rule, `Classification ${classification} does not match rule classification ${rule.classification}`);
+    }
+
+    const conditions: ConditionResult[] = [];
+    const parsed = z.array(ruleConditionSchema).safeParse(rule.conditions ?? []);
+    if (!parsed.success) {
+      return this.skipped(rule, `Invalid conditions: ${parsed.error.issues[0]?.message}`);
+    }
+
+    for (const condition of parsed.data) {
+      const result = await this.evaluateCondition(condition, context);
+      conditions.push(result);
+      if (!result.passed) {
+        return {
+          ...this.skipped(rule, `${condition.type} condition failed: ${result.detail}`),
+          conditions
+        };
+      }
+    }
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      precedence: this.precedence(rule),
+      matched: true,
+      stopProcessing: !!rule.stopProcessing,
+      conditions
+    };
+  }
+
+  private async evaluateCondition(condition: RuleCondition, context: RuleEvaluationContext): Promise<ConditionResult> {
+    switch (condition.type) {
+      case 'sender': {
+        const sender = (context.fromEmail || '').toLowerCase();
+        const domain = sender.split('@')[1] || '';
+        const domainMatch = !condition.domains || condition.domains.some(d => {
+          const wanted = d.toLowerCase().replace(/^@/, '');
+          return domain === wanted || domain.endsWith(`.${wanted}`);
+        });
+        let patternMatch = true;
+        if (condition.pattern) {
+          try {
+            patternMatch = new RegExp(condition.pattern, 'i').test(sender);
+          } catch {
+            return { type: 'sender', passed: false, detail: `invalid pattern ${condition.pattern}` };
+          }
+        }
+        const matched = domainMatch && patternMatch;
+        const passed = condition.negate ? !matched : matched;
+        return { type: 'sender', passed, detail: `${sender || 'unknown sender'} ${matched ? 'matches' : 'does not match'}${condition.negate ? ' (negated)' : ''}` };
+      }
+
+      case 'keywords': {
+        const text = `${context.subject || ''}\n${context.body || ''}`.toLowerCase();
+        const has = (k: string) => text.includes(k.toLowerCase());
+        const foundAny = condition.any ? condition.any.filter(has) : [];
+        const missingAll = condition.all ? condition.all.filter(k => !has(k)) : [];
+        const foundNone = condition.none ? condition.none.filter(has) : [];
+
+        if (condition.any && foundAny.length === 0) {
+          return { type: 'keywords', passed: false, detail: `none of ${condition.any.join(', ')} found` };
+        }
+        if (missingAll.length > 0) {
+          return { type: 'keywords', passed: false, detail: `missing ${missingAll.join(', ')}` };
+        }
+        if (foundNone.length > 0) {
+          return { type: 'keywords', passed: false, detail: `excluded keyword ${foundNone.join(', ')} found` };
+        }
+        return { type: 'keywords', passed: true, detail: foundAny.length > 0 ? `found ${foundAny.join(', ')}` : 'keyword requirements met' };
+      }
+
+      case 'priority': {
+        const priority = context.priority || 'medium';
+        return { type: 'priority', passed: condition.in.includes(priority), detail: `priority ${priority}` };
+      }
+
+      case 'sentiment': {
+        const bands = this.sentimentBands(context);
+        if (bands.length === 0) {
+          return { type: 'sentiment', passed: false, detail: 'sentiment unavailable' };
+        }
+        return {
+          type: 'sentiment',
+          passed: bands.some(b => condition.bands.includes(b)),
+          detail: `sentiment ${bands[bands.length - 1]}`
+        };
+      }
+
+      case 'confidence':
+        return {
+          type: 'confidence',
+          passed: this.inRange(context.confidence, condition.min, condition.max),
+          detail: `confidence ${context.confidence}% ${this.describeRange(condition.min, condition.max, '%')}`
+        };
+
+      case 'order_value': {
+        const value = await context.loadOrderValue?.();
+        if (value === undefined) {
+          return { type: 'order_value', passed: false, detail: 'order value unknown' };
+        }
+        return {
+          type: 'order_value',
+          passed: this.inRange(value, condition.min, condition.max),
+          detail: `order value ${value} ${this.describeRange(condition.min, condition.max)}`
+        };
+      }
+
+      case 'customer_tier': {
+        const tier = await context.loadCustomerTier?.();
+        if (!tier) {
+          return { type: 'customer_tier', passed: false, detail: 'customer tier unknown' };
+        }
+        return { type: 'customer_tier', passed: condition.in.includes(tier), detail: `customer tier ${tier}` };
+      }
+
+      case 'time_of_day': {
+        const timezone = condition.timezone || context.timezone || 'UTC';
+        const { minutes, day, label } = this.localTime(context.now || new Date(), timezone);
+        const start = this.toMinutes(condition.start);
+        const end = this.toMinutes(condition.end);
+        const inWindow = start <= end
+          ? minutes >= start && minutes < end
+          : minutes >= start || minutes < end;
+        const dayOk = !condition.days || condition.days.includes(day);
+        return {
+          type: 'time_of_day',
+          passed: inWindow && dayOk,
+          detail: `${label} ${timezone} ${inWindow && dayOk ? 'inside' : 'outside'} ${condition.start}-${condition.end}`
+        };
+      }
+    }
+  }
+
+  private sentimentBands(context: RuleEvaluationContext): SentimentBand[] {
+    const sentiment = context.sentiment?.sentiment?.toUpperCase();
+    switch (sentiment) {
+      case 'POSITIVE': return ['positive'];
+      case 'NEUTRAL': return ['neutral'];
+      case 'MIXED': return ['mixed'];
+      case 'NEGATIVE':
+        return (context.sentiment?.scores?.negative || 0) > VERY_NEGATIVE_SCORE
+          ? ['negative', 'very_negative']
+          : ['negative'];
+      default: return [];
+    }
+  }
+
+  private localTime(now: Date, timezone: string): { minutes: number; day: number; label: string } {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hour: '2-digit',
+        minute: '2-digit',
+        weekday: 'short',
+        hourCycle: 'h23'
+      }).formatToParts(now);
+    } catch {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: 'UTC', hour: '2-digit', minute: '2-digit', weekday: 'short', hourCycle: 'h23'
+      }).formatToParts(now);
+    }
+
+    const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+    const hour = Number(get('hour')) % 24;
+    const minute = Number(get('minute'));
+    const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'));
+    return {
+      minutes: hour * 60 + minute,
+      day,
+      label: `${get('weekday')} ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+    };
+  }
+
+  private memoizeLoaders(context: RuleEvaluationContext): RuleEvaluationContext {
+    const memo = <T>(load?: () => Promise<T>) => {
+      if (!load) return undefined;
+      let pending: Promise<T> | null = null;
+      return () => {
+        if (!pending) {
+          pending = load().catch(error => {
+            console.warn('[RULE_ENGINE] Context lookup failed:', error instanceof Error ? error.message : String(error));
+            return undefined as T;
+          });
+        }
+        return pending;
+      };
+    };
+
+    return {
+      ...context,
+      loadOrderValue: memo(context.loadOrderValue),
+      loadCustomerTier: memo(context.loadCustomerTier)
+    };
+  }
+
+  private explain(rule: any | null, trace: RuleTrace[]): string {
+    const lines = trace.map(t => {
+      if (t.matched) {
+        const why = t.conditions.map(c => c.detail).join('; ') || 'no conditions';
+        return `MATCH "${t.ruleName}" (precedence ${t.precedence}${t.stopProcessing ? ', stops processing' : ''}): ${why}`;
+      }
+      return `SKIP  "${t.ruleName}" (precedence ${t.precedence}): ${t.skippedReason}`;
+    });
+    lines.unshift(rule ? `Selected rule "${rule.name}"` : 'No rule matched');
+    return lines.join('\n');
+  }
+
+  private skipped(rule: any, reason: string): RuleTrace {
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      precedence: this.precedence(rule),
+      matched: false,
+      skippedReason: reason,
+      conditions: []
+    };
+  }
+
+  private precedence(rule: any): number {
+    return typeof rule.precedence === 'number' ? rule.precedence : DEFAULT_PRECEDENCE;
+  }
+
+  private inRange(value: number, min?: number, max?: number): boolean {
+    return (min === undefined || value >= min) && (max === undefined || value <= max);
+  }
+
+  private describeRange(min?: number, max?: number, unit: string = ''): string {
+    if (min !== undefined && max !== undefined) return `(range ${min}${unit}-${max}${unit})`;
+    if (min !== undefined) return `(min ${min}${unit})`;
+    if (max !== undefined) return `(max ${max}${unit})`;
+    return '';
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
+
+export const ruleEngine = new RuleEngine();
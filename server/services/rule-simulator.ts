@@ -0,0 +1,217 @@
+import { storage } from "../storage";
+import { autoResponderService, type ClassificationResult, type RoutePreview } from "./auto-responder";
+
+export type EmailOutcome = 'auto_responded' | 'awaiting_approval' | 'escalated' | 'unprocessed';
+
+export interface RuleSimulationOptions {
+  rule: any;                  // Candidate rule - may be unsaved; with an id it replaces the stored rule
+  since?: Date;
+  until?: Date;
+  limit?: number;             // Most recent emails to replay (default 200)
+  reclassify?: boolean;       // Re-run classification instead of reusing the stored label
+  sampleDrafts?: number;      // Drafts to generate for caught emails (default 5)
+}
+
+export interface SimulatedEmail {
+  emailId: string;
+  subject: string;
+  fromEmail: string;
+  classification: string;
+  confidence: number;
+  actual: { outcome: EmailOutcome; ruleId?: string };
+  simulated: { outcome: EmailOutcome; ruleId?: string; ruleName?: string; reason: string };
+  caughtByRule: boolean;
+}
+
+export interface RuleSimulationReport {
+  ruleId?: string;
+  ruleName: string;
+  emailsEvaluated: number;
+  matchCount: number;                               // Emails the candidate rule would have handled
+  matchesByClassification: Record<string, number>;
+  outcomes: {
+    actual: Record<EmailOutcome, number>;
+    simulated: Record<EmailOutcome, number>;
+  };
+  sampleDrafts: Array<{
+    emailId: string;
+    subject: string;
+    fromEmail: string;
+    draft: string;
+    confidence: number;
+    factCheck?: string;
+    actionLint?: string;
+    citations: number;
+  }>;
+  changedOutcomes: SimulatedEmail[];
+  errors: Array<{ emailId: string; error: string }>;
+}
+
+const CANDIDATE_ID = '__candidate__';
+
+/**
+ * Rule Simulator
+ * Replays stored emails through classification, rule matching and draft generation with a
+ * candidate rule in place, without sending anything or writing approval items.
+ */
+class RuleSimulator {
+
+  async simulate(userId: string, options: RuleSimulationOptions): Promise<RuleSimulationReport> {
+    const candidate = { ...options.rule, id: options.rule.id || CANDIDATE_ID, isActive: true };
+    const storedRules = await storage.getAutoResponderRules(userId);
+    const rules = [...storedRules.filter((r: any) => r.id !== candidate.id), candidate];
+
+    const emails = await this.loadEmails(userId, options);
+    const sampleLimit = options.sampleDrafts ?? 5;
+
+    const report: RuleSimulationReport = {
+      ruleId: options.rule.id,
+      ruleName: candidate.name || 'Candidate rule',
+      emailsEvaluated: 0,
+      matchCount: 0,
+      matchesByClassification: {},
+      outcomes: { actual: this.emptyOutcomes(), simulated: this.emptyOutcomes() },
+      sampleDrafts: [],
+      changedOutcomes: [],
+      errors: []
+    };
+
+    console.log(`[RULE_SIMULATOR] Replaying ${emails.length} emails against "${report.ruleName}"`);
+
+    for (const email of emails) {
+      try {
+        const { result, preview } = await this.simulateEmail(userId, email, rules, candidate.id, options.reclassify);
+        report.emailsEvaluated++;
+        report.outcomes.actual[result.actual.outcome]++;
+        report.outcomes.simulated[result.simulated.outcome]++;
+
+        if (result.caughtByRule) {
+          report.matchCount++;
+          report.matchesByClassification[result.classification] = (report.matchesByClassification[result.classification] || 0) + 1;
+
+          if (report.sampleDrafts.length < sampleLimit) {
+            // A multi-intent email gets one reply covering every request, as it would in the pipeline
+            const proposed = await autoResponderService.generateProposedResponse(
+              preview.steps ? preview.rule : candidate,
+              { subject: email.subject, body: email.body, fromEmail: email.fromEmail },
+              userId,
+              undefined,
+              { dryRun: true, steps: preview.steps }
+            );
+            report.sampleDrafts.push({
+              emailId: email.id,
+              subject: email.subject,
+              fromEmail: email.fromEmail,
+              draft: proposed.response,
+              confidence: proposed.adjustedConfidence,
+              factCheck: proposed.factCheck?.verdict,
+              actionLint: proposed.actionLint?.verdict,
+              citations: proposed.citations.length
+            });
+          }
+        }
+
+        if (this.outcomeChanged(result)) {
+          report.changedOutcomes.push(result);
+        }
+      } catch (error) {
+        report.errors.push({ emailId: email.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    console.log(`[RULE_SIMULATOR] "${report.ruleName}" would catch ${report.matchCount}/${report.emailsEvaluated} emails, ${report.changedOutcomes.length} outcomes change`);
+    return report;
+  }
+
+  /**
+   * Route one stored email the way processIncomingEmail would, minus every side effect
+   */
+  private async simulateEmail(
+    userId: string,
+    email: any,
+    rules: any[],
+    candidateId: string,
+    reclassify?: boolean
+  ): Promise<{ result: SimulatedEmail; preview: RoutePreview }> {
+    const classification = await this.getClassification(userId, email, reclassify);
+
+    const { sentimentAnalysisService } = await import('./sentiment-analysis');
+    const sentiment = await sentimentAnalysisService.analyzeSentiment(email.body).catch(() => null);
+
+    const base = {
+      emailId: email.id,
+      subject: email.subject,
+      fromEmail: email.fromEmail,
+      classification: classification.classification,
+      confidence: classification.confidence,
+      actual: this.actualOutcome(email)
+    };
+
+    const emailData = {
+      fromEmail: email.fromEmail,
+      toEmail: email.toEmail,
+      subject: email.subject,
+      body: email.body,
+      autoSubmitted: email.metadata?.autoSubmitted
+    };
+    const preview = await autoResponderService.previewRoute(userId, emailData, classification, sentiment || undefined, rules);
+    const outcome: EmailOutcome = preview.route === 'escalate' ? 'escalated'
+      : preview.route === 'approval' ? 'awaiting_approval'
+      : 'auto_responded';
+
+    const result: SimulatedEmail = {
+      ...base,
+      simulated: {
+        outcome,
+        ruleId: outcome === 'escalated' ? undefined : preview.rule?.id,
+        ruleName: outcome === 'escalated' ? undefined : preview.rule?.name,
+        reason: preview.reason
+      },
+      caughtByRule: preview.matches.some(m => m.rule?.id === candidateId)
+    };
+    return { result, preview };
+  }
+
+  private async getClassification(userId: string, email: any, reclassify?: boolean): Promise<ClassificationResult> {
+    if (!reclassify && email.classification && typeof email.confidence === 'number') {
+      return {
+        classification: email.classification,
+        confidence: email.confidence,
+        reasoning: email.metadata?.classificationReasoning || 'Stored classification',
+        intents: email.metadata?.intents
+      };
+    }
+    return autoResponderService.classifyEmail(email.body, email.subject, userId);
+  }
+
+  private actualOutcome(email: any): { outcome: EmailOutcome; ruleId?: string } {
+    const ruleId = email.metadata?.ruleId;
+    if (email.status === 'escalated') return { outcome: 'escalated', ruleId };
+    if (email.status === 'awaiting_approval' || email.metadata?.awaitingApproval) return { outcome: 'awaiting_approval', ruleId };
+    if (email.status === 'resolved' && email.isResponded) return { outcome: 'auto_responded', ruleId };
+    return { outcome: 'unprocessed', ruleId };
+  }
+
+  private outcomeChanged(result: SimulatedEmail): boolean {
+    if (result.actual.outcome !== result.simulated.outcome) return true;
+    // Same outcome via a different rule still changes what the customer would get
+    return !!result.actual.ruleId && !!result.simulated.ruleId && result.actual.ruleId !== result.simulated.ruleId;
+  }
+
+  private async loadEmails(userId: string, options: RuleSimulationOptions): Promise<any[]> {
+    const emails: any[] = await storage.getEmails(userId);
+    return emails
+      .filter(e => {
+        const received = new Date(e.createdAt || e.metadata?.receivedAt || 0);
+        return (!options.since || received >= options.since) && (!options.until || received <= options.until);
+      })
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime())
+      .slice(0, options.limit ?? 200);
+  }
+
+  private emptyOutcomes(): Record<EmailOutcome, number> {
+    return { auto_responded: 0, awaiting_approval: 0, escalated: 0, unprocessed: 0 };
+  }
+}
+
+export const ruleSimulator = new RuleSimulator();
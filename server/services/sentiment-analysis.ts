@@ -1,4 +1,5 @@
 import { ComprehendClient, DetectSentimentCommand, DetectSentimentCommandInput } from "@aws-sdk/client-comprehend";
+import { providerResilience } from "./provider-resilience";
 
 export interface SentimentResult {
   sentiment: 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL' | 'MIXED';
@@ -19,8 +20,11 @@ export interface GuardRailResult {
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
 }
 
+export type SentimentAnalyzer = (text: string) => Promise<SentimentResult>;
+
 export class SentimentAnalysisService {
   private comprehendClient: ComprehendClient;
+  private override: SentimentAnalyzer | null = null;
 
   constructor() {
     // Initialize AWS Comprehend client with credentials from environment
@@ -37,6 +41,10 @@ export class SentimentAnalysisService {
    * Analyze sentiment using Amazon Comprehend
    */
   async analyzeSentiment(text: string, languageCode: 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'ar' | 'hi' | 'ja' | 'ko' | 'zh' | 'zh-TW' = 'en'): Promise<SentimentResult> {
+    if (this.override) {
+      return this.override(text);
+    }
+
     try {
       // Validate input
       if (!text || text.trim().length === 0) {
@@ -52,7 +60,10 @@ export class SentimentAnalysisService {
       };
 
       const command = new DetectSentimentCommand(input);
-      const response = await this.comprehendClient.send(command);
+      // An open breaker lands in the keyword fallback below instead of waiting on Comprehend
+      const response = await providerResilience.execute('comprehend', 'comprehend', abortSignal =>
+        this.comprehendClient.send(command, { abortSignal })
+      );
 
       if (!response.Sentiment || !response.SentimentScore) {
         throw new Error('Invalid response from Amazon Comprehend');
@@ -87,6 +98,13 @@ export class SentimentAnalysisService {
     }
   }
 
+  /**
+   * Bypass Comprehend (CI, offline replay). Pass null to restore.
+   */
+  setOverride(analyzer: SentimentAnalyzer | null): void {
+    this.override = analyzer;
+  }
+
   /**
    * Apply guard rails based on sentiment analysis
    */
@@ -156,7 +174,7 @@ export class SentimentAnalysisService {
   /**
    * Fallback sentiment analysis when AWS is unavailable
    */
-  private getFallbackSentiment(text: string): SentimentResult {
+  getFallbackSentiment(text: string): SentimentResult {
     // Simple keyword-based fallback
     const positiveKeywords = ['good', 'great', 'excellent', 'happy', 'satisfied', 'love', 'awesome', 'perfect', 'wonderful', 'amazing'];
     const negativeKeywords = ['bad', 'terrible', 'awful', 'hate', 'disappointed', 'frustrated', 'angry', 'horrible', 'worst', 'broken'];
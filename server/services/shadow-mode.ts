@@ -0,0 +1,331 @@
+import { storage } from "../storage";
+import { autoResponderService, type AutomationRoute, type ClassificationResult, type IncomingEmail, type ProcessedEmail } from "./auto-responder";
+import { draftActionLinter } from "./draft-action-linter";
+import type { EmailAnalysisContext } from "./email-analysis-context";
+
+/**
+ * What the automation would have done with an email, stored as metadata.shadowDecision
+ */
+export interface ShadowDecision {
+  route: AutomationRoute;
+  reason: string;
+  classification: string;
+  confidence: number;
+  intents: string[];
+  ruleId?: string;
+  ruleName?: string;
+  draft?: string;                 // Exact text that would have been sent or queued
+  factCheck?: string;
+  actionLint?: string;
+  citations: number;
+  decidedAt: string;
+}
+
+/**
+ * What the human agent did with a shadowed email
+ */
+export type HumanOutcome =
+  | 'sent_as_drafted'             // Sent the shadow draft unchanged
+  | 'edited'                      // Replied with their own text or an edited draft
+  | 'escalated';                  // Passed the email on instead of answering it
+
+/**
+ * How the shadow decision compared to what the human agent did, stored as metadata.shadowComparison
+ */
+export interface ShadowComparison {
+  humanOutcome: HumanOutcome;
+  humanRoute: AutomationRoute;
+  routeMatched: boolean;
+  draftSimilarity?: number;       // 0-1 word overlap between shadow draft and human reply
+  comparedAt: string;
+}
+
+export interface ShadowIntentStats {
+  intent: string;
+  shadowed: number;
+  compared: number;
+  routeMatches: number;
+  routeAgreement: number;         // % of compared emails where the route matched
+  averageSimilarity: number | null;
+  routes: Record<AutomationRoute, Record<AutomationRoute, number>>;   // shadow route -> human route -> count
+}
+
+export interface ShadowReport {
+  shadowed: number;
+  compared: number;
+  routeAgreement: number;
+  averageSimilarity: number | null;
+  byIntent: ShadowIntentStats[];
+}
+
+// The route that would have produced each human outcome
+const HUMAN_ROUTES: Record<HumanOutcome, AutomationRoute> = {
+  sent_as_drafted: 'auto',
+  edited: 'approval',
+  escalated: 'escalate'
+};
+
+/**
+ * Shadow Mode
+ * Runs classification, rule matching and draft generation next to the human agents without
+ * sending mail, running workflows or creating escalations, then scores the would-be decision
+ * against what the human actually did.
+ */
+class ShadowModeService {
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const settings = await storage.getSystemSettings(userId);
+    return !!settings?.shadowMode;
+  }
+
+  /**
+   * Decide and draft for an already-classified email, store the decision next to it and
+   * hand the email back to the human queue
+   */
+  async shadowProcess(
+    email: any,
+    userId: string,
+    emailData: IncomingEmail,
+    classification: ClassificationResult,
+    sentimentResult?: any,
+    analysis?: EmailAnalysisContext
+  ): Promise<ProcessedEmail> {
+    const decision = await this.decide(userId, emailData, classification, sentimentResult, analysis);
+
+    await storage.updateEmail(email.id, {
+      status: 'pending',
+      metadata: {
+        ...(email.metadata as any || {}),
+        classificationReasoning: classification.reasoning,
+        intents: classification.intents,
+        shadowDecision: decision
+      }
+    });
+
+    console.log(`[SHADOW_MODE] Email ${email.id}: would ${decision.route} (${decision.classification}, ${decision.confidence}%) - ${decision.reason}`);
+
+    return {
+      id: email.id,
+      classification: classification.classification,
+      confidence: classification.confidence,
+      autoResponseSent: false,
+      escalated: false,
+      ruleUsed: decision.ruleName,
+      shadow: true
+    };
+  }
+
+  /**
+   * Score the shadow decision against a reply a human sent. The outcome comes from the email
+   * and the reply text: escalated emails stay escalations, otherwise the reply either is the
+   * shadow draft or it is not.
+   */
+  async recordHumanReply(userId: string, emailId: string, replyBody: string): Promise<ShadowComparison | null> {
+    const email = await this.findShadowedEmail(userId, emailId);
+    if (!email) {
+      return null;
+    }
+    return this.saveComparison(email, this.outcomeFor(email, replyBody), replyBody);
+  }
+
+  /**
+   * Score the shadow decision once a human has handled the email. Callers that know what the
+   * agent did (escalation screens, reply editors) pass the outcome directly.
+   */
+  async recordHumanOutcome(
+    userId: string,
+    emailId: string,
+    outcome: HumanOutcome,
+    replyBody?: string
+  ): Promise<ShadowComparison | null> {
+    const email = await this.findShadowedEmail(userId, emailId);
+    return email ? this.saveComparison(email, outcome, replyBody) : null;
+  }
+
+  /**
+   * Per-intent agreement between shadow decisions and human handling
+   */
+  async getReport(userId: string, since?: Date): Promise<ShadowReport> {
+    const emails: any[] = await storage.getEmails(userId);
+    const byIntent = new Map<string, { stats: ShadowIntentStats; similarities: number[] }>();
+
+    for (const email of emails) {
+      const decision: ShadowDecision | undefined = email.metadata?.shadowDecision;
+      if (!decision || (since && new Date(decision.decidedAt) < since)) continue;
+
+      let entry = byIntent.get(decision.classification);
+      if (!entry) {
+        entry = {
+          stats: {
+            intent: decision.classification,
+            shadowed: 0,
+            compared: 0,
+            routeMatches: 0,
+            routeAgreement: 0,
+            averageSimilarity: null,
+            routes: { auto: this.emptyRoutes(), approval: this.emptyRoutes(), escalate: this.emptyRoutes() }
+          },
+          similarities: []
+        };
+        byIntent.set(decision.classification, entry);
+      }
+
+      entry.stats.shadowed++;
+      // Emails handled outside the scored reply paths are compared from their final state
+      const comparison: ShadowComparison | undefined = email.metadata?.shadowComparison || this.compareFinalState(email, decision);
+      if (!comparison) continue;
+
+      entry.stats.compared++;
+      entry.stats.routes[decision.route][comparison.humanRoute]++;
+      if (comparison.routeMatched) entry.stats.routeMatches++;
+      if (comparison.draftSimilarity !== undefined) entry.similarities.push(comparison.draftSimilarity);
+    }
+
+    const intents = Array.from(byIntent.values()).map(({ stats, similarities }) => ({
+      ...stats,
+      routeAgreement: stats.compared > 0 ? Math.round((stats.routeMatches / stats.compared) * 100) : 0,
+      averageSimilarity: this.average(similarities)
+    }));
+
+    const compared = intents.reduce((sum, i) => sum + i.compared, 0);
+    const routeMatches = intents.reduce((sum, i) => sum + i.routeMatches, 0);
+    const allSimilarities = Array.from(byIntent.values()).flatMap(e => e.similarities);
+
+    return {
+      shadowed: intents.reduce((sum, i) => sum + i.shadowed, 0),
+      compared,
+      routeAgreement: compared > 0 ? Math.round((routeMatches / compared) * 100) : 0,
+      averageSimilarity: this.average(allSimilarities),
+      byIntent: intents.sort((a, b) => b.shadowed - a.shadowed)
+    };
+  }
+
+  /**
+   * Same gates as executeRule: drafts that would be escalated count as escalations
+   */
+  private async decide(
+    userId: string,
+    emailData: IncomingEmail,
+    classification: ClassificationResult,
+    sentimentResult?: any,
+    analysis?: EmailAnalysisContext
+  ): Promise<ShadowDecision> {
+    const preview = await autoResponderService.previewRoute(userId, emailData, classification, sentimentResult, undefined, analysis);
+    const decision: ShadowDecision = {
+      route: preview.route,
+      reason: preview.reason,
+      classification: classification.classification,
+      confidence: classification.confidence,
+      intents: (classification.intents || []).map(i => i.intent),
+      ruleId: preview.rule?.id,
+      ruleName: preview.rule?.name,
+      citations: 0,
+      decidedAt: new Date().toISOString()
+    };
+
+    if (preview.route === 'escalate' || !preview.rule) {
+      return decision;
+    }
+
+    const intent = classification.intents?.[0];
+    const proposed = await autoResponderService.generateProposedResponse(preview.rule, emailData, userId, intent, { dryRun: true, analysis, steps: preview.steps });
+    const sendLint = draftActionLinter.lint(proposed.response);
+
+    decision.draft = sendLint.text;
+    decision.factCheck = proposed.factCheck?.verdict;
+    decision.actionLint = proposed.actionLint?.verdict;
+    decision.citations = proposed.citations.length;
+
+    const factCheckFailed = preview.route === 'auto'
+      ? !!proposed.factCheck && proposed.factCheck.verdict !== 'pass'
+      : proposed.factCheck?.verdict === 'block';
+    if (factCheckFailed) {
+      decision.route = 'escalate';
+      decision.reason = `Draft failed factual consistency check: ${proposed.factCheck!.summary}`;
+    } else if (proposed.actionLint?.verdict === 'rejected' || sendLint.verdict === 'rejected') {
+      decision.route = 'escalate';
+      decision.reason = 'Draft claims actions were completed before they were executed';
+    }
+
+    return decision;
+  }
+
+  private async saveComparison(email: any, outcome: HumanOutcome, replyBody?: string): Promise<ShadowComparison> {
+    const decision: ShadowDecision = email.metadata.shadowDecision;
+    const comparison = this.compare(decision, outcome, replyBody);
+    await storage.updateEmail(email.id, {
+      metadata: { ...(email.metadata || {}), shadowComparison: comparison }
+    });
+
+    console.log(`[SHADOW_MODE] Email ${email.id}: shadow ${decision.route} vs human ${comparison.humanRoute} (${outcome})${comparison.draftSimilarity !== undefined ? `, draft similarity ${comparison.draftSimilarity}` : ''}`);
+    return comparison;
+  }
+
+  private compare(decision: ShadowDecision, outcome: HumanOutcome, replyBody?: string): ShadowComparison {
+    const humanRoute = HUMAN_ROUTES[outcome];
+    const draftSimilarity = decision.draft && replyBody ? this.similarity(decision.draft, replyBody) : undefined;
+    return {
+      humanOutcome: outcome,
+      humanRoute,
+      routeMatched: humanRoute === decision.route,
+      draftSimilarity: draftSimilarity !== undefined ? Math.round(draftSimilarity * 100) / 100 : undefined,
+      comparedAt: new Date().toISOString()
+    };
+  }
+
+  private compareFinalState(email: any, decision: ShadowDecision): ShadowComparison | undefined {
+    if (email.status === 'escalated') {
+      return this.compare(decision, 'escalated');
+    }
+    if (email.isResponded && email.aiResponse) {
+      return this.compare(decision, this.outcomeFor(email, email.aiResponse), email.aiResponse);
+    }
+    return undefined;
+  }
+
+  private outcomeFor(email: any, replyBody: string): HumanOutcome {
+    if (email.status === 'escalated') {
+      return 'escalated';
+    }
+    const draft: string | undefined = email.metadata?.shadowDecision?.draft;
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+    return draft && normalize(draft) === normalize(replyBody) ? 'sent_as_drafted' : 'edited';
+  }
+
+  private async findShadowedEmail(userId: string, emailId: string): Promise<any | undefined> {
+    const email: any = await storage.getEmail(emailId);
+    return email?.userId === userId && email.metadata?.shadowDecision ? email : undefined;
+  }
+
+  /**
+   * Cosine similarity of word counts - cheap and good enough to tell "sent as drafted" from a rewrite
+   */
+  private similarity(a: string, b: string): number {
+    const countWords = (text: string) => {
+      const counts = new Map<string, number>();
+      for (const word of text.toLowerCase().match(/[a-z0-9']+/g) || []) {
+        counts.set(word, (counts.get(word) || 0) + 1);
+      }
+      return counts;
+    };
+
+    const va = countWords(a);
+    const vb = countWords(b);
+    let dot = 0;
+    va.forEach((count, word) => { dot += count * (vb.get(word) || 0); });
+    const norm = (v: Map<string, number>) => Math.sqrt(Array.from(v.values()).reduce((sum, c) => sum + c * c, 0));
+    const denominator = norm(va) * norm(vb);
+    return denominator > 0 ? dot / denominator : 0;
+  }
+
+  private average(values: number[]): number | null {
+    if (values.length === 0) return null;
+    return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100;
+  }
+
+  private emptyRoutes(): Record<AutomationRoute, number> {
+    return { auto: 0, approval: 0, escalate: 0 };
+  }
+}
+
+export const shadowModeService = new ShadowModeService();
@@ -1,7 +1,23 @@
-import OpenAI from "openai";
+import { createHash } from "crypto";
 import { storage } from "../storage";
+import { llmProviderService } from "./llm-provider";
+import { knowledgeChunkIndex, type KnowledgeChunk, type KnowledgeSource } from "./knowledge-chunk-index";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+export interface ChunkSearchResult {
+  chunkId: string;
+  sourceId: string;
+  url: string;            // Parent source URL
+  headingPath: string[];
+  content: string;        // Chunk text only, never the whole page
+  similarity: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface SearchableContent {
+  sources: KnowledgeSource[];
+  chunks: KnowledgeChunk[];
+}
 
 /**
  * Industry Standard Vector Embeddings Implementation
@@ -20,22 +36,17 @@ export class ProperVectorEmbeddingsService {
   /**
    * Generate embeddings following OpenAI best practices
    */
-  private async generateEmbedding(text: string): Promise<number[]> {
-    const cacheKey = this.createCacheKey(text);
+  private async generateEmbedding(text: string, userId?: string): Promise<number[]> {
+    // Industry standard: text-embedding-3-small for cost-effective high quality (provider default)
+    const llm = await llmProviderService.getProvider(userId);
+    const cacheKey = `${llm.embeddingModel}:${this.createCacheKey(text)}`;
     
     if (this.embeddingsCache.has(cacheKey)) {
       return this.embeddingsCache.get(cacheKey)!;
     }
     
     try {
-      // Industry standard: text-embedding-3-small for cost-effective high quality
-      const response = await openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: text.substring(0, 8191), // Model's max token limit
-        encoding_format: "float"
-      });
-
-      const embedding = response.data[0].embedding;
+      const embedding = await llm.createEmbedding(text);
       
       // Cache for performance
       this.embeddingsCache.set(cacheKey, embedding);
@@ -74,33 +85,51 @@ export class ProperVectorEmbeddingsService {
   }
   
   /**
-   * Chunk content following industry best practices
-   * 256-512 tokens with 50-100 token overlap
+   * Load completed knowledge sources (crawled URLs and uploaded documents) and their
+   * indexed chunks - shared by vector and keyword search
    */
-  private chunkContent(content: string, chunkSize: number = 512, overlap: number = 50): string[] {
-    const words = content.split(/\s+/);
-    const chunks: string[] = [];
-    
-    for (let i = 0; i < words.length; i += (chunkSize - overlap)) {
-      const chunk = words.slice(i, i + chunkSize).join(' ');
-      if (chunk.trim().length > 50) { // Minimum chunk size
-        chunks.push(chunk.trim());
-      }
+  async loadSearchableContent(userId: string): Promise<SearchableContent> {
+    const [trainingUrls, documents] = await Promise.all([
+      storage.getTrainingUrls(userId),
+      storage.getKnowledgeDocuments(userId)
+    ]);
+    
+    const completedUrls = (trainingUrls || []).filter(url => 
+      url.status === 'completed' && 
+      url.crawledContent && 
+      url.crawledContent.length > 100
+    );
+    
+    const completedDocuments = (documents || []).filter((doc: any) =>
+      doc.status === 'completed' &&
+      doc.content
+    );
+    
+    const sources = [
+      ...completedUrls.map(url => knowledgeChunkIndex.fromTrainingUrl(url)),
+      ...completedDocuments.map((doc: any) => knowledgeChunkIndex.fromDocument(doc))
+    ];
+    
+    if (sources.length === 0) {
+      return { sources, chunks: [] };
     }
     
-    return chunks;
+    const chunks = await knowledgeChunkIndex.syncSources(userId, sources);
+    return { sources, chunks };
   }
   
   /**
    * Semantic search with industry standard thresholds
+   * Returns the top-k chunks across all sources, not one chunk per page
    */
-  async semanticSearch(userId: string, query: string, qualityLevel: 'high' | 'balanced' | 'exploratory' = 'balanced'): Promise<{
-    results: Array<{
-      content: string;
-      url: string;
-      similarity: number;
-      chunk?: string;
-    }>;
+  async semanticSearch(
+    userId: string,
+    query: string,
+    qualityLevel: 'high' | 'balanced' | 'exploratory' = 'balanced',
+    searchable?: SearchableContent,
+    topK: number = 8
+  ): Promise<{
+    results: ChunkSearchResult[];
     threshold: number;
     totalSources: number;
   }> {
@@ -111,86 +140,24 @@ export class ProperVectorEmbeddingsService {
     ];
     
     try {
-      // Get training content
-      const trainingUrls = await storage.getTrainingUrls(userId);
-      
-      if (!trainingUrls || trainingUrls.length === 0) {
-        return { results: [], threshold, totalSources: 0 };
-      }
-      
-      const completedUrls = trainingUrls.filter(url => 
-        url.status === 'completed' && 
-        url.crawledContent && 
-        url.crawledContent.length > 100
-      );
+      // Get training content (chunks are embedded once at index time)
+      const { sources, chunks } = searchable || await this.loadSearchableContent(userId);
       
-      if (completedUrls.length === 0) {
+      if (sources.length === 0) {
         return { results: [], threshold, totalSources: 0 };
       }
       
-      console.log(`[VECTOR_SEARCH] Processing ${completedUrls.length} sources with ${qualityLevel} quality (threshold: ${threshold})`);
-      
-      // Generate query embedding
-      const queryEmbedding = await this.generateEmbedding(query);
-      
-      const results: Array<{
-        content: string;
-        url: string;
-        similarity: number;
-        chunk?: string;
-      }> = [];
+      console.log(`[VECTOR_SEARCH] Processing ${chunks.length} chunks from ${sources.length} sources with ${qualityLevel} quality (threshold: ${threshold})`);
       
-      // Process each training source
-      for (const urlData of completedUrls) {
-        if (!urlData.crawledContent) continue;
-        
-        try {
-          // Industry practice: chunk large documents for better semantic matching
-          const chunks = urlData.crawledContent.length > 1000 
-            ? this.chunkContent(urlData.crawledContent)
-            : [urlData.crawledContent];
-          
-          // Find best matching chunk
-          let bestSimilarity = 0;
-          let bestChunk = '';
-          
-          for (const chunk of chunks) {
-            const chunkEmbedding = await this.generateEmbedding(chunk);
-            const similarity = this.calculateCosineSimilarity(queryEmbedding, chunkEmbedding);
-            
-            if (similarity > bestSimilarity) {
-              bestSimilarity = similarity;
-              bestChunk = chunk;
-            }
-          }
-          
-          console.log(`[VECTOR_SEARCH] ${urlData.url}: ${bestSimilarity.toFixed(3)} (${bestSimilarity >= threshold ? 'MATCH' : 'SKIP'})`);
-          
-          // Include if meets threshold
-          if (bestSimilarity >= threshold) {
-            results.push({
-              content: urlData.crawledContent,
-              url: urlData.url as string,
-              similarity: bestSimilarity,
-              chunk: bestChunk !== urlData.crawledContent ? bestChunk : undefined
-            });
-          }
-          
-        } catch (error) {
-          console.error(`[VECTOR_SEARCH] Error processing ${urlData.url}:`, error instanceof Error ? error.message : String(error));
-          continue;
-        }
-      }
-      
-      // Sort by similarity (highest first)
-      results.sort((a, b) => b.similarity - a.similarity);
+      const ranked = await this.rankChunks(userId, query, chunks);
+      const results = ranked.filter(r => r.similarity >= threshold);
       
-      console.log(`[VECTOR_SEARCH] Found ${results.length} matches above ${threshold} threshold`);
+      console.log(`[VECTOR_SEARCH] Found ${results.length} chunks above ${threshold} threshold`);
       
       return {
-        results: results.slice(0, 5), // Return top 5 matches (industry standard)
+        results: results.slice(0, topK),
         threshold,
-        totalSources: completedUrls.length
+        totalSources: sources.length
       };
       
     } catch (error) {
@@ -200,10 +167,50 @@ export class ProperVectorEmbeddingsService {
   }
   
   /**
-   * Create cache key from text content
+   * Nearest chunks regardless of threshold - for forced grounding when nothing clears it
+   */
+  async nearestChunks(userId: string, query: string, topK: number = 5): Promise<ChunkSearchResult[]> {
+    const { chunks } = await this.loadSearchableContent(userId);
+    const ranked = await this.rankChunks(userId, query, chunks);
+    return ranked.slice(0, topK);
+  }
+  
+  /**
+   * Score every indexed chunk against the query, highest similarity first
+   */
+  private async rankChunks(userId: string, query: string, chunks: KnowledgeChunk[]): Promise<ChunkSearchResult[]> {
+    if (chunks.length === 0) {
+      return [];
+    }
+    
+    // Only the query is embedded here
+    const queryEmbedding = await this.generateEmbedding(query, userId);
+    const results: ChunkSearchResult[] = [];
+    
+    for (const chunk of chunks) {
+      if (chunk.embedding.length !== queryEmbedding.length) continue; // Indexed with another model
+      
+      results.push({
+        chunkId: chunk.id,
+        sourceId: chunk.sourceId,
+        url: chunk.sourceUrl,
+        headingPath: chunk.headingPath || [],
+        content: chunk.content,
+        similarity: this.calculateCosineSimilarity(queryEmbedding, chunk.embedding),
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset
+      });
+    }
+    
+    // Sort by similarity (highest first)
+    return results.sort((a, b) => b.similarity - a.similarity);
+  }
+  
+  /**
+   * Create cache key from the full text content (prefix keys collided across chunks)
    */
   private createCacheKey(text: string): string {
-    return text.substring(0, 100).replace(/\s+/g, '_');
+    return createHash('sha256').update(text).digest('hex');
   }
   
   /**
@@ -0,0 +1,257 @@
+import { randomUUID } from "crypto";
+import type { IStorage } from "./storage";
+
+// Storage methods the email pipeline, knowledge index and offline scripts call
+const PIPELINE_METHODS = [
+  'createEmail', 'updateEmail', 'getEmail', 'getEmails', 'getEmailsByStatus',
+  'getSystemSettings', 'getAutoResponderRules', 'updateAutoResponderRule',
+  'createActivityLog', 'getActivityLogs', 'createEscalationQueue',
+  'createAutomationApprovalItem', 'getAutomationApprovalQueue', 'getAutomationApprovalItem', 'updateAutomationApprovalItem', 'claimAutomationApprovalItem',
+  'getTrainingUrls', 'updateTrainingUrl',
+  'getKnowledgeDocuments', 'getKnowledgeDocument', 'createKnowledgeDocument', 'updateKnowledgeDocument', 'deleteKnowledgeDocument',
+  'getKnowledgeChunks', 'replaceKnowledgeChunks', 'deleteKnowledgeChunks'
+] as const;
+
+type PipelineMethod = typeof PIPELINE_METHODS[number];
+
+/**
+ * The part of IStorage the pipeline depends on. DatabaseStorage implements it as part of IStorage;
+ * MemStorage implements it with the same signatures, so a change to IStorage breaks the build here.
+ */
+export type PipelineStorage = Pick<IStorage, PipelineMethod>;
+
+type Args<K extends PipelineMethod> = Parameters<IStorage[K]>;
+type Result<K extends PipelineMethod> = ReturnType<IStorage[K]>;
+type Row<K extends PipelineMethod> = NonNullable<Awaited<Result<K>>>;
+
+type Email = Row<'createEmail'>;
+type SystemSettings = Row<'getSystemSettings'>;
+type AutoResponderRule = Row<'getAutoResponderRules'>[number];
+type ActivityLog = Row<'createActivityLog'>;
+type EscalationItem = Row<'createEscalationQueue'>;
+type ApprovalItem = Row<'createAutomationApprovalItem'>;
+type TrainingUrl = Row<'getTrainingUrls'>[number];
+type KnowledgeDocument = Row<'createKnowledgeDocument'>;
+type KnowledgeChunk = Row<'getKnowledgeChunks'>[number];
+
+/**
+ * In-memory implementation of the storage interface for tests and offline runs (corpus replay).
+ * Covers the pipeline's part of IStorage plus seeding/inspection helpers. Nothing is persisted
+ * and no database connection is opened.
+ */
+export class MemStorage implements PipelineStorage {
+  private emails = new Map<string, Email>();
+  private settings = new Map<string, SystemSettings>();
+  private rules = new Map<string, AutoResponderRule>();
+  private activityLogs: ActivityLog[] = [];
+  private escalations: EscalationItem[] = [];
+  private approvalItems: ApprovalItem[] = [];
+  private trainingUrls: TrainingUrl[] = [];
+  private knowledgeDocuments: KnowledgeDocument[] = [];
+  private knowledgeChunks: KnowledgeChunk[] = [];
+
+  /**
+   * Drop everything - call between tests
+   */
+  reset(): void {
+    this.emails.clear();
+    this.settings.clear();
+    this.rules.clear();
+    this.activityLogs = [];
+    this.escalations = [];
+    this.approvalItems = [];
+    this.trainingUrls = [];
+    this.knowledgeDocuments = [];
+    this.knowledgeChunks = [];
+  }
+
+  // Emails
+
+  async createEmail(data: Args<'createEmail'>[0]): Result<'createEmail'> {
+    const now = new Date();
+    const email = { id: randomUUID(), isResponded: false, createdAt: now, updatedAt: now, ...data } as Email;
+    this.emails.set(email.id, email);
+    return email;
+  }
+
+  async updateEmail(id: string, updates: Args<'updateEmail'>[1]): Result<'updateEmail'> {
+    const email = this.emails.get(id);
+    if (!email) return undefined;
+    const updated = { ...email, ...updates, updatedAt: new Date() } as Email;
+    this.emails.set(id, updated);
+    return updated;
+  }
+
+  async getEmail(id: string): Result<'getEmail'> {
+    return this.emails.get(id);
+  }
+
+  async getEmails(userId: string): Result<'getEmails'> {
+    return Array.from(this.emails.values()).filter(e => e.userId === userId);
+  }
+
+  async getEmailsByStatus(userId: string, status: Args<'getEmailsByStatus'>[1]): Result<'getEmailsByStatus'> {
+    return Array.from(this.emails.values()).filter(e => e.userId === userId && e.status === status);
+  }
+
+  // Settings and rules
+
+  async getSystemSettings(userId: string): Result<'getSystemSettings'> {
+    return this.settings.get(userId);
+  }
+
+  async updateSystemSettings(userId: string, updates: Partial<SystemSettings>): Promise<SystemSettings> {
+    const settings = { ...(this.settings.get(userId) || { userId }), ...updates } as SystemSettings;
+    this.settings.set(userId, settings);
+    return settings;
+  }
+
+  async getAutoResponderRules(userId: string): Result<'getAutoResponderRules'> {
+    return Array.from(this.rules.values()).filter(r => r.userId === userId);
+  }
+
+  async createAutoResponderRule(data: Partial<AutoResponderRule>): Promise<AutoResponderRule> {
+    const rule = { id: randomUUID(), isActive: true, triggerCount: 0, createdAt: new Date(), ...data } as AutoResponderRule;
+    this.rules.set(rule.id, rule);
+    return rule;
+  }
+
+  async updateAutoResponderRule(id: string, updates: Args<'updateAutoResponderRule'>[1]): Result<'updateAutoResponderRule'> {
+    const rule = this.rules.get(id);
+    if (!rule) return undefined;
+    const updated = { ...rule, ...updates } as AutoResponderRule;
+    this.rules.set(id, updated);
+    return updated;
+  }
+
+  async deleteAutoResponderRule(id: string): Promise<void> {
+    this.rules.delete(id);
+  }
+
+  // Pipeline outputs
+
+  async createActivityLog(data: Args<'createActivityLog'>[0]): Result<'createActivityLog'> {
+    const log = { id: randomUUID(), createdAt: new Date(), ...data } as ActivityLog;
+    this.activityLogs.push(log);
+    return log;
+  }
+
+  async getActivityLogs(userId: string): Result<'getActivityLogs'> {
+    return this.activityLogs.filter(l => l.userId === userId);
+  }
+
+  async createEscalationQueue(data: Args<'createEscalationQueue'>[0]): Result<'createEscalationQueue'> {
+    const item = { id: randomUUID(), createdAt: new Date(), ...data } as EscalationItem;
+    this.escalations.push(item);
+    return item;
+  }
+
+  async getEscalationQueue(userId: string): Promise<EscalationItem[]> {
+    return this.escalations.filter(e => e.userId === userId);
+  }
+
+  async updateEscalationQueue(id: string, updates: Partial<EscalationItem>): Promise<EscalationItem | undefined> {
+    return this.updateIn(this.escalations, id, updates);
+  }
+
+  async createAutomationApprovalItem(data: Args<'createAutomationApprovalItem'>[0]): Result<'createAutomationApprovalItem'> {
+    const item = { id: randomUUID(), createdAt: new Date(), ...data } as ApprovalItem;
+    this.approvalItems.push(item);
+    return item;
+  }
+
+  async getAutomationApprovalQueue(userId: string): Result<'getAutomationApprovalQueue'> {
+    return this.approvalItems.filter(i => i.userId === userId);
+  }
+
+  async getAutomationApprovalItem(id: string): Result<'getAutomationApprovalItem'> {
+    return this.approvalItems.find(i => i.id === id);
+  }
+
+  async updateAutomationApprovalItem(id: string, updates: Args<'updateAutomationApprovalItem'>[1]): Result<'updateAutomationApprovalItem'> {
+    return this.updateIn(this.approvalItems, id, updates);
+  }
+
+  async claimAutomationApprovalItem(id: string, status: Args<'claimAutomationApprovalItem'>[1]): Result<'claimAutomationApprovalItem'> {
+    // Compare-and-set: DatabaseStorage runs UPDATE ... SET status = $2 WHERE id = $1 AND status = 'pending' RETURNING *
+    const item = this.approvalItems.find(i => i.id === id);
+    if (!item || item.status !== 'pending') return undefined;
+    return this.updateIn(this.approvalItems, id, { status });
+  }
+
+  // Knowledge base
+
+  async getTrainingUrls(userId: string): Result<'getTrainingUrls'> {
+    return this.trainingUrls.filter(u => u.userId === userId);
+  }
+
+  async createTrainingUrl(data: Partial<TrainingUrl>): Promise<TrainingUrl> {
+    const url = { id: randomUUID(), status: 'completed', createdAt: new Date(), ...data } as TrainingUrl;
+    this.trainingUrls.push(url);
+    return url;
+  }
+
+  async updateTrainingUrl(id: string, updates: Args<'updateTrainingUrl'>[1]): Result<'updateTrainingUrl'> {
+    return this.updateIn(this.trainingUrls, id, updates);
+  }
+
+  async getKnowledgeDocuments(userId: string): Result<'getKnowledgeDocuments'> {
+    return this.knowledgeDocuments.filter(d => d.userId === userId);
+  }
+
+  async getKnowledgeDocument(id: string): Result<'getKnowledgeDocument'> {
+    return this.knowledgeDocuments.find(d => d.id === id);
+  }
+
+  async createKnowledgeDocument(data: Args<'createKnowledgeDocument'>[0]): Result<'createKnowledgeDocument'> {
+    const document = { id: randomUUID(), createdAt: new Date(), ...data } as KnowledgeDocument;
+    this.knowledgeDocuments.push(document);
+    return document;
+  }
+
+  async updateKnowledgeDocument(id: string, updates: Args<'updateKnowledgeDocument'>[1]): Result<'updateKnowledgeDocument'> {
+    return this.updateIn(this.knowledgeDocuments, id, updates);
+  }
+
+  async deleteKnowledgeDocument(id: string): Result<'deleteKnowledgeDocument'> {
+    this.knowledgeDocuments = this.knowledgeDocuments.filter(d => d.id !== id);
+    this.knowledgeChunks = this.knowledgeChunks.filter(c => c.sourceId !== id);
+  }
+
+  async getKnowledgeChunks(userId: string): Result<'getKnowledgeChunks'> {
+    return this.knowledgeChunks.filter(c => c.userId === userId);
+  }
+
+  async replaceKnowledgeChunks(userId: string, sourceId: string, chunks: Args<'replaceKnowledgeChunks'>[2]): Result<'replaceKnowledgeChunks'> {
+    await this.deleteKnowledgeChunks(userId, sourceId);
+    this.knowledgeChunks.push(...chunks.map(chunk => ({ id: randomUUID(), createdAt: new Date(), ...chunk }) as KnowledgeChunk));
+  }
+
+  async deleteKnowledgeChunks(userId: string, sourceId: string): Result<'deleteKnowledgeChunks'> {
+    this.knowledgeChunks = this.knowledgeChunks.filter(c => c.userId !== userId || c.sourceId !== sourceId);
+  }
+
+  private updateIn<T extends { id: string }>(items: T[], id: string, updates: object): T | undefined {
+    const index = items.findIndex(item => item.id === id);
+    if (index < 0) return undefined;
+    items[index] = { ...items[index], ...updates, updatedAt: new Date() };
+    return items[index];
+  }
+}
+
+/**
+ * Point the shared storage singleton at an in-memory store, so every service that imports
+ * `storage` runs against it. Returns the store for seeding and inspection.
+ */
+export async function installMemoryStorage(memStorage: MemStorage = new MemStorage()): Promise<MemStorage> {
+  const { storage } = await import('./storage');
+  for (const name of PIPELINE_METHODS) {
+    replaceMethod(storage, memStorage, name);
+  }
+  return memStorage;
+}
+
+// MemStorage implements PipelineStorage, so each method bound here already has IStorage's signature
+function replaceMethod<K extends PipelineMethod>(target: PipelineStorage, source: MemStorage, name: K): void {
+  target[name] = source[name].bind(source) as PipelineStorage[K];
+}
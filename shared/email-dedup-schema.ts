@@ -0,0 +1,30 @@
+import { pgTable, text, jsonb, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
+
+/**
+ * Dedup keys of ingested emails (server/services/email-dedup.ts), so a redelivery is matched
+ * with a keyed lookup. Read and written by PostgresDedupStore; re-exported from shared/schema.ts
+ * so db:push creates it.
+ */
+export const emailDedupKeys = pgTable("email_dedup_keys", {
+  userId: text("user_id").notNull(),
+  dedupKey: text("dedup_key").notNull(),
+  emailId: text("email_id").notNull(),
+  jobId: text("job_id"),
+  result: jsonb("result"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow()
+}, (table) => ({
+  userKeyIdx: uniqueIndex("email_dedup_keys_user_key_idx").on(table.userId, table.dedupKey)
+}));
+
+/**
+ * Short leases serializing check-and-store per dedup key across instances
+ * (PostgresDedupStore.withLock). A row left by a crashed holder is taken over once it expires.
+ */
+export const emailDedupLocks = pgTable("email_dedup_locks", {
+  userId: text("user_id").notNull(),
+  dedupKey: text("dedup_key").notNull(),
+  token: text("token").notNull(),
+  lockedUntil: timestamp("locked_until", { withTimezone: true }).notNull()
+}, (table) => ({
+  userKeyIdx: uniqueIndex("email_dedup_locks_user_key_idx").on(table.userId, table.dedupKey)
+}));
@@ -0,0 +1,29 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, jsonb, integer, timestamp, index } from "drizzle-orm/pg-core";
+
+/**
+ * Durable inbound email jobs (server/services/email-job-queue.ts), read and written by
+ * PostgresJobStore. Re-exported from shared/schema.ts so db:push creates it.
+ */
+export const emailJobs = pgTable("email_jobs", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull(),
+  stage: text("stage").notNull(),
+  checkpoint: jsonb("checkpoint").notNull().default({}),
+  attempts: integer("attempts").notNull().default(0),
+  runAt: timestamp("run_at", { withTimezone: true }).notNull().defaultNow(),
+  lockedUntil: timestamp("locked_until", { withTimezone: true }),
+  leaseToken: text("lease_token"),
+  lastError: text("last_error"),
+  errors: jsonb("errors").notNull().default([]),
+  result: jsonb("result"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  deadAt: timestamp("dead_at", { withTimezone: true })
+}, (table) => ({
+  runnableIdx: index("email_jobs_runnable_idx").on(table.status, table.runAt),
+  userStatusIdx: index("email_jobs_user_status_idx").on(table.userId, table.status),
+  emailIdIdx: index("email_jobs_email_id_idx").on(sql`(${table.checkpoint}->>'emailId')`)
+}));